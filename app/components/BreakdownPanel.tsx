@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { normalizeScore, type ScoringSystem } from '../services/scoringService';
+import {
+  hasGroupMeta,
+  summarizeByGroup,
+  type BreakdownKey,
+  type EngineGroupStats,
+  type GroupedResultRecord
+} from '../services/breakdownService';
+
+interface SearchEngine {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface Dimension {
+  id: number;
+  name: string;
+  weight: number;
+  enabled: boolean;
+}
+
+interface BreakdownPanelProps {
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  evaluationResults: GroupedResultRecord[];
+  scoringSystem: ScoringSystem;
+}
+
+// 图表对象：加权总分或单个维度
+const WEIGHTED_SCORE_KEY = '__weighted__';
+
+// 各引擎在图表中的颜色
+const ENGINE_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-orange-500', 'bg-purple-500', 'bg-pink-500', 'bg-teal-500'];
+
+/**
+ * 分类对比组件
+ * 按查询分类或标签分组，以图表和表格展示各引擎在每组内的加权总分与各维度分数
+ */
+export default function BreakdownPanel({
+  searchEngines,
+  dimensions,
+  evaluationResults,
+  scoringSystem
+}: BreakdownPanelProps) {
+  // 分组方式
+  const [groupBy, setGroupBy] = useState<BreakdownKey>('category');
+  // 图表展示的分数
+  const [target, setTarget] = useState(WEIGHTED_SCORE_KEY);
+
+  const breakdowns = useMemo(
+    () => summarizeByGroup(evaluationResults, searchEngines, dimensions.map(dim => dim.name), groupBy),
+    [evaluationResults, searchEngines, dimensions, groupBy]
+  );
+
+  if (!hasGroupMeta(evaluationResults, 'category') && !hasGroupMeta(evaluationResults, 'tag')) {
+    return (
+      <div className="text-sm text-gray-500">
+        分类对比需要查询带有分类或标签，请通过「导入查询集」导入带 category / tags 列的查询文件
+      </div>
+    );
+  }
+
+  /**
+   * 获取引擎在组内的目标分数
+   */
+  const getTargetScore = (stats: EngineGroupStats) => (
+    target === WEIGHTED_SCORE_KEY ? stats.averageScore : stats.dimensionScores[target]
+  );
+
+  /**
+   * 获取组内某一列的最高分，用于标出该列领先的引擎
+   */
+  const getBestScore = (scores: Array<number | null>) => {
+    const valid = scores.filter((score): score is number => score !== null);
+    return valid.length > 1 ? Math.max(...valid) : null;
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex space-x-1">
+          {[
+            { key: 'category', label: '按分类' },
+            { key: 'tag', label: '按标签' }
+          ].map(item => (
+            <button
+              key={item.key}
+              onClick={() => setGroupBy(item.key as BreakdownKey)}
+              className={`px-3 py-1 text-xs sm:text-sm rounded-md ${
+                groupBy === item.key ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value={WEIGHTED_SCORE_KEY}>加权总分</option>
+          {dimensions.map(dim => (
+            <option key={dim.id} value={dim.name}>{dim.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* 分组分数图 */}
+      <div>
+        <div className="flex flex-wrap gap-3 mb-3 text-xs text-gray-600">
+          {searchEngines.map((engine, index) => (
+            <span key={engine.id} className="flex items-center space-x-1">
+              <span className={`inline-block w-3 h-3 rounded ${ENGINE_COLORS[index % ENGINE_COLORS.length]}`}></span>
+              <span>{engine.name}</span>
+            </span>
+          ))}
+        </div>
+        <div className="space-y-3">
+          {breakdowns.map(breakdown => (
+            <div key={breakdown.group} className="flex items-start space-x-3 sm:space-x-4">
+              <div className="w-20 sm:w-28 text-xs sm:text-sm text-gray-700 truncate" title={breakdown.group}>
+                {breakdown.group}
+              </div>
+              <div className="flex-1 space-y-1">
+                {breakdown.engines.map((stats, index) => {
+                  const score = getTargetScore(stats);
+                  return (
+                    <div key={stats.engineId} className="flex items-center space-x-2">
+                      <div className="flex-1 bg-gray-200 rounded-full h-2">
+                        {score !== null && stats.resultCount > 0 && (
+                          <div
+                            className={`h-2 rounded-full ${ENGINE_COLORS[index % ENGINE_COLORS.length]}`}
+                            style={{ width: `${Math.min(normalizeScore(score, scoringSystem) * 100, 100)}%` }}
+                          ></div>
+                        )}
+                      </div>
+                      <div className="w-10 text-xs text-gray-600 text-right">
+                        {score !== null && stats.resultCount > 0 ? score.toFixed(2) : '-'}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 分组明细表 */}
+      {breakdowns.map(breakdown => {
+        const bestAverage = getBestScore(
+          breakdown.engines.map(stats => stats.resultCount > 0 ? stats.averageScore : null)
+        );
+        const bestByDimension = Object.fromEntries(dimensions.map(dim => [
+          dim.name,
+          getBestScore(breakdown.engines.map(stats => stats.dimensionScores[dim.name]))
+        ]));
+
+        return (
+          <div key={breakdown.group}>
+            <h3 className="text-sm sm:text-base font-semibold text-gray-900 mb-2">
+              {breakdown.group}
+              <span className="ml-2 text-xs font-normal text-gray-500">{breakdown.queryCount} 条查询</span>
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">引擎</th>
+                    <th className="py-2 pr-4 font-medium">加权总分</th>
+                    {dimensions.map(dim => (
+                      <th key={dim.id} className="py-2 pr-4 font-medium">{dim.name}</th>
+                    ))}
+                    <th className="py-2 pr-4 font-medium">轮次</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {breakdown.engines.map(stats => (
+                    <tr key={stats.engineId} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 text-gray-900">{stats.engineName}</td>
+                      <td className={`py-2 pr-4 ${
+                        stats.resultCount > 0 && stats.averageScore === bestAverage ? 'font-semibold text-green-700' : 'text-gray-700'
+                      }`}>
+                        {stats.resultCount > 0 ? stats.averageScore.toFixed(2) : '-'}
+                      </td>
+                      {dimensions.map(dim => {
+                        const score = stats.dimensionScores[dim.name];
+                        return (
+                          <td key={dim.id} className={`py-2 pr-4 ${
+                            score !== null && score === bestByDimension[dim.name] ? 'font-semibold text-green-700' : 'text-gray-700'
+                          }`}>
+                            {score === null ? '-' : score.toFixed(2)}
+                          </td>
+                        );
+                      })}
+                      <td className="py-2 pr-4 text-gray-500">{stats.resultCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,22 +1,51 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import PromptEditor from './PromptEditor';
 import { 
   runOptimizedSingleEvaluation, 
   runOptimizedBatchEvaluation, 
+  runPairwiseEvaluation,
   parseBatchQueries,
   validateEvaluationConfig,
   type EvaluationConfig,
   type EvaluationProgress,
   type EvaluationResult,
+  type JudgmentMode,
+  type PairwiseVerdict,
   type SearchResultCallback
 } from '../services/evaluationService';
+import { DEFAULT_SCORING_SYSTEMS, type ScoringSystem } from '../services/scoringService';
+import type { RateLimits } from '../services/schedulerService';
+import type { RetryPolicy } from '../services/apiService';
+import { ENSEMBLE_METHODS, type EnsembleMethod, type JudgeConfig } from '../services/ensembleService';
+import { DEFAULT_BIAS_CONTROLS, type BiasControls } from '../services/biasService';
+import { generateSeed } from '../services/randomService';
+import { resolveSearchParams, validateSearchParams, type SearchParams } from '../services/searchProfileService';
+import { saveRun, type RunStatus } from '../services/runHistoryService';
+import {
+  buildQueryMetaMap,
+  detectQuerySetFormat,
+  parseQuerySet,
+  type QueryMeta
+} from '../services/querySetService';
+import {
+  createCheckpoint,
+  loadCheckpoint,
+  findUnfinishedCheckpoint,
+  deleteCheckpoint,
+  clearCheckpoints,
+  stripApiKeys,
+  type CheckpointConfig,
+  type CheckpointSummary,
+  type RunCheckpoint
+} from '../services/checkpointService';
 
 interface SearchEngine {
   id: number;
   code: string;
   name: string;
+  searchParams?: SearchParams;
 }
 
 interface Dimension {
@@ -24,6 +53,7 @@ interface Dimension {
   name: string;
   weight: number;
   enabled: boolean;
+  prompt?: string;
 }
 
 interface ApiConfig {
@@ -31,20 +61,29 @@ interface ApiConfig {
   apiUrl: string;
   apiKey: string;
   modelKey: string;
+  rateLimits: RateLimits;
+  retryPolicy: RetryPolicy;
+  judges: JudgeConfig[];
 }
 
+// 评测模式：绝对评分或两两对比
+type EvaluationMode = 'absolute' | 'pairwise';
+
 interface ConfigPanelProps {
   dimensions: Dimension[];
   setDimensions: (dimensions: Dimension[]) => void;
   isEvaluating: boolean;
   setIsEvaluating: (evaluating: boolean) => void;
   setEvaluationResults: (results: EvaluationResult[]) => void;
+  setPairwiseVerdicts: (verdicts: PairwiseVerdict[]) => void;
   searchEngines: SearchEngine[];
   apiConfig: ApiConfig;
   onEvaluationRoundsChange?: (rounds: number) => void;
+  onScoringSystemChange?: (scoringSystem: ScoringSystem) => void;
   onSearchResult?: (searchResult: SearchResultCallback) => void;
   onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void;
   onEvaluationProgress?: (progress: EvaluationProgress) => void;
+  onRunStart?: (setup: { config: CheckpointConfig; dimensions: Dimension[] }) => void; // 评测开始时回传本次评测的配置（不含API密钥）与带提示词的维度
   clearResults?: () => void;
 }
 
@@ -58,12 +97,15 @@ export default function ConfigPanel({
   isEvaluating,
   setIsEvaluating,
   setEvaluationResults,
+  setPairwiseVerdicts,
   searchEngines,
   apiConfig,
   onEvaluationRoundsChange,
+  onScoringSystemChange,
   onSearchResult,
   onSseMessage,
   onEvaluationProgress,
+  onRunStart,
   clearResults
 }: ConfigPanelProps) {
   // 查询配置状态
@@ -71,37 +113,78 @@ export default function ConfigPanel({
     singleQuery: string;
     batchQueries: string;
     evaluationRounds: number;
-    scoringSystem: 'binary' | 'fivePoint';
+    scoringSystemKey: string;
+    judgmentMode: JudgmentMode;
+    maxJudgeRetries: number;
+    ensembleMethod: EnsembleMethod;
+    evaluationMode: EvaluationMode;
+    biasControls: Omit<BiasControls, 'seed'>;
+    biasSeed: string; // 留空时每次评测随机生成
   }>({
     singleQuery: '',
     batchQueries: '',
     evaluationRounds: 3,
-    scoringSystem: 'binary'
+    scoringSystemKey: 'binary',
+    judgmentMode: 'holistic',
+    maxJudgeRetries: 2,
+    ensembleMethod: 'mean',
+    evaluationMode: 'absolute',
+    biasControls: {
+      shuffleResults: DEFAULT_BIAS_CONTROLS.shuffleResults,
+      anonymizeEngines: DEFAULT_BIAS_CONTROLS.anonymizeEngines,
+      swapPairwiseOrder: DEFAULT_BIAS_CONTROLS.swapPairwiseOrder
+    },
+    biasSeed: ''
   });
 
+  // 评分制式列表状态（含内置制式与用户新增的制式）
+  const [scoringSystems, setScoringSystems] = useState<ScoringSystem[]>(DEFAULT_SCORING_SYSTEMS);
+
+  // 当前选中的评分制式
+  const activeScoringSystem = scoringSystems.find(system => system.key === queryConfig.scoringSystemKey)
+    || scoringSystems[0];
+
   // 将传入的apiConfig转换为EvaluationConfig格式
   const evaluationConfig: EvaluationConfig = {
     apiUrl: apiConfig.apiUrl,
     modelApiKey: apiConfig.apiKey,
     modelKey: apiConfig.modelKey,
     websearchUrl: apiConfig.websearchUrl,
-    scoringSystem: queryConfig.scoringSystem
+    scoringSystem: activeScoringSystem,
+    judgmentMode: queryConfig.judgmentMode,
+    maxJudgeRetries: queryConfig.maxJudgeRetries,
+    rateLimits: apiConfig.rateLimits,
+    retryPolicy: apiConfig.retryPolicy,
+    judges: apiConfig.judges,
+    ensembleMethod: queryConfig.ensembleMethod
   };
 
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [noticeMessage, setNoticeMessage] = useState<string>('');
+
+  // 导入查询集附带的元数据（按查询内容匹配，编辑批量查询后仍然有效）
+  const [queryMeta, setQueryMeta] = useState<Record<string, QueryMeta>>({});
+  // 查询集导入文件选择框
+  const queryFileInputRef = useRef<HTMLInputElement>(null);
+
+  // 当前评测的取消控制器
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 可继续的未完成评测
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<CheckpointSummary | null>(null);
 
   // 提示词模板状态
-  const [promptTemplates, setPromptTemplates] = useState({
+  const [promptTemplates, setPromptTemplates] = useState<Record<string, Record<string, string>>>({
     binary: {
       '权威性': '请评估搜索结果的权威性（0-2分）：\n0分：来源不可靠或无权威性\n1分：来源一般可靠\n2分：来源高度权威可靠',
       '相关性': '请评估搜索结果的相关性（0-2分）：\n0分：与查询完全不相关\n1分：部分相关\n2分：高度相关',
       '时效性': '请评估搜索结果的时效性（0-2分）：\n0分：信息过时\n1分：信息较新\n2分：信息最新'
-    } as Record<string, string>,
+    },
     fivePoint: {
       '权威性': '请评估搜索结果的权威性（1-5分）：\n1分：来源不可靠\n2分：来源可靠性较低\n3分：来源一般可靠\n4分：来源较为权威\n5分：来源高度权威',
       '相关性': '请评估搜索结果的相关性（1-5分）：\n1分：完全不相关\n2分：相关性较低\n3分：部分相关\n4分：较为相关\n5分：高度相关',
       '时效性': '请评估搜索结果的时效性（1-5分）：\n1分：信息严重过时\n2分：信息较为过时\n3分：信息一般\n4分：信息较新\n5分：信息最新'
-    } as Record<string, string>
+    }
   });
 
   // 监听评测轮数变化并通知父组件
@@ -111,6 +194,27 @@ export default function ConfigPanel({
     }
   }, [queryConfig.evaluationRounds, onEvaluationRoundsChange]);
 
+  // 监听评分制式变化并通知父组件
+  useEffect(() => {
+    if (onScoringSystemChange) {
+      onScoringSystemChange(activeScoringSystem);
+    }
+  }, [activeScoringSystem, onScoringSystemChange]);
+
+  /**
+   * 查找未完成的评测
+   */
+  const refreshPendingCheckpoint = useCallback(() => {
+    findUnfinishedCheckpoint()
+      .then(setPendingCheckpoint)
+      .catch(error => console.warn('读取评测检查点失败:', error));
+  }, []);
+
+  // 页面打开时检查是否有可继续的评测
+  useEffect(() => {
+    refreshPendingCheckpoint();
+  }, [refreshPendingCheckpoint]);
+
   /**
    * 更新维度权重
    */
@@ -144,79 +248,309 @@ export default function ConfigPanel({
       return;
     }
 
+    if (queryConfig.evaluationMode === 'pairwise' && searchEngines.length < 2) {
+      setErrorMessage('两两对比需要至少 2 个搜索引擎');
+      return;
+    }
+
     const enabledDimensions = dimensions.filter(dim => dim.enabled);
     if (enabledDimensions.length === 0) {
       setErrorMessage('请启用至少一个评测维度');
       return;
     }
 
+    const searchParamsErrors = searchEngines.flatMap(engine =>
+      validateSearchParams(resolveSearchParams(engine.searchParams), engine.name).errors
+    );
+    if (searchParamsErrors.length > 0) {
+      setErrorMessage(`搜索参数错误: ${searchParamsErrors.join(', ')}`);
+      return;
+    }
+
+    const singleQuery = queryConfig.singleQuery.trim();
+    const queries = singleQuery ? [singleQuery] : parseBatchQueries(queryConfig.batchQueries);
+    const runQueryMeta = Object.fromEntries(
+      queries.filter(query => queryMeta[query]).map(query => [query, queryMeta[query]])
+    );
+
+    // 未指定种子时为本次评测随机生成，种子随检查点保存，恢复评测时顺序不变
+    const runConfig: EvaluationConfig = {
+      ...evaluationConfig,
+      biasControls: {
+        ...queryConfig.biasControls,
+        seed: queryConfig.biasSeed.trim() ? Number(queryConfig.biasSeed) : generateSeed()
+      },
+      queryMeta: Object.keys(runQueryMeta).length > 0 ? runQueryMeta : undefined
+    };
+
     // 验证API配置
-    const configValidation = validateEvaluationConfig(evaluationConfig);
+    const configValidation = validateEvaluationConfig(runConfig);
     if (!configValidation.isValid) {
       setErrorMessage(`配置错误: ${configValidation.errors.join(', ')}`);
       return;
     }
 
-    setErrorMessage('');
-    setIsEvaluating(true);
-    setEvaluationResults([]);
+    // 更新维度的提示词
+    const updatedDimensions = dimensions.map(dim => ({
+      ...dim,
+      prompt: promptTemplates[activeScoringSystem.key]?.[dim.name] || `请从${dim.name}角度评价搜索结果的质量`
+    }));
+    onRunStart?.({ config: stripApiKeys(runConfig), dimensions: updatedDimensions });
+
+    // 两两对比不保存检查点
+    if (queryConfig.evaluationMode === 'pairwise') {
+      await executeEvaluation(signal => runPairwiseEvaluation(
+        queries,
+        searchEngines,
+        updatedDimensions,
+        runConfig,
+        queryConfig.evaluationRounds,
+        onEvaluationProgress,
+        onSearchResult,
+        onSseMessage,
+        signal
+      ), setPairwiseVerdicts, '次对比判定', undefined, (verdicts, status) => saveRun({
+        mode: 'pairwise',
+        status,
+        queries,
+        searchEngines,
+        dimensions: updatedDimensions,
+        config: runConfig,
+        rounds: queryConfig.evaluationRounds,
+        results: [],
+        pairwiseVerdicts: verdicts
+      }));
+      return;
+    }
 
+    // 新评测覆盖之前未完成的评测；检查点不可用时照常评测，只是无法断点续评
+    let checkpoint: RunCheckpoint | undefined;
     try {
-      // 更新API配置的评分制式
-      const updatedApiConfig = {
-        ...apiConfig,
-        scoringSystem: queryConfig.scoringSystem
-      };
-
-      // 更新维度的提示词
-      const updatedDimensions = dimensions.map(dim => ({
-        ...dim,
-        prompt: promptTemplates[queryConfig.scoringSystem][dim.name] || `请从${dim.name}角度评价搜索结果的质量`
+      await clearCheckpoints();
+      checkpoint = await createCheckpoint({
+        queries,
+        searchEngines,
+        dimensions: updatedDimensions,
+        config: runConfig,
+        rounds: queryConfig.evaluationRounds
+      });
+    } catch (error) {
+      console.warn('创建评测检查点失败:', error);
+    }
+
+    await executeEvaluation(signal => singleQuery
+      // 单条查询评测
+      ? runOptimizedSingleEvaluation(
+        singleQuery,
+        searchEngines,
+        updatedDimensions,
+        runConfig,
+        queryConfig.evaluationRounds,
+        onEvaluationProgress,
+        onSearchResult,
+        onSseMessage,
+        signal,
+        checkpoint
+      )
+      // 批量查询评测
+      : runOptimizedBatchEvaluation(
+        queries,
+        searchEngines,
+        updatedDimensions,
+        runConfig,
+        queryConfig.evaluationRounds,
+        onEvaluationProgress,
+        onSearchResult,
+        onSseMessage,
+        signal,
+        checkpoint
+      ), setEvaluationResults, '条评测结果', checkpoint, (results, status) => saveRun({
+        runId: checkpoint?.runId,
+        mode: 'absolute',
+        status,
+        queries,
+        searchEngines,
+        dimensions: updatedDimensions,
+        config: runConfig,
+        rounds: queryConfig.evaluationRounds,
+        results,
+        pairwiseVerdicts: []
       }));
+  };
 
-      let results: EvaluationResult[];
+  /**
+   * 继续未完成的评测：跳过已完成的评分单元并复用已缓存的搜索结果
+   */
+  const resumeEvaluation = async () => {
+    if (!pendingCheckpoint) return;
+    const { run } = pendingCheckpoint;
+
+    // 检查点不保存API密钥，使用当前配置中的密钥
+    const resumeConfig: EvaluationConfig = {
+      ...run.config,
+      modelApiKey: apiConfig.apiKey,
+      judges: run.config.judges?.map(judge => ({
+        ...judge,
+        apiKey: apiConfig.judges.find(item => item.id === judge.id)?.apiKey
+      }))
+    };
+    const configValidation = validateEvaluationConfig(resumeConfig);
+    if (!configValidation.isValid) {
+      setErrorMessage(`配置错误: ${configValidation.errors.join(', ')}`);
+      return;
+    }
+
+    let checkpoint: RunCheckpoint;
+    try {
+      checkpoint = await loadCheckpoint(run.runId);
+    } catch (error) {
+      setErrorMessage(`读取评测检查点失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      return;
+    }
+
+    onRunStart?.({ config: run.config, dimensions: run.dimensions });
+
+    // 恢复评测时同步查询配置，便于对照
+    setQueryConfig({
+      ...queryConfig,
+      singleQuery: '',
+      batchQueries: run.queries.join('\n'),
+      evaluationRounds: run.rounds
+    });
+
+    await executeEvaluation(signal => runOptimizedBatchEvaluation(
+      run.queries,
+      run.searchEngines,
+      run.dimensions,
+      resumeConfig,
+      run.rounds,
+      onEvaluationProgress,
+      onSearchResult,
+      onSseMessage,
+      signal,
+      checkpoint
+    ), setEvaluationResults, '条评测结果', checkpoint, (results, status) => saveRun({
+      // 沿用检查点ID，覆盖取消时保存的历史记录
+      runId: run.runId,
+      mode: 'absolute',
+      status,
+      queries: run.queries,
+      searchEngines: run.searchEngines,
+      dimensions: run.dimensions,
+      config: resumeConfig,
+      rounds: run.rounds,
+      results,
+      pairwiseVerdicts: []
+    }));
+  };
 
+  /**
+   * 放弃未完成的评测
+   */
+  const discardPendingCheckpoint = async () => {
+    if (!pendingCheckpoint) return;
+    try {
+      await deleteCheckpoint(pendingCheckpoint.run.runId);
+    } catch (error) {
+      console.warn('删除评测检查点失败:', error);
+    }
+    setPendingCheckpoint(null);
+  };
+
+  /**
+   * 执行评测并处理取消、检查点清理等收尾工作
+   * @param evaluate 评测执行函数
+   * @param applyResults 保存评测结果的函数
+   * @param resultUnit 取消提示中结果的计数单位
+   * @param checkpoint 本次评测的检查点
+   * @param saveHistory 保存评测历史的函数（有结果时调用，保存失败不影响本次评测）
+   */
+  const executeEvaluation = async <T,>(
+    evaluate: (signal: AbortSignal) => Promise<T[]>,
+    applyResults: (results: T[]) => void,
+    resultUnit: string,
+    checkpoint?: RunCheckpoint,
+    saveHistory?: (results: T[], status: RunStatus) => Promise<unknown>
+  ) => {
+    setErrorMessage('');
+    setNoticeMessage('');
+    setPendingCheckpoint(null);
+    setIsEvaluating(true);
+    setEvaluationResults([]);
+    setPairwiseVerdicts([]);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
       // 清空之前的结果
       if (clearResults) {
         clearResults();
       }
-      
-      if (queryConfig.singleQuery.trim()) {
-        // 单条查询评测
-        results = await runOptimizedSingleEvaluation(
-          queryConfig.singleQuery.trim(),
-          searchEngines,
-          updatedDimensions,
-          evaluationConfig,
-          queryConfig.evaluationRounds,
-          onEvaluationProgress,
-          onSearchResult,
-          onSseMessage
-        );
-      } else {
-        // 批量查询评测
-        const queries = parseBatchQueries(queryConfig.batchQueries);
-        results = await runOptimizedBatchEvaluation(
-          queries,
-          searchEngines,
-          updatedDimensions,
-          evaluationConfig,
-          queryConfig.evaluationRounds,
-          onEvaluationProgress,
-          onSearchResult,
-          onSseMessage
+
+      const results = await evaluate(abortController.signal);
+
+      applyResults(results);
+      if (saveHistory && results.length > 0) {
+        await saveHistory(results, abortController.signal.aborted ? 'cancelled' : 'completed')
+          .catch(error => console.warn('保存评测历史失败:', error));
+      }
+      if (abortController.signal.aborted) {
+        setNoticeMessage(
+          `评测已取消，已保留 ${results.length} ${resultUnit}${checkpoint ? '，进度已保存，可稍后继续评测' : ''}`
         );
+      } else if (checkpoint) {
+        // 评测完成后不再需要检查点
+        await deleteCheckpoint(checkpoint.runId).catch(error => console.warn('删除评测检查点失败:', error));
       }
-
-      setEvaluationResults(results);
     } catch (error) {
       console.error('评测过程中出错:', error);
       setErrorMessage(`评测失败: ${error instanceof Error ? error.message : '未知错误'}`);
     } finally {
+      abortControllerRef.current = null;
       setIsEvaluating(false);
+      refreshPendingCheckpoint();
     }
   };
 
+  /**
+   * 导入查询集文件（CSV / TSV / JSONL），查询填入批量查询，元数据随评测结果保存
+   */
+  const importQuerySet = async (file: File) => {
+    let parsed: ReturnType<typeof parseQuerySet>;
+    try {
+      const text = await file.text();
+      parsed = parseQuerySet(text, detectQuerySetFormat(file.name, text));
+    } catch (error) {
+      // 文件读取失败（如选择后文件被移动或删除）
+      setErrorMessage(`导入查询集失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      return;
+    }
+    if (!parsed.ok) {
+      setErrorMessage(`导入查询集失败: ${parsed.error}`);
+      return;
+    }
+
+    setQueryConfig({
+      ...queryConfig,
+      singleQuery: '',
+      batchQueries: parsed.value.map(item => item.query).join('\n')
+    });
+    setQueryMeta(buildQueryMetaMap(parsed.value));
+    setErrorMessage('');
+    setNoticeMessage(
+      `已导入 ${parsed.value.length} 条查询` +
+      (parsed.duplicates.length > 0 ? `，忽略 ${parsed.duplicates.length} 条重复查询` : '')
+    );
+  };
+
+  /**
+   * 停止评测
+   */
+  const stopEvaluation = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
     <div className="p-4 sm:p-6 space-y-4 sm:space-y-6">
       {/* 查询输入区 */}
@@ -224,15 +558,47 @@ export default function ConfigPanel({
         <h2 className="text-base sm:text-lg font-semibold text-gray-900">查询配置</h2>
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            批量查询 (每行一个)
-          </label>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">
+              批量查询 (每行一个)
+            </label>
+            <button
+              onClick={() => queryFileInputRef.current?.click()}
+              disabled={isEvaluating}
+              className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              title="支持 CSV / TSV / JSONL，列名：query、category、tags、time_sensitivity、weight、notes"
+            >
+              导入查询集
+            </button>
+            <input
+              ref={queryFileInputRef}
+              type="file"
+              accept=".csv,.tsv,.jsonl,.ndjson,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importQuerySet(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
           <textarea
             value={queryConfig.batchQueries}
             onChange={(e) => setQueryConfig({...queryConfig, batchQueries: e.target.value})}
             className="w-full px-2 sm:px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 h-20 sm:h-24 text-sm sm:text-base"
             placeholder="查询1\n查询2\n查询3"
           />
+          {Object.keys(queryMeta).length > 0 && (
+            <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+              <span>已载入 {Object.keys(queryMeta).length} 条查询的分类、标签与权重，按查询内容匹配</span>
+              <button
+                onClick={() => setQueryMeta({})}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                清除
+              </button>
+            </div>
+          )}
         </div>
 
         {/* 评测配置 */}
@@ -258,15 +624,136 @@ export default function ConfigPanel({
               评分制式
             </label>
             <select
-              value={queryConfig.scoringSystem}
-              onChange={(e) => setQueryConfig({...queryConfig, scoringSystem: e.target.value as 'binary' | 'fivePoint'})}
+              value={activeScoringSystem.key}
+              onChange={(e) => setQueryConfig({...queryConfig, scoringSystemKey: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {scoringSystems.map(system => (
+                <option key={system.key} value={system.key}>{system.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            评测模式
+          </label>
+          <select
+            value={queryConfig.evaluationMode}
+            onChange={(e) => setQueryConfig({...queryConfig, evaluationMode: e.target.value as EvaluationMode})}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="absolute">绝对评分</option>
+            <option value="pairwise">两两对比（Bradley–Terry 评级）</option>
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              评判模式
+            </label>
+            <select
+              value={queryConfig.judgmentMode}
+              onChange={(e) => setQueryConfig({...queryConfig, judgmentMode: e.target.value as JudgmentMode})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="holistic">整体评分</option>
+              <option value="perResult">逐条判定 + 阶梯计分</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              格式错误重试
+            </label>
+            <select
+              value={queryConfig.maxJudgeRetries}
+              onChange={(e) => setQueryConfig({...queryConfig, maxJudgeRetries: parseInt(e.target.value)})}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <option value="binary">二分制 (0-2)</option>
-              <option value="fivePoint">五分制 (1-5)</option>
+              <option value={0}>不重试</option>
+              <option value={1}>1次</option>
+              <option value={2}>2次</option>
+              <option value={3}>3次</option>
             </select>
           </div>
         </div>
+
+        {/* 偏差控制 */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            评委偏差控制
+          </label>
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={queryConfig.biasControls.shuffleResults}
+                onChange={(e) => setQueryConfig({
+                  ...queryConfig,
+                  biasControls: { ...queryConfig.biasControls, shuffleResults: e.target.checked }
+                })}
+              />
+              <span>打乱结果顺序</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={queryConfig.biasControls.anonymizeEngines}
+                onChange={(e) => setQueryConfig({
+                  ...queryConfig,
+                  biasControls: { ...queryConfig.biasControls, anonymizeEngines: e.target.checked }
+                })}
+              />
+              <span>隐藏引擎身份（还原跳转链接、去除链接参数与引擎名称）</span>
+            </label>
+            {queryConfig.evaluationMode === 'pairwise' && (
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={queryConfig.biasControls.swapPairwiseOrder}
+                  onChange={(e) => setQueryConfig({
+                    ...queryConfig,
+                    biasControls: { ...queryConfig.biasControls, swapPairwiseOrder: e.target.checked }
+                  })}
+                />
+                <span>交换A/B顺序各评一次，只采纳一致的判定</span>
+              </label>
+            )}
+            {queryConfig.biasControls.shuffleResults && (
+              <input
+                type="text"
+                inputMode="numeric"
+                value={queryConfig.biasSeed}
+                onChange={(e) => setQueryConfig({...queryConfig, biasSeed: e.target.value})}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="随机种子（留空则每次评测随机生成）"
+              />
+            )}
+          </div>
+        </div>
+
+        {apiConfig.judges.length > 1 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              多评委合并方式（{apiConfig.judges.length} 个评委）
+            </label>
+            <select
+              value={queryConfig.ensembleMethod}
+              onChange={(e) => setQueryConfig({...queryConfig, ensembleMethod: e.target.value as EnsembleMethod})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {ENSEMBLE_METHODS.map(method => (
+                <option key={method.key} value={method.key}>{method.label}</option>
+              ))}
+            </select>
+            {queryConfig.judgmentMode === 'perResult' && (
+              <p className="text-xs text-gray-500 mt-1">逐条判定模式下每条结果取多数评委的等级，再按阶梯计分表换算得分</p>
+            )}
+          </div>
+        )}
       </div>
 
 
@@ -289,6 +776,40 @@ export default function ConfigPanel({
 
 
 
+      {/* 未完成评测提示 */}
+      {pendingCheckpoint && !isEvaluating && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-3 space-y-2">
+          <p className="text-sm text-blue-800">
+            发现未完成的评测（{pendingCheckpoint.run.queries.length} 条查询，
+            已完成 {pendingCheckpoint.completedUnits}/{pendingCheckpoint.totalUnits} 个评分单元，
+            开始于 {new Date(pendingCheckpoint.run.createdAt).toLocaleString()}）
+          </p>
+          <p className="text-xs text-blue-600">开始新评测将覆盖此进度</p>
+          <div className="flex space-x-2">
+            <button
+              onClick={resumeEvaluation}
+              disabled={!apiConfig.apiKey}
+              className="px-3 py-1 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-md"
+            >
+              继续评测
+            </button>
+            <button
+              onClick={discardPendingCheckpoint}
+              className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-md"
+            >
+              放弃
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 提示信息显示 */}
+      {noticeMessage && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
+          <p className="text-sm text-yellow-800">{noticeMessage}</p>
+        </div>
+      )}
+
       {/* 提示词编辑区 */}
       <div className="space-y-3 sm:space-y-4">
         <PromptEditor
@@ -296,7 +817,10 @@ export default function ConfigPanel({
           setDimensions={setDimensions}
           promptTemplates={promptTemplates}
           setPromptTemplates={setPromptTemplates}
-          scoringSystem={queryConfig.scoringSystem}
+          scoringSystem={activeScoringSystem.key}
+          scoringSystems={scoringSystems}
+          setScoringSystems={setScoringSystems}
+          judgmentMode={queryConfig.judgmentMode}
         />
       </div>
 
@@ -309,6 +833,14 @@ export default function ConfigPanel({
         >
           {isEvaluating ? '评测中...' : '开始评测'}
         </button>
+        {isEvaluating && (
+          <button
+            onClick={stopEvaluation}
+            className="w-full mt-2 bg-white text-red-600 border border-red-300 py-2 sm:py-3 px-3 sm:px-4 rounded-md hover:bg-red-50 font-medium text-sm sm:text-base"
+          >
+            停止评测
+          </button>
+        )}
         {(!apiConfig.apiUrl || !apiConfig.apiKey || !apiConfig.modelKey || !apiConfig.websearchUrl) && (
           <p className="text-sm text-gray-500 mt-2 text-center">
             请在系统设置中完善API配置后开始评测
@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  deleteEnvironmentProfile,
+  exportEnvironmentProfiles,
+  getLastUsedProfile,
+  isSameEnvironment,
+  listEnvironmentProfiles,
+  markEnvironmentUsed,
+  parseEnvironmentProfiles,
+  saveEnvironmentProfile,
+  validateEnvironmentProfile,
+  type EnvironmentProfile,
+  type EnvironmentSettings
+} from '../services/environmentService';
+
+interface EnvironmentSwitcherProps {
+  settings: EnvironmentSettings;
+  onApply: (settings: EnvironmentSettings) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 环境切换组件
+ * 在顶部标题栏切换已保存的环境配置，并提供保存、删除与 JSON 导入导出（不含 API 密钥）
+ */
+export default function EnvironmentSwitcher({
+  settings,
+  onApply,
+  disabled = false
+}: EnvironmentSwitcherProps) {
+  // 已保存的环境配置
+  const [profiles, setProfiles] = useState<EnvironmentProfile[]>([]);
+  // 当前使用的环境ID，为空表示未使用已保存的环境
+  const [activeId, setActiveId] = useState('');
+  // 管理菜单展开状态
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  // 保存时使用的环境名称
+  const [profileName, setProfileName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeProfile = profiles.find(profile => profile.id === activeId) || null;
+  const isModified = activeProfile !== null && !isSameEnvironment(settings, activeProfile);
+
+  // 读取已保存的环境，并恢复最近使用的环境
+  useEffect(() => {
+    listEnvironmentProfiles()
+      .then(savedProfiles => {
+        setProfiles(savedProfiles);
+        const lastUsed = getLastUsedProfile(savedProfiles);
+        if (lastUsed) {
+          setActiveId(lastUsed.id);
+          onApply(lastUsed);
+        }
+      })
+      .catch(error => console.warn('读取环境配置失败:', error));
+  }, [onApply]);
+
+  /**
+   * 重新读取环境列表
+   */
+  const refreshProfiles = async () => {
+    const savedProfiles = await listEnvironmentProfiles();
+    setProfiles(savedProfiles);
+    return savedProfiles;
+  };
+
+  /**
+   * 切换到指定环境
+   */
+  const switchProfile = (id: string) => {
+    const profile = profiles.find(item => item.id === id);
+    setActiveId(id);
+    if (!profile) return;
+
+    onApply(profile);
+    markEnvironmentUsed(profile)
+      .then(updated => setProfiles(profiles.map(item => item.id === updated.id ? updated : item)))
+      .catch(error => console.warn('保存环境使用记录失败:', error));
+  };
+
+  /**
+   * 将当前设置保存为环境（同名环境会被覆盖）
+   */
+  const saveCurrentSettings = async () => {
+    const name = profileName.trim();
+    const validation = validateEnvironmentProfile({ name, ...settings });
+    if (!validation.isValid) {
+      alert(validation.errors.join('\n'));
+      return;
+    }
+
+    try {
+      const saved = await markEnvironmentUsed(await saveEnvironmentProfile(name, settings, profiles));
+      await refreshProfiles();
+      setActiveId(saved.id);
+      setProfileName('');
+      setIsMenuOpen(false);
+    } catch (error) {
+      alert(`保存环境失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
+  /**
+   * 删除当前环境（不影响当前设置）
+   */
+  const deleteActiveProfile = async () => {
+    if (!activeProfile || !confirm(`确定要删除环境「${activeProfile.name}」吗？`)) return;
+
+    try {
+      await deleteEnvironmentProfile(activeProfile.id);
+      await refreshProfiles();
+      setActiveId('');
+    } catch (error) {
+      alert(`删除环境失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
+  /**
+   * 下载全部环境配置
+   */
+  const downloadProfiles = () => {
+    const blob = new Blob([exportEnvironmentProfiles(profiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'environments.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * 从 JSON 文件导入环境配置（同名环境会被覆盖）
+   */
+  const importProfiles = async (file: File) => {
+    try {
+      const parsed = parseEnvironmentProfiles(await file.text());
+      if (!parsed.ok) {
+        alert(`导入失败: ${parsed.error}`);
+        return;
+      }
+
+      let savedProfiles = profiles;
+      for (const item of parsed.value) {
+        const { name, ...itemSettings } = item;
+        const saved = await saveEnvironmentProfile(name, itemSettings, savedProfiles);
+        savedProfiles = [...savedProfiles.filter(profile => profile.id !== saved.id), saved];
+      }
+      await refreshProfiles();
+      setIsMenuOpen(false);
+    } catch (error) {
+      alert(`导入失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center space-x-1">
+      <select
+        value={activeId}
+        onChange={(e) => switchProfile(e.target.value)}
+        disabled={disabled || profiles.length === 0}
+        className="px-2 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-400"
+        title="切换环境（接口地址、评分模型与搜索引擎列表）"
+      >
+        <option value="">{profiles.length > 0 ? '未选择环境' : '没有保存的环境'}</option>
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}{profile.id === activeId && isModified ? '（已修改）' : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => {
+          setProfileName(activeProfile?.name || '');
+          setIsMenuOpen(!isMenuOpen);
+        }}
+        disabled={disabled}
+        className="px-2 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+      >
+        环境
+      </button>
+
+      {isMenuOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 p-3 bg-white border border-gray-200 rounded-md shadow-lg z-20 space-y-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">将当前设置保存为环境</label>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="环境名称，如 预发环境"
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={saveCurrentSettings}
+                disabled={!profileName.trim()}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+              >
+                保存
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">包含接口地址、评分模型、评委与搜索引擎列表，不保存 API 密钥；同名环境会被覆盖</p>
+          </div>
+
+          <div className="flex items-center justify-between pt-2 border-t border-gray-100">
+            <button
+              onClick={deleteActiveProfile}
+              disabled={!activeProfile}
+              className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-300"
+            >
+              删除当前环境
+            </button>
+            <div className="space-x-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded hover:bg-gray-200"
+              >
+                导入
+              </button>
+              <button
+                onClick={downloadProfiles}
+                disabled={profiles.length === 0}
+                className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded hover:bg-gray-200 disabled:text-gray-400"
+              >
+                导出
+              </button>
+            </div>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importProfiles(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { buildMarkdownReport, exportResultsCsv, exportResultsJsonl } from '../services/exportService';
+import { buildHtmlReport } from '../services/htmlReportService';
+import type { CheckpointConfig } from '../services/checkpointService';
+import type { Dimension, EvaluationResult, SearchEngine } from '../services/evaluationService';
+import type { ScoringSystem } from '../services/scoringService';
+
+interface ExportMenuProps {
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  evaluationResults: EvaluationResult[];
+  scoringSystem: ScoringSystem;
+  runConfig?: CheckpointConfig; // 评测配置，缺省时无法生成 HTML 报告
+  createdAt?: string;
+}
+
+/**
+ * 触发浏览器下载文本文件
+ */
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 生成带时间的文件名前缀，如 z-eval-20250101-0930
+ */
+const getFilePrefix = () => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `z-eval-${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}`;
+};
+
+/**
+ * 导出菜单组件
+ * 将评测结果导出为 CSV / JSONL 明细，或生成 Markdown 汇总报告与可离线打开的 HTML 报告
+ */
+export default function ExportMenu({
+  searchEngines,
+  dimensions,
+  evaluationResults,
+  scoringSystem,
+  runConfig,
+  createdAt
+}: ExportMenuProps) {
+  // 菜单展开状态
+  const [isOpen, setIsOpen] = useState(false);
+
+  const options = [
+    {
+      key: 'csv',
+      label: '明细 CSV',
+      run: () => downloadFile(exportResultsCsv(evaluationResults), `${getFilePrefix()}.csv`, 'text/csv;charset=utf-8')
+    },
+    {
+      key: 'jsonl',
+      label: '明细 JSONL',
+      run: () => downloadFile(exportResultsJsonl(evaluationResults), `${getFilePrefix()}.jsonl`, 'application/x-ndjson')
+    },
+    {
+      key: 'markdown',
+      label: 'Markdown 报告',
+      run: () => downloadFile(
+        buildMarkdownReport({ results: evaluationResults, searchEngines, dimensions, scoringSystem }),
+        `${getFilePrefix()}-report.md`,
+        'text/markdown;charset=utf-8'
+      )
+    },
+    ...(runConfig ? [{
+      key: 'html',
+      label: 'HTML 报告',
+      run: () => downloadFile(
+        buildHtmlReport({ createdAt, config: runConfig, searchEngines, dimensions, results: evaluationResults }),
+        `${getFilePrefix()}-report.html`,
+        'text/html;charset=utf-8'
+      )
+    }] : [])
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={evaluationResults.length === 0}
+        className="px-2 py-1 text-sm text-gray-600 rounded-md hover:text-gray-800 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+      >
+        导出
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 bottom-full mb-1 w-36 bg-white border border-gray-200 rounded-md shadow-lg z-10">
+          {options.map(option => (
+            <button
+              key={option.key}
+              onClick={() => {
+                option.run();
+                setIsOpen(false);
+              }}
+              className="block w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
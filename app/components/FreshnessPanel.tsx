@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { FRESHNESS_BUCKETS, summarizeFreshness, type DatedResultRecord } from '../services/freshnessService';
+
+interface SearchEngine {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface FreshnessPanelProps {
+  searchEngines: SearchEngine[];
+  evaluationResults: DatedResultRecord[];
+}
+
+// 默认截断位置
+const DEFAULT_K = 10;
+
+// 各区间的颜色（从新到旧）
+const BUCKET_COLORS = ['bg-green-600', 'bg-green-400', 'bg-yellow-400', 'bg-orange-400', 'bg-red-400'];
+
+/**
+ * 格式化天数
+ */
+const formatAge = (days: number | null) => {
+  if (days === null) return '-';
+  if (days < 1) return '不足1天';
+  if (days < 365) return `${Math.round(days)} 天`;
+  return `${(days / 365).toFixed(1)} 年`;
+};
+
+/**
+ * 结果时效分布组件
+ * 按发布时间统计各引擎前k条结果距评测时间的天数分布，作为时效性的规则参考
+ */
+export default function FreshnessPanel({
+  searchEngines,
+  evaluationResults
+}: FreshnessPanelProps) {
+  // 截断位置
+  const [k, setK] = useState(DEFAULT_K);
+
+  const freshness = useMemo(
+    () => summarizeFreshness(evaluationResults, searchEngines, k),
+    [evaluationResults, searchEngines, k]
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3 sm:mb-4">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">结果时效分布</h3>
+        <label className="flex items-center space-x-2 text-xs sm:text-sm text-gray-600">
+          <span>前 k 条</span>
+          <input
+            type="number"
+            min="1"
+            max="50"
+            value={k}
+            onChange={(e) => setK(Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-3 text-xs text-gray-600">
+        {FRESHNESS_BUCKETS.map((bucket, index) => (
+          <span key={bucket.key} className="flex items-center space-x-1">
+            <span className={`inline-block w-3 h-3 rounded ${BUCKET_COLORS[index]}`}></span>
+            <span>{bucket.label}</span>
+          </span>
+        ))}
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-3 h-3 rounded bg-gray-300"></span>
+          <span>无发布时间</span>
+        </span>
+      </div>
+
+      <div className="space-y-2 sm:space-y-3">
+        {freshness.map(item => (
+          <div key={item.engineId} className="flex items-center space-x-3 sm:space-x-4">
+            <div className="w-16 sm:w-20 text-xs sm:text-sm text-gray-600 truncate">{item.engineName}</div>
+            <div className="flex-1 flex h-3 rounded-full overflow-hidden bg-gray-200">
+              {item.totalCount > 0 && [
+                ...FRESHNESS_BUCKETS.map((bucket, index) => ({
+                  key: bucket.key,
+                  label: bucket.label,
+                  count: item.buckets[bucket.key],
+                  color: BUCKET_COLORS[index]
+                })),
+                { key: 'unknown', label: '无发布时间', count: item.buckets.unknown, color: 'bg-gray-300' }
+              ].filter(segment => segment.count > 0).map(segment => (
+                <div
+                  key={segment.key}
+                  className={segment.color}
+                  style={{ width: `${(segment.count / item.totalCount) * 100}%` }}
+                  title={`${segment.label}: ${segment.count} 条`}
+                ></div>
+              ))}
+            </div>
+            <div className="w-32 sm:w-40 text-xs text-gray-600 text-right">
+              中位 {formatAge(item.medianAgeDays)}（{item.datedCount}/{item.totalCount} 有日期）
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { analyzeOverlap, type SearchResultRecord } from '../services/overlapService';
+
+interface SearchEngine {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface OverlapPanelProps {
+  searchEngines: SearchEngine[];
+  evaluationResults: SearchResultRecord[];
+}
+
+// 矩阵范围：全部查询平均或单个查询
+const ALL_QUERIES_KEY = '__all__';
+
+/**
+ * 重合度数值的背景色（重合越高颜色越深）
+ */
+const overlapColor = (value: number) => {
+  if (value >= 0.6) return 'bg-blue-200';
+  if (value >= 0.3) return 'bg-blue-100';
+  if (value > 0) return 'bg-blue-50';
+  return '';
+};
+
+/**
+ * 结果重合度分析组件
+ * 展示引擎两两之间的链接 Jaccard、RBO 与域名重合度矩阵，并可下钻查看共同与独有的链接
+ */
+export default function OverlapPanel({
+  searchEngines,
+  evaluationResults
+}: OverlapPanelProps) {
+  // 矩阵范围
+  const [scope, setScope] = useState(ALL_QUERIES_KEY);
+  // 下钻的引擎对
+  const [selectedPair, setSelectedPair] = useState<{ engineAId: number; engineBId: number } | null>(null);
+
+  const pairs = useMemo(() => analyzeOverlap(evaluationResults, searchEngines), [evaluationResults, searchEngines]);
+  const queries = useMemo(() => Array.from(new Set(evaluationResults.map(result => result.query))), [evaluationResults]);
+
+  /**
+   * 获取两个引擎在当前范围下的重合指标
+   */
+  const getCell = (engineAId: number, engineBId: number) => {
+    const pair = pairs.find(item =>
+      (item.engineAId === engineAId && item.engineBId === engineBId)
+      || (item.engineAId === engineBId && item.engineBId === engineAId)
+    );
+    if (!pair) return null;
+    if (scope === ALL_QUERIES_KEY) {
+      return pair.perQuery.length > 0
+        ? { jaccard: pair.meanJaccard, rbo: pair.meanRbo, domainJaccard: pair.meanDomainJaccard, queryCount: pair.perQuery.length }
+        : null;
+    }
+    const item = pair.perQuery.find(entry => entry.query === scope);
+    return item ? { ...item, queryCount: 1 } : null;
+  };
+
+  const activePair = selectedPair
+    ? pairs.find(item => item.engineAId === selectedPair.engineAId && item.engineBId === selectedPair.engineBId)
+    : undefined;
+  const drillDown = activePair && scope !== ALL_QUERIES_KEY
+    ? activePair.perQuery.find(item => item.query === scope)
+    : undefined;
+
+  if (searchEngines.length < 2) {
+    return <div className="text-sm text-gray-500">重合度分析需要至少 2 个搜索引擎</div>;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">结果重合度</h3>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-xs sm:text-sm max-w-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value={ALL_QUERIES_KEY}>全部查询（平均）</option>
+          {queries.map(query => (
+            <option key={query} value={query}>{query}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Jaccard 为链接集合的交并比；RBO 为排序偏置重合度（p=0.9，越靠前的位置权重越高）；域名为域名集合的交并比。
+        链接比较时忽略协议、www 前缀与锚点。点击单元格查看共同与独有的链接。
+      </p>
+
+      {/* 重合度矩阵 */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs sm:text-sm border border-gray-200">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="p-2 border border-gray-200 text-left font-medium text-gray-500">引擎</th>
+              {searchEngines.map(engine => (
+                <th key={engine.id} className="p-2 border border-gray-200 text-left font-medium text-gray-700">
+                  {engine.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {searchEngines.map((rowEngine, rowIndex) => (
+              <tr key={rowEngine.id}>
+                <th className="p-2 border border-gray-200 text-left font-medium text-gray-700 bg-gray-50">
+                  {rowEngine.name}
+                </th>
+                {searchEngines.map((columnEngine, columnIndex) => {
+                  if (rowEngine.id === columnEngine.id) {
+                    return <td key={columnEngine.id} className="p-2 border border-gray-200 bg-gray-100 text-center text-gray-400">—</td>;
+                  }
+
+                  const cell = getCell(rowEngine.id, columnEngine.id);
+                  if (!cell) {
+                    return <td key={columnEngine.id} className="p-2 border border-gray-200 text-gray-400">无数据</td>;
+                  }
+
+                  // 以引擎列表中的先后顺序确定引擎对，保证对称单元格指向同一对
+                  const pairKey = rowIndex < columnIndex
+                    ? { engineAId: rowEngine.id, engineBId: columnEngine.id }
+                    : { engineAId: columnEngine.id, engineBId: rowEngine.id };
+                  const isSelected = selectedPair?.engineAId === pairKey.engineAId && selectedPair?.engineBId === pairKey.engineBId;
+
+                  return (
+                    <td
+                      key={columnEngine.id}
+                      onClick={() => setSelectedPair(pairKey)}
+                      className={`p-2 border border-gray-200 cursor-pointer hover:ring-2 hover:ring-blue-300 ${overlapColor(cell.jaccard)} ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+                    >
+                      <div className="font-medium text-gray-900">Jaccard {cell.jaccard.toFixed(2)}</div>
+                      <div className="text-gray-600">RBO {cell.rbo.toFixed(2)}</div>
+                      <div className="text-gray-600">域名 {cell.domainJaccard.toFixed(2)}</div>
+                      {scope === ALL_QUERIES_KEY && <div className="text-gray-400">{cell.queryCount} 条查询</div>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* 引擎对下钻 */}
+      {activePair && scope === ALL_QUERIES_KEY && (
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3">
+            {activePair.engineAName} vs {activePair.engineBName} 各查询重合度
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs sm:text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">查询</th>
+                  <th className="py-2 pr-4 font-medium">Jaccard</th>
+                  <th className="py-2 pr-4 font-medium">RBO</th>
+                  <th className="py-2 pr-4 font-medium">域名</th>
+                  <th className="py-2 pr-4 font-medium">共同 / 独有A / 独有B</th>
+                </tr>
+              </thead>
+              <tbody>
+                {activePair.perQuery.map(item => (
+                  <tr
+                    key={item.query}
+                    onClick={() => setScope(item.query)}
+                    className="border-b border-gray-100 cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="py-2 pr-4 text-gray-900 max-w-xs truncate" title={item.query}>{item.query}</td>
+                    <td className="py-2 pr-4 text-gray-700">{item.jaccard.toFixed(2)}</td>
+                    <td className="py-2 pr-4 text-gray-700">{item.rbo.toFixed(2)}</td>
+                    <td className="py-2 pr-4 text-gray-700">{item.domainJaccard.toFixed(2)}</td>
+                    <td className="py-2 pr-4 text-gray-700">
+                      {item.shared.length} / {item.uniqueA.length} / {item.uniqueB.length}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {activePair && drillDown && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 sm:gap-4">
+          {[
+            { title: '共同返回', urls: drillDown.shared, className: 'text-blue-700' },
+            { title: `仅 ${activePair.engineAName}`, urls: drillDown.uniqueA, className: 'text-gray-700' },
+            { title: `仅 ${activePair.engineBName}`, urls: drillDown.uniqueB, className: 'text-gray-700' }
+          ].map(group => (
+            <div key={group.title} className="bg-gray-50 p-3 rounded-lg">
+              <h4 className="font-medium text-gray-900 text-sm mb-2">{group.title}（{group.urls.length}）</h4>
+              {group.urls.length === 0 ? (
+                <div className="text-xs text-gray-400">无</div>
+              ) : (
+                <ul className="space-y-1">
+                  {group.urls.map(url => (
+                    <li key={url} className="text-xs truncate">
+                      <a href={url} target="_blank" rel="noopener noreferrer" className={`hover:underline ${group.className}`} title={url}>
+                        {url}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
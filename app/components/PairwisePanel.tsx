@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { computeRatings, getHeadToHead } from '../services/ratingService';
+import type { PairwiseVerdict } from '../services/evaluationService';
+
+interface SearchEngine {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface Dimension {
+  id: number;
+  name: string;
+  weight: number;
+  enabled: boolean;
+}
+
+interface PairwisePanelProps {
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  pairwiseVerdicts: PairwiseVerdict[];
+}
+
+// 评级对象：全部维度或单个维度
+const ALL_DIMENSIONS_KEY = '__all__';
+
+/**
+ * 两两对比评级组件
+ * 展示 Bradley–Terry 评级（Elo 分制）及置信区间，以及引擎之间的胜-平-负交锋矩阵
+ */
+export default function PairwisePanel({
+  searchEngines,
+  dimensions,
+  pairwiseVerdicts
+}: PairwisePanelProps) {
+  // 当前评级的维度
+  const [target, setTarget] = useState(ALL_DIMENSIONS_KEY);
+  const dimensionName = target === ALL_DIMENSIONS_KEY ? null : target;
+
+  const ratings = useMemo(
+    () => computeRatings(pairwiseVerdicts, searchEngines, dimensionName),
+    [pairwiseVerdicts, searchEngines, dimensionName]
+  );
+
+  const targetVerdicts = pairwiseVerdicts.filter(verdict =>
+    dimensionName === null || verdict.dimensionName === dimensionName
+  );
+  const failedCount = targetVerdicts.filter(verdict => verdict.failure).length;
+  // 交换A/B顺序后判定不一致的对比
+  const inconsistentCount = targetVerdicts.filter(verdict => verdict.consistent === false).length;
+
+  if (searchEngines.length < 2) {
+    return <div className="text-sm text-gray-500">两两对比需要至少 2 个搜索引擎</div>;
+  }
+
+  if (pairwiseVerdicts.length === 0) {
+    return <div className="text-sm text-gray-500">暂无两两对比结果，请在评测配置中选择“两两对比”模式后开始评测</div>;
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">Bradley–Terry 评级</h3>
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value={ALL_DIMENSIONS_KEY}>全部维度</option>
+          {dimensions.filter(dim => dim.enabled).map(dim => (
+            <option key={dim.id} value={dim.name}>{dim.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        评级按 Elo 分制换算（平均 1000 分，相差 400 分约等于 10:1 的胜率比），平局计为双方各半场胜利；
+        括号内为按查询重采样的 95% 置信区间。{failedCount > 0 && `另有 ${failedCount} 次对比判定失败，未计入评级。`}
+        {inconsistentCount > 0 && `${inconsistentCount} 次对比在交换A/B顺序后结论不一致，未计入评级。`}
+      </p>
+
+      {/* 评级排名 */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs sm:text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">排名</th>
+              <th className="py-2 pr-4 font-medium">引擎</th>
+              <th className="py-2 pr-4 font-medium">评级</th>
+              <th className="py-2 pr-4 font-medium">95% 置信区间</th>
+              <th className="py-2 pr-4 font-medium">胜 / 平 / 负</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ratings.map((item, index) => (
+              <tr key={item.engineId} className="border-b border-gray-100">
+                <td className="py-2 pr-4 text-gray-700">{index + 1}</td>
+                <td className="py-2 pr-4 text-gray-900 font-medium">{item.engineName}</td>
+                <td className="py-2 pr-4 text-blue-600 font-medium">{Math.round(item.rating)}</td>
+                <td className="py-2 pr-4 text-gray-700">
+                  [{Math.round(item.ciLower)}, {Math.round(item.ciUpper)}]
+                </td>
+                <td className="py-2 pr-4 text-gray-700">
+                  <span className="text-green-600">{item.wins}</span>
+                  {' / '}
+                  <span className="text-gray-500">{item.ties}</span>
+                  {' / '}
+                  <span className="text-red-600">{item.losses}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* 交锋矩阵 */}
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3">交锋矩阵（行引擎 胜-平-负）</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs sm:text-sm border border-gray-200">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-2 border border-gray-200 text-left font-medium text-gray-500">行 vs 列</th>
+                {searchEngines.map(engine => (
+                  <th key={engine.id} className="p-2 border border-gray-200 text-left font-medium text-gray-700">
+                    {engine.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {searchEngines.map(rowEngine => (
+                <tr key={rowEngine.id}>
+                  <th className="p-2 border border-gray-200 text-left font-medium text-gray-700 bg-gray-50">
+                    {rowEngine.name}
+                  </th>
+                  {searchEngines.map(columnEngine => {
+                    if (rowEngine.id === columnEngine.id) {
+                      return <td key={columnEngine.id} className="p-2 border border-gray-200 bg-gray-100 text-center text-gray-400">—</td>;
+                    }
+
+                    const { wins, ties, losses } = getHeadToHead(pairwiseVerdicts, rowEngine.id, columnEngine.id, dimensionName);
+                    const colorClass = wins > losses ? 'bg-green-50 text-green-800' : losses > wins ? 'bg-red-50 text-red-800' : '';
+
+                    return (
+                      <td key={columnEngine.id} className={`p-2 border border-gray-200 ${colorClass}`}>
+                        {wins + ties + losses === 0 ? (
+                          <span className="text-gray-400">无对比数据</span>
+                        ) : (
+                          `${wins}-${ties}-${losses}`
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
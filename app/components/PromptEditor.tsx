@@ -1,6 +1,12 @@
 'use client';
 
 import { useState } from 'react';
+import {
+  validateScoringSystem,
+  type ScoringLevel,
+  type ScoringSystem,
+  type StepScoringRule
+} from '../services/scoringService';
 
 interface Dimension {
   id: number;
@@ -9,18 +15,8 @@ interface Dimension {
   enabled: boolean;
 }
 
-interface PromptTemplates {
-  binary: Record<string, string>;
-  fivePoint: Record<string, string>;
-  [key: string]: Record<string, string>;
-}
-
-interface ScoringSystem {
-  key: string;
-  label: string;
-  minScore: number;
-  maxScore: number;
-}
+// 提示词模板：评分制式标识 -> 维度名称 -> 提示词
+type PromptTemplates = Record<string, Record<string, string>>;
 
 interface PromptEditorProps {
   dimensions: Dimension[];
@@ -28,6 +24,9 @@ interface PromptEditorProps {
   promptTemplates: PromptTemplates;
   setPromptTemplates: (templates: PromptTemplates) => void;
   scoringSystem: string;
+  scoringSystems: ScoringSystem[];
+  setScoringSystems: (scoringSystems: ScoringSystem[]) => void;
+  judgmentMode?: 'holistic' | 'perResult';
 }
 
 /**
@@ -39,18 +38,19 @@ export default function PromptEditor({
   setDimensions,
   promptTemplates,
   setPromptTemplates,
-  scoringSystem
+  scoringSystem,
+  scoringSystems,
+  setScoringSystems,
+  judgmentMode = 'holistic'
 }: PromptEditorProps) {
   const [activeTab, setActiveTab] = useState<string>('binary');
   const [expandedDimensions, setExpandedDimensions] = useState<Record<string, boolean>>({});
-  const [scoringSystems, setScoringSystems] = useState<ScoringSystem[]>([
-    { key: 'binary', label: '二分制 (0-2分)', minScore: 0, maxScore: 2 },
-    { key: 'fivePoint', label: '五分制 (1-5分)', minScore: 1, maxScore: 5 }
-  ]);
   const [newSystemKey, setNewSystemKey] = useState('');
   const [newSystemLabel, setNewSystemLabel] = useState('');
   const [newSystemMinScore, setNewSystemMinScore] = useState(0);
   const [newSystemMaxScore, setNewSystemMaxScore] = useState(10);
+  const [newSystemStep, setNewSystemStep] = useState(1);
+  const [newSystemLevels, setNewSystemLevels] = useState('');
   const [showAddSystemForm, setShowAddSystemForm] = useState(false);
   const [newDimensionName, setNewDimensionName] = useState('');
   const [showAddDimensionForm, setShowAddDimensionForm] = useState(false);
@@ -132,23 +132,41 @@ export default function PromptEditor({
    * 新增评分制式
    */
   const addScoringSystem = () => {
-    if (!newSystemKey || !newSystemLabel || newSystemMinScore >= newSystemMaxScore) {
-      alert('请填写完整的评分制式信息，并确保最小分数小于最大分数');
+    if (scoringSystems.some(s => s.key === newSystemKey.trim())) {
+      alert('该评分制式标识已存在');
       return;
     }
 
-    if (scoringSystems.some(s => s.key === newSystemKey)) {
-      alert('该评分制式标识已存在');
+    // 档位说明每行一条，格式为"分数:说明"
+    const levels: ScoringLevel[] = newSystemLevels
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        const [score, ...description] = line.split(/[:：]/);
+        return { score: parseFloat(score), description: description.join(':').trim() };
+      });
+
+    if (levels.some(level => !Number.isFinite(level.score) || !level.description)) {
+      alert('档位说明格式错误，请按"分数:说明"每行填写一条');
       return;
     }
 
     const newSystem: ScoringSystem = {
-      key: newSystemKey,
-      label: newSystemLabel,
+      key: newSystemKey.trim(),
+      label: newSystemLabel.trim(),
       minScore: newSystemMinScore,
-      maxScore: newSystemMaxScore
+      maxScore: newSystemMaxScore,
+      step: newSystemStep,
+      levels: levels.length > 0 ? levels : undefined
     };
 
+    const validation = validateScoringSystem(newSystem);
+    if (!validation.isValid) {
+      alert(validation.errors.join('\n'));
+      return;
+    }
+
     setScoringSystems([...scoringSystems, newSystem]);
     
     // 初始化新评分制式的模板
@@ -164,6 +182,8 @@ export default function PromptEditor({
     setNewSystemLabel('');
     setNewSystemMinScore(0);
     setNewSystemMaxScore(10);
+    setNewSystemStep(1);
+    setNewSystemLevels('');
     setShowAddSystemForm(false);
   };
 
@@ -209,11 +229,47 @@ export default function PromptEditor({
 
 
 
+  /**
+   * 更新评分制式的阶梯计分表
+   */
+  const updateStepTable = (systemKey: string, update: (stepTable: StepScoringRule[]) => StepScoringRule[]) => {
+    setScoringSystems(scoringSystems.map(system => 
+      system.key === systemKey ? { ...system, stepTable: update(system.stepTable || []) } : system
+    ));
+  };
+
+  /**
+   * 更新阶梯计分规则
+   */
+  const updateStepRule = (systemKey: string, index: number, field: keyof StepScoringRule, value: number) => {
+    updateStepTable(systemKey, stepTable => stepTable.map((rule, i) => 
+      i === index ? { ...rule, [field]: value } : rule
+    ));
+  };
+
+  /**
+   * 新增阶梯计分规则
+   */
+  const addStepRule = (systemKey: string) => {
+    const system = scoringSystems.find(s => s.key === systemKey);
+    updateStepTable(systemKey, stepTable => [...stepTable, { minCount: 0, score: system?.minScore ?? 0 }]);
+  };
+
+  /**
+   * 删除阶梯计分规则
+   */
+  const deleteStepRule = (systemKey: string, index: number) => {
+    updateStepTable(systemKey, stepTable => stepTable.filter((_, i) => i !== index));
+  };
+
+  const activeSystem = scoringSystems.find(system => system.key === activeTab);
+  const activeStepTable = activeSystem?.stepTable || [];
+
   /**
    * 获取当前活跃的提示词模板
    */
   const getCurrentTemplates = () => {
-    return promptTemplates[activeTab];
+    return promptTemplates[activeTab] || {};
   };
 
   /**
@@ -287,6 +343,26 @@ export default function PromptEditor({
                 className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-green-500"
               />
             </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">分数粒度</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={newSystemStep}
+                onChange={(e) => setNewSystemStep(parseFloat(e.target.value))}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-green-500"
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">档位说明（可选）</label>
+              <textarea
+                value={newSystemLevels}
+                onChange={(e) => setNewSystemLevels(e.target.value)}
+                placeholder={'每行一条，如:\n0:完全不满足\n10:完全满足'}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-green-500 h-20"
+              />
+            </div>
           </div>
           <div className="flex items-center space-x-2">
             <button
@@ -356,6 +432,53 @@ export default function PromptEditor({
         ))}
       </div>
 
+      {/* 阶梯计分表（逐条判定模式） */}
+      {judgmentMode === 'perResult' && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-yellow-800">阶梯计分表</h3>
+            <button
+              onClick={() => addStepRule(activeTab)}
+              className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded hover:bg-yellow-200"
+            >
+              新增档位
+            </button>
+          </div>
+          <p className="text-xs text-gray-600">高度符合条数达到门槛即得对应分数，按门槛从高到低匹配；门槛按 10 条结果设定，实际结果条数不同时按比例换算</p>
+          <div className="space-y-2">
+            {activeStepTable.map((rule, index) => (
+              <div key={index} className="flex items-center space-x-2 text-sm">
+                <span className="text-gray-600">高度符合 ≥</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={rule.minCount}
+                  onChange={(e) => updateStepRule(activeTab, index, 'minCount', parseInt(e.target.value))}
+                  className="w-16 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-yellow-500"
+                />
+                <span className="text-gray-600">条 →</span>
+                <input
+                  type="number"
+                  value={rule.score}
+                  onChange={(e) => updateStepRule(activeTab, index, 'score', parseFloat(e.target.value))}
+                  className="w-16 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-yellow-500"
+                />
+                <span className="text-gray-600">分</span>
+                <button
+                  onClick={() => deleteStepRule(activeTab, index)}
+                  className="text-xs text-red-600 hover:text-red-800"
+                >
+                  删除
+                </button>
+              </div>
+            ))}
+            {activeStepTable.length === 0 && (
+              <p className="text-xs text-gray-500">当前评分制式尚未配置阶梯计分表</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* 维度配置区域 */}
       <div className="space-y-3">
         {dimensions.map(dimension => {
@@ -476,7 +599,7 @@ export default function PromptEditor({
       <div className="pt-4 border-t border-gray-200">
         <div className="flex items-center justify-between text-sm text-gray-600">
           <span>
-            当前编辑: {activeTab === 'binary' ? '二分制' : '五分制'} | 
+            当前编辑: {activeSystem?.label || activeTab} | 
             已配置维度: {Object.keys(getCurrentTemplates()).length}/{dimensions.filter(d => d.enabled).length}
           </span>
         </div>
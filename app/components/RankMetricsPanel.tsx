@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { getJudgedDimensions, summarizeRankMetrics, type JudgedResultRecord } from '../services/metricsService';
+
+interface SearchEngine {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface RankMetricsPanelProps {
+  searchEngines: SearchEngine[];
+  evaluationResults: JudgedResultRecord[];
+}
+
+// 默认截断位置
+const DEFAULT_K = 10;
+
+/**
+ * 排序指标组件
+ * 基于逐条判定的分级标签展示各引擎的 nDCG@k、P@k、MRR 与 ERR@k，并与加权总分对照
+ */
+export default function RankMetricsPanel({
+  searchEngines,
+  evaluationResults
+}: RankMetricsPanelProps) {
+  // 截断位置
+  const [k, setK] = useState(DEFAULT_K);
+  // 提供分级标签的维度（未选择时使用第一个有逐条判定的维度）
+  const [selectedDimension, setSelectedDimension] = useState('');
+
+  const judgedDimensions = useMemo(() => getJudgedDimensions(evaluationResults), [evaluationResults]);
+  const dimensionName = judgedDimensions.includes(selectedDimension) ? selectedDimension : judgedDimensions[0];
+
+  const metrics = useMemo(
+    () => dimensionName ? summarizeRankMetrics(evaluationResults, searchEngines, dimensionName, k) : [],
+    [evaluationResults, searchEngines, dimensionName, k]
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3 sm:mb-4">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">排序指标</h3>
+        {judgedDimensions.length > 0 && (
+          <div className="flex items-center space-x-3 text-xs sm:text-sm text-gray-600">
+            <label className="flex items-center space-x-2">
+              <span>标签维度</span>
+              <select
+                value={dimensionName}
+                onChange={(e) => setSelectedDimension(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {judgedDimensions.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>k</span>
+              <input
+                type="number"
+                min="1"
+                max="50"
+                value={k}
+                onChange={(e) => setK(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+        )}
+      </div>
+
+      {judgedDimensions.length === 0 ? (
+        <div className="text-sm text-gray-500">排序指标需要逐条判定模式的评测结果</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">引擎</th>
+                <th className="py-2 pr-4 font-medium">加权总分</th>
+                <th className="py-2 pr-4 font-medium">nDCG@{k}</th>
+                <th className="py-2 pr-4 font-medium">P@{k}</th>
+                <th className="py-2 pr-4 font-medium">MRR</th>
+                <th className="py-2 pr-4 font-medium">ERR@{k}</th>
+                <th className="py-2 pr-4 font-medium">查询数</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map(item => (
+                <tr key={item.engineId} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 text-gray-900">{item.engineName}</td>
+                  {item.queryCount === 0 ? (
+                    <td colSpan={6} className="py-2 pr-4 text-gray-400">无逐条判定数据</td>
+                  ) : (
+                    <>
+                      <td className="py-2 pr-4 text-gray-700">{item.weightedScore.toFixed(2)}</td>
+                      <td className="py-2 pr-4 text-gray-700">{item.ndcg.toFixed(3)}</td>
+                      <td className="py-2 pr-4 text-gray-700">{item.precision.toFixed(3)}</td>
+                      <td className="py-2 pr-4 text-gray-700">{item.mrr.toFixed(3)}</td>
+                      <td className="py-2 pr-4 text-gray-700">{item.err.toFixed(3)}</td>
+                      <td className="py-2 pr-4 text-gray-700">{item.queryCount}</td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,16 @@
 'use client';
 
 import { useState } from 'react';
+import { DEFAULT_SCORING_SYSTEMS, type ResultJudgment, type ScoringSystem } from '../services/scoringService';
+import {
+  AUTHORITY_DIMENSION_NAME,
+  AUTHORITY_TIER_LABELS,
+  computeAuthorityScore,
+  matchDomainTier,
+  type AuthorityTier,
+  type DomainTierRule
+} from '../services/authorityService';
+import type { ApiErrorType } from '../services/apiService';
 
 interface SearchEngine {
   id: number;
@@ -22,15 +32,34 @@ interface EvaluationResult {
   round: number;
   searchResults: SearchResult[];
   scores: Record<string, number>;
+  rationales?: Record<string, string>;
+  resultJudgments?: Record<string, ResultJudgment[]>;
+  judgeScores?: Record<string, Record<string, number>>;
+  failures?: Record<string, { errorType: ApiErrorType; attempts: number; message: string }>;
+  attempts?: Record<string, number>;
+  searchAttempts?: number;
+  shuffleSeed?: number;
   weightedScore: number;
   timestamp: string;
 }
 
+// 失败类型显示文本
+const ERROR_TYPE_LABELS: Record<ApiErrorType, string> = {
+  auth: '鉴权失败',
+  rateLimit: '限流',
+  server: '服务端错误',
+  network: '网络错误',
+  parse: '解析失败',
+  client: '请求错误'
+};
+
 interface SearchResult {
   title: string;
   url: string;
   snippet: string;
   rank: number;
+  publishDate?: string;
+  media?: string;
 }
 
 interface SearchResultCallback {
@@ -47,6 +76,7 @@ interface EvaluationProgress {
   totalRounds: number;
   currentDimension?: string;
   progress: number;
+  cancelled?: boolean;
 }
 
 interface ResultsPanelProps {
@@ -57,8 +87,17 @@ interface ResultsPanelProps {
   totalRounds?: number;
   searchResults?: SearchResultCallback[];
   evaluationProgress?: EvaluationProgress | null;
+  domainTiers?: DomainTierRule[];
+  scoringSystem?: ScoringSystem;
 }
 
+// 权威等级徽标样式
+const TIER_BADGE_STYLES: Record<AuthorityTier, string> = {
+  1: 'bg-emerald-100 text-emerald-800',
+  2: 'bg-sky-100 text-sky-800',
+  3: 'bg-gray-100 text-gray-700'
+};
+
 /**
  * 结果展示面板组件
  * 显示评测结果和搜索结果
@@ -70,7 +109,9 @@ export default function ResultsPanel({
   isEvaluating,
   totalRounds = 1,
   searchResults = [],
-  evaluationProgress = null
+  evaluationProgress = null,
+  domainTiers = [],
+  scoringSystem = DEFAULT_SCORING_SYSTEMS[0]
 }: ResultsPanelProps) {
   // 控制各搜索引擎面板的展开/折叠状态
   const [expandedEngines, setExpandedEngines] = useState<Record<number, boolean>>(
@@ -127,7 +168,8 @@ export default function ResultsPanel({
    * 计算搜索引擎的平均分数
    */
   const calculateAverageScore = (engineId: number) => {
-    const results = getEngineResults(engineId);
+    // 全部维度失败的轮次没有有效分数，不计入平均分
+    const results = getEngineResults(engineId).filter(result => Object.keys(result.scores).length > 0);
     if (results.length === 0) return '0.0';
     const average = results.reduce((sum, result) => sum + result.weightedScore, 0) / results.length;
     return average.toFixed(1);
@@ -141,27 +183,76 @@ export default function ResultsPanel({
     return `${completed}/${totalRounds}`;
   };
 
+  /**
+   * 渲染逐条判定标签
+   */
+  const renderJudgmentBadges = (rank: number, resultJudgments?: Record<string, ResultJudgment[]>) => {
+    if (!resultJudgments) return null;
+
+    const gradeClass: Record<number, string> = {
+      2: 'bg-green-100 text-green-800',
+      1: 'bg-yellow-100 text-yellow-800',
+      0: 'bg-red-100 text-red-800'
+    };
+
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {Object.entries(resultJudgments).map(([dimensionName, judgments]) => {
+          const judgment = judgments.find(item => item.rank === rank);
+          if (!judgment) return null;
+          return (
+            <span key={dimensionName} className={`text-xs px-1.5 py-0.5 rounded ${gradeClass[judgment.grade]}`}>
+              {dimensionName}: {judgment.grade}
+            </span>
+          );
+        })}
+      </div>
+    );
+  };
+
   /**
    * 渲染搜索结果
    */
-  const renderSearchResult = (result: SearchResult, index: number) => (
-    <div key={index} className="border-l-2 border-gray-200 pl-2 sm:pl-3 mb-2 sm:mb-3">
-      <div className="flex items-start space-x-2">
-        <span className="bg-blue-100 text-blue-800 text-xs font-medium px-1.5 sm:px-2 py-1 rounded flex-shrink-0">
-          #{result.rank}
-        </span>
-        <div className="flex-1 min-w-0">
-          <h4 className="text-xs sm:text-sm font-medium text-blue-600 hover:text-blue-800 break-words">
-            <a href={result.url} target="_blank" rel="noopener noreferrer">
-              {result.title}
-            </a>
-          </h4>
-          <p className="text-xs text-gray-500 mt-1 break-all">{result.url}</p>
-          <p className="text-xs sm:text-sm text-gray-700 mt-1 line-clamp-2">{result.snippet}</p>
+  const renderSearchResult = (
+    result: SearchResult,
+    index: number,
+    resultJudgments?: Record<string, ResultJudgment[]>
+  ) => {
+    const tierRule = matchDomainTier(result.url, domainTiers);
+
+    return (
+      <div key={index} className="border-l-2 border-gray-200 pl-2 sm:pl-3 mb-2 sm:mb-3">
+        <div className="flex items-start space-x-2">
+          <span className="bg-blue-100 text-blue-800 text-xs font-medium px-1.5 sm:px-2 py-1 rounded flex-shrink-0">
+            #{result.rank}
+          </span>
+          {tierRule && (
+            <span
+              className={`text-xs font-medium px-1.5 sm:px-2 py-1 rounded flex-shrink-0 ${TIER_BADGE_STYLES[tierRule.tier]}`}
+              title={tierRule.note ? `${tierRule.pattern}（${tierRule.note}）` : tierRule.pattern}
+            >
+              {AUTHORITY_TIER_LABELS[tierRule.tier]}
+            </span>
+          )}
+          <div className="flex-1 min-w-0">
+            <h4 className="text-xs sm:text-sm font-medium text-blue-600 hover:text-blue-800 break-words">
+              <a href={result.url} target="_blank" rel="noopener noreferrer">
+                {result.title}
+              </a>
+            </h4>
+            <p className="text-xs text-gray-500 mt-1 break-all">{result.url}</p>
+            {(result.media || result.publishDate) && (
+              <p className="text-xs text-gray-400 mt-1">
+                {[result.media, result.publishDate].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            <p className="text-xs sm:text-sm text-gray-700 mt-1 line-clamp-2">{result.snippet}</p>
+            {renderJudgmentBadges(result.rank, resultJudgments)}
+          </div>
         </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   /**
    * 渲染即时搜索结果
@@ -195,23 +286,88 @@ export default function ResultsPanel({
     );
   };
 
+  /**
+   * 判断某维度的评委分数是否存在分歧
+   */
+  const hasJudgeDisagreement = (judgeScores?: Record<string, number>) => {
+    if (!judgeScores) return false;
+    const scores = Object.values(judgeScores);
+    return scores.length > 1 && Math.max(...scores) !== Math.min(...scores);
+  };
+
+  /**
+   * 渲染各评委分数
+   */
+  const renderJudgeScores = (judgeScores?: Record<string, number>) => {
+    if (!judgeScores || Object.keys(judgeScores).length < 2) return null;
+    const disagreed = hasJudgeDisagreement(judgeScores);
+
+    return (
+      <div className={`mt-1 text-xs ${disagreed ? 'text-orange-600' : 'text-gray-400'}`}>
+        {Object.entries(judgeScores).map(([judgeName, score]) => (
+          <div key={judgeName} className="truncate" title={judgeName}>
+            {judgeName}: {score}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   /**
    * 渲染评分详情
    */
-  const renderScoreDetails = (scores: Record<string, number>, dimensions: Dimension[]) => (
+  const renderScoreDetails = (result: EvaluationResult, dimensions: Dimension[]) => (
     <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
-      {dimensions.map(dim => (
-        <div key={dim.id} className="text-center">
-          <div className="text-xs text-gray-500 truncate">{dim.name}</div>
-          <div className="text-xs sm:text-sm font-medium">
-            {scores[dim.name] || 0}
-            <span className="text-xs text-gray-400 ml-1">({(dim.weight * 100).toFixed(0)}%)</span>
+      {dimensions.map(dim => {
+        const failure = result.failures?.[dim.name];
+        const attempts = result.attempts?.[dim.name];
+        return (
+          <div key={dim.id} className="text-center">
+            <div className="text-xs text-gray-500 truncate">{dim.name}</div>
+            {failure ? (
+              <div className="text-xs sm:text-sm font-medium text-red-600" title={failure.message}>
+                {ERROR_TYPE_LABELS[failure.errorType]}
+                <span className="text-xs text-red-400 ml-1">({failure.attempts}次)</span>
+              </div>
+            ) : (
+              <div className="text-xs sm:text-sm font-medium">
+                {result.scores[dim.name] ?? '-'}
+                <span className="text-xs text-gray-400 ml-1">({(dim.weight * 100).toFixed(0)}%)</span>
+                {attempts !== undefined && attempts > 1 && (
+                  <span className="text-xs text-yellow-600 ml-1" title="请求次数（含重试）">×{attempts}</span>
+                )}
+              </div>
+            )}
+            {renderJudgeScores(result.judgeScores?.[dim.name])}
+            {dim.name === AUTHORITY_DIMENSION_NAME && result.searchResults.length > 0 && (
+              <div className="text-xs text-emerald-700" title="按域名权威等级表计算的确定性分数">
+                规则 {computeAuthorityScore(result.searchResults, domainTiers, scoringSystem)}
+              </div>
+            )}
           </div>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 
+  /**
+   * 渲染评分理由
+   */
+  const renderRationales = (rationales?: Record<string, string>) => {
+    if (!rationales || Object.keys(rationales).length === 0) return null;
+
+    return (
+      <div className="mt-3 space-y-2">
+        {Object.entries(rationales).map(([dimensionName, rationale]) => (
+          <div key={dimensionName} className="text-xs text-gray-700">
+            <span className="font-medium text-gray-900">{dimensionName}：</span>
+            {rationale}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   // 不再需要流式日志渲染函数
 
   if (searchEngines.length === 0) {
@@ -237,6 +393,11 @@ export default function ResultsPanel({
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
                 <span className="text-sm text-blue-700">评测中...</span>
               </div>
+            ) : evaluationProgress.cancelled ? (
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-yellow-500 rounded-full"></div>
+                <span className="text-sm text-yellow-700">评测已取消</span>
+              </div>
             ) : (
               <div className="flex items-center space-x-2">
                 <div className="w-4 h-4 bg-green-500 rounded-full flex items-center justify-center">
@@ -364,11 +525,25 @@ export default function ResultsPanel({
                                     <span className="text-sm text-gray-700 truncate max-w-xs">
                                       {result.query}
                                     </span>
+                                    {Object.values(result.judgeScores || {}).some(hasJudgeDisagreement) && (
+                                      <span className="bg-orange-100 text-orange-700 text-xs font-medium px-2 py-1 rounded">
+                                        评委分歧
+                                      </span>
+                                    )}
+                                    {result.shuffleSeed !== undefined && (
+                                      <span className="text-xs text-gray-400" title="提交给评委前打乱结果顺序所用的种子">
+                                        种子 {result.shuffleSeed}
+                                      </span>
+                                    )}
                                   </div>
                                   <div className="flex items-center space-x-2">
-                                    <span className="text-sm font-medium text-green-600">
-                                      {result.weightedScore.toFixed(1)}
-                                    </span>
+                                    {Object.keys(result.scores).length > 0 ? (
+                                      <span className="text-sm font-medium text-green-600">
+                                        {result.weightedScore.toFixed(1)}
+                                      </span>
+                                    ) : (
+                                      <span className="text-sm font-medium text-red-600">失败</span>
+                                    )}
                                     <svg 
                                       className={`w-4 h-4 transform transition-transform ${isResultExpanded ? 'rotate-180' : ''}`}
                                       fill="none" 
@@ -386,7 +561,8 @@ export default function ResultsPanel({
                                     {/* 评分详情 */}
                                     <div className="mb-4">
                                       <h4 className="text-sm font-medium text-gray-900 mb-2">评分详情</h4>
-                                      {renderScoreDetails(result.scores, dimensions)}
+                                      {renderScoreDetails(result, dimensions)}
+                                      {renderRationales(result.rationales)}
                                     </div>
 
                                     {/* 搜索结果 */}
@@ -396,7 +572,7 @@ export default function ResultsPanel({
                                       </h4>
                                       <div className="space-y-2">
                                         {result.searchResults.map((searchResult, idx) => 
-                                          renderSearchResult(searchResult, idx)
+                                          renderSearchResult(searchResult, idx, result.resultJudgments)
                                         )}
                                       </div>
                                     </div>
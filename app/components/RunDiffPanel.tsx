@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { diffRuns, getTopMovers, type QueryDiff, type ScoreDiff } from '../services/runDiffService';
+import type { SavedRun } from '../services/runHistoryService';
+
+interface RunDiffPanelProps {
+  baseline: SavedRun;
+  candidate: SavedRun;
+}
+
+// 默认列出的变化最大查询条数
+const DEFAULT_MOVER_LIMIT = 10;
+
+/**
+ * 格式化分数
+ */
+const formatScore = (score: number | null) => (score === null ? '-' : score.toFixed(2));
+
+/**
+ * 渲染分数变化：基线 → 新评测（差值），提升为绿色、下降为红色
+ */
+const renderDiff = (diff: ScoreDiff) => {
+  if (diff.delta === null) {
+    return <span className="text-gray-400">{formatScore(diff.baseline)} → {formatScore(diff.candidate)}</span>;
+  }
+
+  const colorClass = diff.delta > 0 ? 'text-green-700' : diff.delta < 0 ? 'text-red-700' : 'text-gray-500';
+  return (
+    <span>
+      <span className="text-gray-600">{formatScore(diff.baseline)} → {formatScore(diff.candidate)}</span>
+      <span className={`ml-1 font-medium ${colorClass}`}>
+        ({diff.delta > 0 ? '+' : ''}{diff.delta.toFixed(2)})
+      </span>
+    </span>
+  );
+};
+
+/**
+ * 评测对比组件
+ * 按引擎、分类和查询展示两次评测之间加权总分与各维度分数的变化，并列出变化最大查询的前10条链接变化
+ */
+export default function RunDiffPanel({
+  baseline,
+  candidate
+}: RunDiffPanelProps) {
+  // 列出的变化最大查询条数
+  const [moverLimit, setMoverLimit] = useState(DEFAULT_MOVER_LIMIT);
+  // 展开链接变化的查询
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const diff = useMemo(() => diffRuns(baseline, candidate), [baseline, candidate]);
+  const improved = useMemo(() => getTopMovers(diff.queries, 'improved', moverLimit), [diff, moverLimit]);
+  const regressed = useMemo(() => getTopMovers(diff.queries, 'regressed', moverLimit), [diff, moverLimit]);
+  const categories = Array.from(new Set(diff.categories.map(item => item.category)));
+
+  /**
+   * 渲染变化最大的查询列表
+   */
+  const renderMovers = (title: string, items: QueryDiff[], emptyText: string) => (
+    <div>
+      <h3 className="text-sm sm:text-base font-semibold text-gray-900 mb-2">{title}</h3>
+      {items.length === 0 ? (
+        <div className="text-sm text-gray-500">{emptyText}</div>
+      ) : (
+        <div className="space-y-2">
+          {items.map(item => {
+            const key = `${item.engineCode}-${item.query}`;
+            const isExpanded = expandedKey === key;
+            const { urlChanges } = item;
+            return (
+              <div key={key} className="border border-gray-200 rounded-lg">
+                <button
+                  onClick={() => setExpandedKey(isExpanded ? null : key)}
+                  className="w-full flex items-center justify-between p-2 sm:p-3 text-left text-xs sm:text-sm hover:bg-gray-50"
+                >
+                  <div className="min-w-0">
+                    <div className="text-gray-900 truncate" title={item.query}>{item.query}</div>
+                    <div className="text-gray-500">
+                      {item.engineName} · {item.category} · 新增 {urlChanges.added.length} / 移除 {urlChanges.removed.length} / 位次变化 {urlChanges.moved.length}
+                    </div>
+                  </div>
+                  <div className="ml-3 whitespace-nowrap">{renderDiff(item.weightedScore)}</div>
+                </button>
+
+                {isExpanded && (
+                  <div className="px-3 pb-3 text-xs space-y-3 border-t border-gray-100">
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 pt-2 text-gray-600">
+                      {diff.dimensionNames.map(name => (
+                        <span key={name}>{name}: {renderDiff(item.dimensions[name])}</span>
+                      ))}
+                    </div>
+                    {[
+                      { label: '新进入前10', urls: urlChanges.added, className: 'text-green-700' },
+                      { label: '跌出前10', urls: urlChanges.removed, className: 'text-red-700' }
+                    ].map(group => group.urls.length > 0 && (
+                      <div key={group.label}>
+                        <div className={`font-medium mb-1 ${group.className}`}>{group.label}</div>
+                        <ul className="space-y-0.5">
+                          {group.urls.map(url => (
+                            <li key={url} className="text-gray-700 truncate" title={url}>{url}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                    {urlChanges.moved.length > 0 && (
+                      <div>
+                        <div className="font-medium mb-1 text-gray-700">位次变化</div>
+                        <ul className="space-y-0.5">
+                          {urlChanges.moved.map(change => (
+                            <li key={change.url} className="text-gray-700 truncate" title={change.url}>
+                              #{change.baselineRank} → #{change.candidateRank} {change.url}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <div className="text-gray-400">{urlChanges.unchangedCount} 条链接位次不变</div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  if (diff.engines.length === 0) {
+    return <div className="text-sm text-gray-500">两次评测没有相同编码的搜索引擎，无法对比</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {diff.normalized && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-xs sm:text-sm text-amber-800">
+          两次评测的评分制式不同（基线：{baseline.config.scoringSystem.label}，新评测：{candidate.config.scoringSystem.label}），
+          以下分数均已按各自制式归一化到 0-1 后再对比
+        </div>
+      )}
+
+      {(diff.baselineOnlyQueries.length > 0 || diff.candidateOnlyQueries.length > 0) && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-xs sm:text-sm text-amber-800">
+          只对比两次评测共有的查询：基线独有 {diff.baselineOnlyQueries.length} 条，新评测独有 {diff.candidateOnlyQueries.length} 条
+        </div>
+      )}
+
+      {/* 按引擎 */}
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3">按引擎</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">引擎</th>
+                <th className="py-2 pr-4 font-medium">查询数</th>
+                <th className="py-2 pr-4 font-medium">加权总分</th>
+                {diff.dimensionNames.map(name => (
+                  <th key={name} className="py-2 pr-4 font-medium">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {diff.engines.map(engine => (
+                <tr key={engine.engineCode} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 text-gray-900">{engine.engineName}</td>
+                  <td className="py-2 pr-4 text-gray-700">{engine.queryCount}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{renderDiff(engine.weightedScore)}</td>
+                  {diff.dimensionNames.map(name => (
+                    <td key={name} className="py-2 pr-4 whitespace-nowrap">{renderDiff(engine.dimensions[name])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* 按分类 */}
+      {categories.length > 1 && (
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3">按分类（加权总分）</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs sm:text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">分类</th>
+                  {diff.engines.map(engine => (
+                    <th key={engine.engineCode} className="py-2 pr-4 font-medium">{engine.engineName}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {categories.map(category => (
+                  <tr key={category} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 text-gray-900">{category}</td>
+                    {diff.engines.map(engine => {
+                      const cell = diff.categories.find(item =>
+                        item.category === category && item.engineCode === engine.engineCode
+                      );
+                      return (
+                        <td key={engine.engineCode} className="py-2 pr-4 whitespace-nowrap">
+                          {cell ? renderDiff(cell.weightedScore) : <span className="text-gray-400">-</span>}
+                          {cell && <span className="ml-1 text-gray-400">({cell.queryCount})</span>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* 按查询 */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">按查询</h3>
+          <label className="flex items-center space-x-2 text-xs sm:text-sm text-gray-600">
+            <span>各列出</span>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={moverLimit}
+              onChange={(e) => setMoverLimit(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span>条</span>
+          </label>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {renderMovers('提升最多', improved, '没有分数提升的查询')}
+          {renderMovers('下降最多', regressed, '没有分数下降的查询')}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,30 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useRef } from 'react';
+import type { RateLimitConfig, RateLimits } from '../services/schedulerService';
+import type { RetryPolicy } from '../services/apiService';
+import type { JudgeConfig } from '../services/ensembleService';
+import {
+  AUTHORITY_TIER_LABELS,
+  DEFAULT_DOMAIN_TIERS,
+  exportDomainTiers,
+  parseDomainTiers,
+  type AuthorityTier,
+  type DomainTierRule
+} from '../services/authorityService';
+import {
+  DEFAULT_SEARCH_PARAMS,
+  RECENCY_FILTER_OPTIONS,
+  CONTENT_SIZE_OPTIONS,
+  resolveSearchParams,
+  type SearchParams
+} from '../services/searchProfileService';
 
 interface SearchEngine {
   id: number;
   code: string;
   name: string;
+  searchParams?: SearchParams;
 }
 
 interface ApiConfig {
@@ -13,6 +32,9 @@ interface ApiConfig {
   apiUrl: string;
   apiKey: string;
   modelKey: string;
+  rateLimits: RateLimits;
+  retryPolicy: RetryPolicy;
+  judges: JudgeConfig[];
 }
 
 interface SettingsModalProps {
@@ -22,6 +44,8 @@ interface SettingsModalProps {
   setSearchEngines: (engines: SearchEngine[]) => void;
   apiConfig: ApiConfig;
   setApiConfig: (config: ApiConfig) => void;
+  domainTiers: DomainTierRule[];
+  setDomainTiers: (rules: DomainTierRule[]) => void;
 }
 
 /**
@@ -34,7 +58,9 @@ export default function SettingsModal({
   searchEngines,
   setSearchEngines,
   apiConfig,
-  setApiConfig
+  setApiConfig,
+  domainTiers,
+  setDomainTiers
 }: SettingsModalProps) {
   // 使用传入的API配置状态，无需本地状态
   
@@ -42,6 +68,11 @@ export default function SettingsModal({
   const [newEngineCode, setNewEngineCode] = useState('');
   const [newEngineName, setNewEngineName] = useState('');
   const [showAddEngineForm, setShowAddEngineForm] = useState(false);
+  // 展开搜索参数的搜索引擎
+  const [expandedEngineId, setExpandedEngineId] = useState<number | null>(null);
+
+  // 域名等级表导入文件选择框
+  const tierFileInputRef = useRef<HTMLInputElement>(null);
 
   /**
    * 更新搜索引擎信息
@@ -52,6 +83,32 @@ export default function SettingsModal({
     ));
   };
 
+  /**
+   * 更新搜索引擎的搜索参数
+   */
+  const updateSearchParams = <K extends keyof SearchParams>(id: number, field: K, value: SearchParams[K]) => {
+    setSearchEngines(searchEngines.map(engine =>
+      engine.id === id
+        ? { ...engine, searchParams: { ...resolveSearchParams(engine.searchParams), [field]: value } }
+        : engine
+    ));
+  };
+
+  /**
+   * 获取搜索参数的摘要文本
+   */
+  const describeSearchParams = (params: SearchParams) => {
+    const recency = RECENCY_FILTER_OPTIONS.find(option => option.key === params.recencyFilter)?.label || params.recencyFilter;
+    const contentSize = CONTENT_SIZE_OPTIONS.find(option => option.key === params.contentSize)?.label || params.contentSize;
+    return [
+      `${params.count} 条`,
+      `时间: ${recency}`,
+      `内容: ${contentSize}`,
+      params.domainFilter.trim() ? `域名: ${params.domainFilter.trim()}` : '',
+      params.searchIntent ? '意图识别' : ''
+    ].filter(Boolean).join(' · ');
+  };
+
   /**
    * 删除搜索引擎
    */
@@ -82,7 +139,8 @@ export default function SettingsModal({
     const newEngine: SearchEngine = {
       id: Math.max(...searchEngines.map(e => e.id), 0) + 1,
       code: newEngineCode.trim(),
-      name: newEngineName.trim()
+      name: newEngineName.trim(),
+      searchParams: { ...DEFAULT_SEARCH_PARAMS }
     };
 
     setSearchEngines([...searchEngines, newEngine]);
@@ -94,13 +152,128 @@ export default function SettingsModal({
   /**
    * 更新API配置
    */
-  const updateApiConfig = (field: keyof ApiConfig, value: string) => {
+  const updateApiConfig = (field: 'websearchUrl' | 'apiUrl' | 'apiKey' | 'modelKey', value: string) => {
     setApiConfig({
       ...apiConfig,
       [field]: value
     });
   };
 
+  /**
+   * 新增评委模型
+   */
+  const addJudge = () => {
+    const newJudge: JudgeConfig = {
+      id: `judge_${Date.now()}`,
+      name: `评委${apiConfig.judges.length + 1}`,
+      modelKey: apiConfig.modelKey
+    };
+    setApiConfig({
+      ...apiConfig,
+      judges: [...apiConfig.judges, newJudge]
+    });
+  };
+
+  /**
+   * 更新评委模型
+   */
+  const updateJudge = (id: string, field: 'name' | 'modelKey' | 'apiUrl' | 'apiKey', value: string) => {
+    setApiConfig({
+      ...apiConfig,
+      judges: apiConfig.judges.map(judge => judge.id === id ? { ...judge, [field]: value } : judge)
+    });
+  };
+
+  /**
+   * 删除评委模型
+   */
+  const deleteJudge = (id: string) => {
+    setApiConfig({
+      ...apiConfig,
+      judges: apiConfig.judges.filter(judge => judge.id !== id)
+    });
+  };
+
+  /**
+   * 更新限流配置
+   */
+  const updateRateLimit = (endpoint: keyof RateLimits, field: keyof RateLimitConfig, value: number) => {
+    setApiConfig({
+      ...apiConfig,
+      rateLimits: {
+        ...apiConfig.rateLimits,
+        [endpoint]: {
+          ...apiConfig.rateLimits[endpoint],
+          [field]: Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0
+        }
+      }
+    });
+  };
+
+  /**
+   * 更新重试策略
+   */
+  const updateRetryPolicy = (field: keyof RetryPolicy, value: number) => {
+    setApiConfig({
+      ...apiConfig,
+      retryPolicy: {
+        ...apiConfig.retryPolicy,
+        [field]: Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0
+      }
+    });
+  };
+
+  /**
+   * 新增域名等级规则
+   */
+  const addDomainTier = () => {
+    setDomainTiers([...domainTiers, { pattern: '', tier: 2 }]);
+  };
+
+  /**
+   * 更新域名等级规则
+   */
+  const updateDomainTier = (index: number, changes: Partial<DomainTierRule>) => {
+    setDomainTiers(domainTiers.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  /**
+   * 删除域名等级规则
+   */
+  const deleteDomainTier = (index: number) => {
+    setDomainTiers(domainTiers.filter((_, i) => i !== index));
+  };
+
+  /**
+   * 导出域名等级表为 JSON 文件
+   */
+  const downloadDomainTiers = () => {
+    const blob = new Blob([exportDomainTiers(domainTiers)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'domain-tiers.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * 从 JSON 文件导入域名等级表（替换当前列表）
+   */
+  const importDomainTiers = async (file: File) => {
+    try {
+      const parsed = parseDomainTiers(await file.text());
+      if (!parsed.ok) {
+        alert(`导入失败: ${parsed.error}`);
+        return;
+      }
+      setDomainTiers(parsed.value);
+    } catch (error) {
+      // 文件读取失败（如选择后文件被移动或删除）
+      alert(`导入失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -184,39 +357,111 @@ export default function SettingsModal({
               
               {/* 搜索引擎列表 */}
               <div className="space-y-2">
-                {searchEngines.map(engine => (
-                  <div key={engine.id} className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg">
-                    <div className="flex-1 grid grid-cols-2 gap-3">
-                      <div>
-                        <label className="block text-xs font-medium text-gray-700 mb-1">编码</label>
-                        <input
-                          type="text"
-                          value={engine.code}
-                          onChange={(e) => updateSearchEngine(engine.id, 'code', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs font-medium text-gray-700 mb-1">名称</label>
-                        <input
-                          type="text"
-                          value={engine.name}
-                          onChange={(e) => updateSearchEngine(engine.id, 'name', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
-                        />
+                {searchEngines.map(engine => {
+                  const params = resolveSearchParams(engine.searchParams);
+                  const isExpanded = expandedEngineId === engine.id;
+                  return (
+                    <div key={engine.id} className="p-3 border border-gray-200 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <div className="flex-1 grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">编码</label>
+                            <input
+                              type="text"
+                              value={engine.code}
+                              onChange={(e) => updateSearchEngine(engine.id, 'code', e.target.value)}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">名称</label>
+                            <input
+                              type="text"
+                              value={engine.name}
+                              onChange={(e) => updateSearchEngine(engine.id, 'name', e.target.value)}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => deleteSearchEngine(engine.id)}
+                          className="text-red-600 hover:text-red-800 p-1"
+                          title="删除搜索引擎"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
                       </div>
+
+                      {/* 搜索参数 */}
+                      <button
+                        onClick={() => setExpandedEngineId(isExpanded ? null : engine.id)}
+                        className="mt-2 w-full flex items-center justify-between text-xs text-gray-600 hover:text-gray-900"
+                      >
+                        <span className="truncate">搜索参数：{describeSearchParams(params)}</span>
+                        <span className="ml-2 text-blue-600">{isExpanded ? '收起' : '编辑'}</span>
+                      </button>
+                      {isExpanded && (
+                        <div className="mt-2 pt-2 border-t border-gray-100 grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">返回条数</label>
+                            <input
+                              type="number"
+                              min="1"
+                              max="50"
+                              value={params.count}
+                              onChange={(e) => updateSearchParams(engine.id, 'count', parseInt(e.target.value) || 1)}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">时间范围</label>
+                            <select
+                              value={params.recencyFilter}
+                              onChange={(e) => updateSearchParams(engine.id, 'recencyFilter', e.target.value)}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            >
+                              {RECENCY_FILTER_OPTIONS.map(option => (
+                                <option key={option.key} value={option.key}>{option.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">内容长度</label>
+                            <select
+                              value={params.contentSize}
+                              onChange={(e) => updateSearchParams(engine.id, 'contentSize', e.target.value)}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            >
+                              {CONTENT_SIZE_OPTIONS.map(option => (
+                                <option key={option.key} value={option.key}>{option.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-1">域名过滤</label>
+                            <input
+                              type="text"
+                              value={params.domainFilter}
+                              onChange={(e) => updateSearchParams(engine.id, 'domainFilter', e.target.value)}
+                              placeholder="留空不限，如: gov.cn"
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                          </div>
+                          <label className="col-span-2 flex items-center space-x-2 text-xs text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={params.searchIntent}
+                              onChange={(e) => updateSearchParams(engine.id, 'searchIntent', e.target.checked)}
+                            />
+                            <span>启用搜索意图识别</span>
+                          </label>
+                        </div>
+                      )}
                     </div>
-                    <button
-                      onClick={() => deleteSearchEngine(engine.id)}
-                      className="text-red-600 hover:text-red-800 p-1"
-                      title="删除搜索引擎"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
 
@@ -276,6 +521,238 @@ export default function SettingsModal({
                 placeholder="glm-4-plus"
               />
             </div>
+
+            {/* 多评委配置 */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  评委模型（多评委集成）
+                </label>
+                <button
+                  onClick={addJudge}
+                  className="text-sm bg-blue-100 text-blue-700 px-3 py-1 rounded hover:bg-blue-200"
+                >
+                  新增评委
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mb-3">
+                未添加评委时使用上方模型单独评分；评委的接口地址和密钥留空时沿用上方配置
+              </p>
+
+              <div className="space-y-2">
+                {apiConfig.judges.map(judge => (
+                  <div key={judge.id} className="flex items-start space-x-3 p-3 border border-gray-200 rounded-lg">
+                    <div className="flex-1 grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">名称</label>
+                        <input
+                          type="text"
+                          value={judge.name}
+                          onChange={(e) => updateJudge(judge.id, 'name', e.target.value)}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">模型key</label>
+                        <input
+                          type="text"
+                          value={judge.modelKey}
+                          onChange={(e) => updateJudge(judge.id, 'modelKey', e.target.value)}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">API URL（可选）</label>
+                        <input
+                          type="url"
+                          value={judge.apiUrl || ''}
+                          onChange={(e) => updateJudge(judge.id, 'apiUrl', e.target.value)}
+                          placeholder="沿用全局配置"
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">API密钥（可选）</label>
+                        <input
+                          type="password"
+                          value={judge.apiKey || ''}
+                          onChange={(e) => updateJudge(judge.id, 'apiKey', e.target.value)}
+                          placeholder="沿用全局配置"
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => deleteJudge(judge.id)}
+                      className="text-red-600 hover:text-red-800 p-1"
+                      title="删除评委"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* 域名权威等级配置 */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900">域名权威等级</h3>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => tierFileInputRef.current?.click()}
+                  className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded hover:bg-gray-200"
+                >
+                  导入
+                </button>
+                <button
+                  onClick={downloadDomainTiers}
+                  className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded hover:bg-gray-200"
+                >
+                  导出
+                </button>
+                <button
+                  onClick={() => confirm('确定要恢复默认等级表吗？') && setDomainTiers(DEFAULT_DOMAIN_TIERS)}
+                  className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded hover:bg-gray-200"
+                >
+                  恢复默认
+                </button>
+                <button
+                  onClick={addDomainTier}
+                  className="text-sm bg-blue-100 text-blue-700 px-3 py-1 rounded hover:bg-blue-200"
+                >
+                  新增规则
+                </button>
+              </div>
+              <input
+                ref={tierFileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importDomainTiers(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            <p className="text-sm text-gray-500">
+              域名匹配自身及全部子域名，多条规则匹配时取最具体的一条；规则权威分按排名折损加权各结果的等级，未收录的域名计为0
+            </p>
+
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {domainTiers.map((rule, index) => (
+                <div key={index} className="flex items-center space-x-3">
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={(e) => updateDomainTier(index, { pattern: e.target.value })}
+                    placeholder="如: gov.cn"
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <select
+                    value={rule.tier}
+                    onChange={(e) => updateDomainTier(index, { tier: parseInt(e.target.value) as AuthorityTier })}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    {([1, 2, 3] as AuthorityTier[]).map(tier => (
+                      <option key={tier} value={tier}>{AUTHORITY_TIER_LABELS[tier]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={rule.note || ''}
+                    onChange={(e) => updateDomainTier(index, { note: e.target.value })}
+                    placeholder="备注"
+                    className="w-28 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => deleteDomainTier(index)}
+                    className="text-red-600 hover:text-red-800 p-1"
+                    title="删除规则"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* 请求限流配置 */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">请求限流配置</h3>
+            <p className="text-sm text-gray-500">数值为 0 表示不限制</p>
+
+            {([
+              { key: 'search', label: '搜索接口' },
+              { key: 'judge', label: '评分接口' }
+            ] as Array<{ key: keyof RateLimits; label: string }>).map(endpoint => (
+              <div key={endpoint.key} className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {endpoint.label}并发数
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={apiConfig.rateLimits[endpoint.key].concurrency}
+                    onChange={(e) => updateRateLimit(endpoint.key, 'concurrency', parseInt(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {endpoint.label}每分钟请求数
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={apiConfig.rateLimits[endpoint.key].requestsPerMinute}
+                    onChange={(e) => updateRateLimit(endpoint.key, 'requestsPerMinute', parseInt(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* 超时与重试配置 */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">超时与重试配置</h3>
+            <p className="text-sm text-gray-500">限流、服务端错误和网络错误（含超时）会按指数退避自动重试，并遵循接口返回的 Retry-After</p>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  请求超时（秒）
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={apiConfig.retryPolicy.timeoutMs / 1000}
+                  onChange={(e) => updateRetryPolicy('timeoutMs', parseFloat(e.target.value) * 1000)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  最大重试次数
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="10"
+                  value={apiConfig.retryPolicy.maxRetries}
+                  onChange={(e) => updateRetryPolicy('maxRetries', parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { comparePairedEngines, type WeightedScoreRecord } from '../services/statisticsService';
+
+interface SearchEngine {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface Dimension {
+  id: number;
+  name: string;
+  weight: number;
+  enabled: boolean;
+}
+
+interface SignificancePanelProps {
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  evaluationResults: WeightedScoreRecord[];
+}
+
+// 比较对象：加权总分或单个维度
+const WEIGHTED_SCORE_KEY = '__weighted__';
+
+// 显著性水平
+const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * 格式化p值
+ */
+const formatPValue = (pValue: number) => (pValue < 0.001 ? '<0.001' : pValue.toFixed(3));
+
+/**
+ * 引擎显著性检验组件
+ * 以查询为配对单位，展示引擎两两之间的平均差值、自助法置信区间与 Wilcoxon 符号秩检验结果
+ */
+export default function SignificancePanel({
+  searchEngines,
+  dimensions,
+  evaluationResults
+}: SignificancePanelProps) {
+  // 当前比较的维度
+  const [target, setTarget] = useState(WEIGHTED_SCORE_KEY);
+
+  const comparisons = useMemo(
+    () => comparePairedEngines(
+      evaluationResults,
+      searchEngines,
+      target === WEIGHTED_SCORE_KEY ? null : target
+    ),
+    [evaluationResults, searchEngines, target]
+  );
+
+  /**
+   * 获取行引擎相对列引擎的比较结果（必要时翻转方向）
+   */
+  const getCell = (rowEngineId: number, columnEngineId: number) => {
+    const direct = comparisons.find(item => item.engineAId === rowEngineId && item.engineBId === columnEngineId);
+    if (direct) return direct;
+
+    const reversed = comparisons.find(item => item.engineAId === columnEngineId && item.engineBId === rowEngineId);
+    if (!reversed) return null;
+    return {
+      ...reversed,
+      bootstrap: {
+        ...reversed.bootstrap,
+        meanDifference: -reversed.bootstrap.meanDifference,
+        ciLower: -reversed.bootstrap.ciUpper,
+        ciUpper: -reversed.bootstrap.ciLower
+      }
+    };
+  };
+
+  if (searchEngines.length < 2) {
+    return <div className="text-sm text-gray-500">显著性检验需要至少 2 个搜索引擎</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">引擎两两显著性检验</h3>
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value={WEIGHTED_SCORE_KEY}>加权总分</option>
+          {dimensions.map(dim => (
+            <option key={dim.id} value={dim.name}>{dim.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        单元格为行引擎减列引擎的平均分差（多轮取平均后按查询配对），括号内为配对自助法 95% 置信区间；
+        置信区间不含 0 时以颜色标出（绿色表示行引擎显著更好）。p 值分别来自自助法与 Wilcoxon 符号秩检验。
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs sm:text-sm border border-gray-200">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="p-2 border border-gray-200 text-left font-medium text-gray-500">行 - 列</th>
+              {searchEngines.map(engine => (
+                <th key={engine.id} className="p-2 border border-gray-200 text-left font-medium text-gray-700">
+                  {engine.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {searchEngines.map(rowEngine => (
+              <tr key={rowEngine.id}>
+                <th className="p-2 border border-gray-200 text-left font-medium text-gray-700 bg-gray-50">
+                  {rowEngine.name}
+                </th>
+                {searchEngines.map(columnEngine => {
+                  if (rowEngine.id === columnEngine.id) {
+                    return <td key={columnEngine.id} className="p-2 border border-gray-200 bg-gray-100 text-center text-gray-400">—</td>;
+                  }
+
+                  const cell = getCell(rowEngine.id, columnEngine.id);
+                  if (!cell || cell.queryCount === 0) {
+                    return <td key={columnEngine.id} className="p-2 border border-gray-200 text-gray-400">无配对数据</td>;
+                  }
+
+                  const { bootstrap, wilcoxon } = cell;
+                  const significant = bootstrap.ciLower > 0 || bootstrap.ciUpper < 0;
+                  const colorClass = !significant
+                    ? ''
+                    : bootstrap.meanDifference > 0 ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800';
+
+                  return (
+                    <td key={columnEngine.id} className={`p-2 border border-gray-200 align-top ${colorClass}`}>
+                      <div className="font-medium">
+                        {bootstrap.meanDifference >= 0 ? '+' : ''}{bootstrap.meanDifference.toFixed(3)}
+                        <span className="font-normal text-gray-500 ml-1">
+                          [{bootstrap.ciLower.toFixed(3)}, {bootstrap.ciUpper.toFixed(3)}]
+                        </span>
+                      </div>
+                      <div className="text-gray-600">
+                        自助法 p={formatPValue(bootstrap.pValue)}
+                      </div>
+                      <div className={wilcoxon.pValue < SIGNIFICANCE_LEVEL ? 'text-gray-900 font-medium' : 'text-gray-600'}>
+                        Wilcoxon p={formatPValue(wilcoxon.pValue)}
+                        <span className="text-gray-400 ml-1">
+                          ({wilcoxon.method === 'exact' ? '精确' : '正态近似'}, n={wilcoxon.n})
+                        </span>
+                      </div>
+                      <div className="text-gray-400">{cell.queryCount} 条查询</div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { analyzeStability, type RoundScoreRecord } from '../services/statisticsService';
+import type { ScoringSystem } from '../services/scoringService';
+
+interface Dimension {
+  id: number;
+  name: string;
+  weight: number;
+  enabled: boolean;
+}
+
+interface StabilityPanelProps {
+  dimensions: Dimension[];
+  evaluationResults: RoundScoreRecord[];
+  scoringSystem: ScoringSystem;
+}
+
+/**
+ * 获取一致性系数的解读文本与样式（按 Krippendorff 建议的 0.8 / 0.667 阈值）
+ */
+const describeAlpha = (alpha: number | null) => {
+  if (alpha === null) return { text: '无法计算', className: 'text-gray-500' };
+  if (alpha >= 0.8) return { text: '可靠', className: 'text-green-600' };
+  if (alpha >= 0.667) return { text: '可暂用', className: 'text-yellow-600' };
+  return { text: '不可靠', className: 'text-red-600' };
+};
+
+/**
+ * 评分稳定性分析组件
+ * 展示多轮评测的方差、标准差、极差与 Krippendorff's alpha，并标记轮次间分歧较大的查询
+ */
+export default function StabilityPanel({
+  dimensions,
+  evaluationResults,
+  scoringSystem
+}: StabilityPanelProps) {
+  // 分歧阈值：轮次间极差超过该值时标记为需复核
+  const [threshold, setThreshold] = useState(scoringSystem.step);
+  // 是否只显示需复核的条目
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(true);
+
+  const report = useMemo(
+    () => analyzeStability(evaluationResults, dimensions.map(dim => dim.name), threshold),
+    [evaluationResults, dimensions, threshold]
+  );
+
+  const visibleRows = report.rows
+    .filter(row => !showFlaggedOnly || row.flagged)
+    .sort((a, b) => b.statistics.range - a.statistics.range || b.statistics.std - a.statistics.std);
+
+  const hasMultipleRounds = report.rows.some(row => row.statistics.count >= 2);
+
+  if (!hasMultipleRounds) {
+    return (
+      <div className="text-sm text-gray-500">
+        稳定性分析需要至少 2 轮评测结果
+      </div>
+    );
+  }
+
+  const overall = describeAlpha(report.overallAlpha);
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* 一致性汇总 */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
+        <div className="bg-blue-50 p-3 sm:p-4 rounded-lg">
+          <div className="text-xl sm:text-2xl font-bold text-blue-600">
+            {report.overallAlpha === null ? '-' : report.overallAlpha.toFixed(3)}
+          </div>
+          <div className="text-xs sm:text-sm text-blue-600">
+            总体 Krippendorff&apos;s α <span className={overall.className}>({overall.text})</span>
+          </div>
+        </div>
+        <div className="bg-red-50 p-3 sm:p-4 rounded-lg">
+          <div className="text-xl sm:text-2xl font-bold text-red-600">
+            {report.rows.filter(row => row.flagged).length}
+          </div>
+          <div className="text-xs sm:text-sm text-red-600">需复核条目</div>
+        </div>
+      </div>
+
+      {/* 各维度一致性 */}
+      <div>
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3">各维度一致性</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">维度</th>
+                <th className="py-2 pr-4 font-medium">α</th>
+                <th className="py-2 pr-4 font-medium">平均标准差</th>
+                <th className="py-2 pr-4 font-medium">需复核 / 总数</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.dimensions.map(item => {
+                const agreement = describeAlpha(item.alpha);
+                return (
+                  <tr key={item.dimensionName} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 text-gray-900">{item.dimensionName}</td>
+                    <td className="py-2 pr-4">
+                      {item.alpha === null ? '-' : item.alpha.toFixed(3)}
+                      <span className={`ml-1 ${agreement.className}`}>({agreement.text})</span>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{item.meanStd.toFixed(3)}</td>
+                    <td className="py-2 pr-4 text-gray-700">{item.flaggedCount} / {item.unitCount}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* 逐条稳定性明细 */}
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">轮次分歧明细</h3>
+          <div className="flex items-center space-x-4 text-xs sm:text-sm text-gray-600">
+            <label className="flex items-center space-x-2">
+              <span>分歧阈值（极差 &gt;）</span>
+              <input
+                type="number"
+                min="0"
+                step={scoringSystem.step}
+                value={threshold}
+                onChange={(e) => setThreshold(Math.max(0, parseFloat(e.target.value) || 0))}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={showFlaggedOnly}
+                onChange={(e) => setShowFlaggedOnly(e.target.checked)}
+              />
+              <span>只显示需复核</span>
+            </label>
+          </div>
+        </div>
+
+        {visibleRows.length === 0 ? (
+          <div className="text-sm text-gray-500">没有超过阈值的分歧</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs sm:text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">查询</th>
+                  <th className="py-2 pr-4 font-medium">引擎</th>
+                  <th className="py-2 pr-4 font-medium">维度</th>
+                  <th className="py-2 pr-4 font-medium">各轮分数</th>
+                  <th className="py-2 pr-4 font-medium">方差</th>
+                  <th className="py-2 pr-4 font-medium">标准差</th>
+                  <th className="py-2 pr-4 font-medium">极差</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map(row => (
+                  <tr
+                    key={`${row.query}-${row.engineId}-${row.dimensionName}`}
+                    className={`border-b border-gray-100 ${row.flagged ? 'bg-red-50' : ''}`}
+                  >
+                    <td className="py-2 pr-4 text-gray-900 max-w-xs truncate" title={row.query}>{row.query}</td>
+                    <td className="py-2 pr-4 text-gray-700">{row.engineName}</td>
+                    <td className="py-2 pr-4 text-gray-700">{row.dimensionName}</td>
+                    <td className="py-2 pr-4 text-gray-700">
+                      {row.roundScores.map(item => item.score).join(' / ')}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{row.statistics.variance.toFixed(3)}</td>
+                    <td className="py-2 pr-4 text-gray-700">{row.statistics.std.toFixed(3)}</td>
+                    <td className={`py-2 pr-4 font-medium ${row.flagged ? 'text-red-600' : 'text-gray-700'}`}>
+                      {row.statistics.range}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,18 @@
 'use client';
 
 import { useState, useMemo } from 'react';
+import { DEFAULT_SCORING_SYSTEMS, normalizeScore, type ResultJudgment, type ScoringSystem } from '../services/scoringService';
+import StabilityPanel from './StabilityPanel';
+import SignificancePanel from './SignificancePanel';
+import PairwisePanel from './PairwisePanel';
+import RankMetricsPanel from './RankMetricsPanel';
+import FreshnessPanel from './FreshnessPanel';
+import OverlapPanel from './OverlapPanel';
+import BreakdownPanel from './BreakdownPanel';
+import { AUTHORITY_DIMENSION_NAME, computeAuthorityScore, type DomainTierRule } from '../services/authorityService';
+import type { PairwiseVerdict } from '../services/evaluationService';
+import { getQueryWeight, type QueryMeta } from '../services/querySetService';
+import { weightedMean } from '../services/statisticsService';
 
 interface SearchEngine {
   id: number;
@@ -21,6 +33,7 @@ interface SearchResult {
   url: string;
   snippet: string;
   rank: number;
+  publishDate?: string;
 }
 
 interface EvaluationResult {
@@ -30,6 +43,8 @@ interface EvaluationResult {
   round: number;
   searchResults: SearchResult[];
   scores: Record<string, number>;
+  resultJudgments?: Record<string, ResultJudgment[]>;
+  queryMeta?: QueryMeta;
   weightedScore: number;
   timestamp: string;
 }
@@ -38,6 +53,9 @@ interface SummaryPanelProps {
   searchEngines: SearchEngine[];
   dimensions: Dimension[];
   evaluationResults: EvaluationResult[];
+  pairwiseVerdicts?: PairwiseVerdict[];
+  scoringSystem?: ScoringSystem;
+  domainTiers?: DomainTierRule[];
 }
 
 interface EngineStats {
@@ -46,11 +64,12 @@ interface EngineStats {
   averageScore: number;
   totalRounds: number;
   dimensionScores: Record<string, number>;
+  ruleAuthorityScore: number; // 按域名权威等级表计算的平均规则权威分
   scoreHistory: number[];
 }
 
 // 定义标签页类型
-type TabKey = 'overview' | 'trends' | 'dimensions';
+type TabKey = 'overview' | 'trends' | 'dimensions' | 'breakdown' | 'stability' | 'significance' | 'overlap' | 'pairwise';
 
 /**
  * 底部汇总展示面板组件
@@ -59,30 +78,46 @@ type TabKey = 'overview' | 'trends' | 'dimensions';
 export default function SummaryPanel({
   searchEngines,
   dimensions,
-  evaluationResults
+  evaluationResults,
+  pairwiseVerdicts = [],
+  scoringSystem = DEFAULT_SCORING_SYSTEMS[0],
+  domainTiers = []
 }: SummaryPanelProps) {
   // 当前活动标签页
-  const [activeTab, setActiveTab] = useState<TabKey>('overview');
+  const [selectedTab, setActiveTab] = useState<TabKey>('overview');
+  // 只有两两对比结果时，评分类标签页没有数据，固定显示两两对比
+  const hasScoreResults = evaluationResults.length > 0;
+  const activeTab: TabKey = hasScoreResults ? selectedTab : 'pairwise';
 
   /**
-   * 计算各搜索引擎的统计数据
+   * 计算各搜索引擎的统计数据（各轮按查询权重加权平均）
    */
   const engineStats = useMemo((): EngineStats[] => {
     return searchEngines.map(engine => {
-      const engineResults = evaluationResults.filter(result => result.engineId === engine.id);
+      // 全部维度失败的轮次没有有效分数，不参与统计
+      const engineResults = evaluationResults.filter(result =>
+        result.engineId === engine.id && Object.keys(result.scores).length > 0
+      );
       
-      const averageScore = engineResults.length > 0 
-        ? engineResults.reduce((sum, result) => sum + result.weightedScore, 0) / engineResults.length
-        : 0;
+      const queryWeights = engineResults.map(result => getQueryWeight(result.queryMeta));
+
+      const averageScore = weightedMean(engineResults.map(result => result.weightedScore), queryWeights);
 
       const dimensionScores = dimensions.reduce((acc, dim) => {
-        const dimScores = engineResults.map(result => result.scores[dim.name] || 0);
-        const avgDimScore = dimScores.length > 0 
-          ? dimScores.reduce((sum, score) => sum + score, 0) / dimScores.length
-          : 0;
+        // 评分失败的维度没有分数，不参与平均
+        const scoredResults = engineResults.filter(result => result.scores[dim.name] !== undefined);
+        const avgDimScore = weightedMean(
+          scoredResults.map(result => result.scores[dim.name]),
+          scoredResults.map(result => getQueryWeight(result.queryMeta))
+        );
         return { ...acc, [dim.name]: avgDimScore };
       }, {} as Record<string, number>);
 
+      const ruleAuthorityScore = weightedMean(
+        engineResults.map(result => computeAuthorityScore(result.searchResults, domainTiers, scoringSystem)),
+        queryWeights
+      );
+
       const scoreHistory = engineResults
         .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
         .map(result => result.weightedScore);
@@ -93,10 +128,11 @@ export default function SummaryPanel({
         averageScore,
         totalRounds: engineResults.length,
         dimensionScores,
+        ruleAuthorityScore,
         scoreHistory
       };
     });
-  }, [searchEngines, dimensions, evaluationResults]);
+  }, [searchEngines, dimensions, evaluationResults, domainTiers, scoringSystem]);
 
   /**
    * 获取排名最高的搜索引擎
@@ -127,10 +163,10 @@ export default function SummaryPanel({
   }, [evaluationResults, engineStats, searchEngines]);
 
   /**
-   * 渲染分数条形图
+   * 渲染分数条形图（按当前评分制式的分数范围缩放）
    */
-  const renderScoreBar = (score: number, maxScore: number = 5) => {
-    const percentage = (score / maxScore) * 100;
+  const renderScoreBar = (score: number) => {
+    const percentage = normalizeScore(score, scoringSystem) * 100;
     const colorClass = percentage >= 80 ? 'bg-green-500' : 
                       percentage >= 60 ? 'bg-yellow-500' : 'bg-red-500';
     
@@ -173,7 +209,7 @@ export default function SummaryPanel({
     );
   };
 
-  if (evaluationResults.length === 0) {
+  if (!hasScoreResults && pairwiseVerdicts.length === 0) {
     return (
       <div className="p-3 sm:p-6">
         <div className="flex items-center justify-center h-full text-gray-500">
@@ -193,8 +229,13 @@ export default function SummaryPanel({
         {[
           { key: 'overview', label: '总览' },
           
-          { key: 'dimensions', label: '维度分析' }
-        ].map(tab => (
+          { key: 'dimensions', label: '维度分析' },
+          { key: 'breakdown', label: '分类对比' },
+          { key: 'stability', label: '稳定性' },
+          { key: 'significance', label: '显著性' },
+          { key: 'overlap', label: '结果重合' },
+          { key: 'pairwise', label: '两两对比' }
+        ].filter(tab => hasScoreResults || tab.key === 'pairwise').map(tab => (
           <button
             key={tab.key}
             onClick={() => setActiveTab(tab.key as TabKey)}
@@ -264,6 +305,18 @@ export default function SummaryPanel({
               }
             </div>
           </div>
+
+          {/* 排序指标 */}
+          <RankMetricsPanel
+            searchEngines={searchEngines}
+            evaluationResults={evaluationResults}
+          />
+
+          {/* 结果时效分布 */}
+          <FreshnessPanel
+            searchEngines={searchEngines}
+            evaluationResults={evaluationResults}
+          />
         </div>
       )}
 
@@ -289,6 +342,11 @@ export default function SummaryPanel({
                     <div className="w-10 sm:w-12 text-xs sm:text-sm text-gray-900 text-right">
                       {(stat.dimensionScores[dimension.name] || 0).toFixed(1)}
                     </div>
+                    {dimension.name === AUTHORITY_DIMENSION_NAME && (
+                      <div className="w-16 sm:w-20 text-xs text-emerald-700 text-right" title="按域名权威等级表计算的确定性分数">
+                        规则 {stat.ruleAuthorityScore.toFixed(1)}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -296,6 +354,51 @@ export default function SummaryPanel({
           ))}
         </div>
       )}
+
+      {/* 分类对比标签页 */}
+      {activeTab === 'breakdown' && (
+        <BreakdownPanel
+          searchEngines={searchEngines}
+          dimensions={dimensions}
+          evaluationResults={evaluationResults}
+          scoringSystem={scoringSystem}
+        />
+      )}
+
+      {/* 稳定性标签页 */}
+      {activeTab === 'stability' && (
+        <StabilityPanel
+          dimensions={dimensions}
+          evaluationResults={evaluationResults}
+          scoringSystem={scoringSystem}
+        />
+      )}
+
+      {/* 显著性标签页 */}
+      {activeTab === 'significance' && (
+        <SignificancePanel
+          searchEngines={searchEngines}
+          dimensions={dimensions}
+          evaluationResults={evaluationResults}
+        />
+      )}
+
+      {/* 结果重合标签页 */}
+      {activeTab === 'overlap' && (
+        <OverlapPanel
+          searchEngines={searchEngines}
+          evaluationResults={evaluationResults}
+        />
+      )}
+
+      {/* 两两对比标签页 */}
+      {activeTab === 'pairwise' && (
+        <PairwisePanel
+          searchEngines={searchEngines}
+          dimensions={dimensions}
+          pairwiseVerdicts={pairwiseVerdicts}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
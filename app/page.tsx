@@ -1,13 +1,29 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import Link from 'next/link';
 import ConfigPanel from './components/ConfigPanel';
 import ResultsPanel from './components/ResultsPanel';
 import SummaryPanel from './components/SummaryPanel';
 import SettingsModal from './components/SettingsModal';
 import StreamLogsPanel from './components/StreamLogsPanel';
-import type { SearchResultCallback, EvaluationResult, EvaluationProgress } from './services/evaluationService';
+import ExportMenu from './components/ExportMenu';
+import EnvironmentSwitcher from './components/EnvironmentSwitcher';
+import type { SearchResultCallback, EvaluationResult, EvaluationProgress, PairwiseVerdict, SearchEngine, Dimension } from './services/evaluationService';
+import type { CheckpointConfig } from './services/checkpointService';
 import type { SSEMessageCallback } from './types';
+import { DEFAULT_SCORING_SYSTEMS, type ScoringSystem } from './services/scoringService';
+import { DEFAULT_RATE_LIMITS } from './services/schedulerService';
+import { DEFAULT_RETRY_POLICY } from './services/apiService';
+import { DEFAULT_DOMAIN_TIERS, type DomainTierRule } from './services/authorityService';
+import { DEFAULT_ENVIRONMENT, type EnvironmentSettings } from './services/environmentService';
+import { getRun, type SavedRun } from './services/runHistoryService';
+import {
+  mergeImportedResults,
+  parseExportedResults,
+  type ImportedFile,
+  type ImportedResults
+} from './services/resultImportService';
 
 /**
  * 搜索引擎评测工具主页面
@@ -15,12 +31,7 @@ import type { SSEMessageCallback } from './types';
  */
 export default function Home() {
   // 搜索引擎配置状态
-  const [searchEngines, setSearchEngines] = useState([
-    { id: 1, code: 'search_std', name: '智谱基础版搜索引擎' },
-    // { id: 2, code: 'search_pro', name: '智谱高阶版搜索引擎' },
-    { id: 3, code: 'search_pro_sogou', name: '搜狗' },
-    // { id: 4, code: 'search_pro_quark', name: '夸克搜索' },
-  ]);
+  const [searchEngines, setSearchEngines] = useState<SearchEngine[]>(DEFAULT_ENVIRONMENT.searchEngines);
 
   // 评测维度配置
   const [dimensions, setDimensions] = useState([
@@ -31,6 +42,8 @@ export default function Home() {
 
   // 评测结果状态
   const [evaluationResults, setEvaluationResults] = useState<EvaluationResult[]>([]);
+  // 两两对比判定状态
+  const [pairwiseVerdicts, setPairwiseVerdicts] = useState<PairwiseVerdict[]>([]);
   const [isEvaluating, setIsEvaluating] = useState(false);
   
   // 搜索结果状态（用于即时显示）
@@ -94,12 +107,35 @@ const handleSseMessage: SSEMessageCallback = (message, metadata) => {
   // API配置状态（从SettingsModal提升到主页面）
   const [apiConfig, setApiConfig] = useState({
     // 搜索引擎配置
-    websearchUrl: 'https://open.bigmodel.cn/api/paas/v4/web_search',
+    websearchUrl: DEFAULT_ENVIRONMENT.websearchUrl,
     // 评分模型配置
-    apiUrl: 'https://open.bigmodel.cn/api/paas/v4/chat/completions',
+    apiUrl: DEFAULT_ENVIRONMENT.apiUrl,
     apiKey: '',
-    modelKey: 'glm-4-plus'
+    modelKey: DEFAULT_ENVIRONMENT.modelKey,
+    // 请求限流配置
+    rateLimits: DEFAULT_RATE_LIMITS,
+    // 超时与重试配置
+    retryPolicy: DEFAULT_RETRY_POLICY,
+    // 多评委配置（为空时只使用上方模型评分）
+    judges: DEFAULT_ENVIRONMENT.judges
   });
+
+  /**
+   * 切换环境：替换接口地址、评分模型、评委与搜索引擎列表，沿用已填写的API密钥
+   */
+  const applyEnvironment = useCallback((settings: EnvironmentSettings) => {
+    setApiConfig(prev => ({
+      ...prev,
+      websearchUrl: settings.websearchUrl,
+      apiUrl: settings.apiUrl,
+      modelKey: settings.modelKey,
+      judges: settings.judges.map(judge => ({
+        ...judge,
+        apiKey: prev.judges.find(item => item.id === judge.id)?.apiKey
+      }))
+    }));
+    setSearchEngines(settings.searchEngines);
+  }, []);
   
   // 汇总面板折叠状态
   const [isSummaryCollapsed, setIsSummaryCollapsed] = useState(true);
@@ -110,13 +146,112 @@ const handleSseMessage: SSEMessageCallback = (message, metadata) => {
   
   // 评测轮数状态
   const [evaluationRounds, setEvaluationRounds] = useState(3);
+
+  // 域名权威等级表（用于规则权威分与结果等级标记）
+  const [domainTiers, setDomainTiers] = useState<DomainTierRule[]>(DEFAULT_DOMAIN_TIERS);
+
+  // 当前评分制式状态（用于汇总图表缩放）
+  const [scoringSystem, setScoringSystem] = useState<ScoringSystem>(DEFAULT_SCORING_SYSTEMS[0]);
+
+  // 最近一次评测的配置（不含API密钥）与带提示词的维度，用于生成报告
+  const [runSetup, setRunSetup] = useState<{ config: CheckpointConfig; dimensions: Dimension[] } | null>(null);
+
+  // 正在查看的历史评测（通过 ?run=评测ID 打开）
+  const [viewedRun, setViewedRun] = useState<SavedRun | null>(null);
+
+  // 导入的结果文件（多个文件合并为一次对比）
+  const [importedResults, setImportedResults] = useState<ImportedResults | null>(null);
+  const resultFileInputRef = useRef<HTMLInputElement>(null);
+
+  // 查看历史评测或导入结果时，结果面板与汇总面板使用其配置快照与结果
+  const viewedData = viewedRun
+    ? {
+      searchEngines: viewedRun.searchEngines,
+      dimensions: viewedRun.dimensions,
+      results: viewedRun.results,
+      pairwiseVerdicts: viewedRun.pairwiseVerdicts,
+      scoringSystem: viewedRun.config.scoringSystem,
+      rounds: viewedRun.rounds
+    }
+    : importedResults && { ...importedResults, pairwiseVerdicts: [] };
+  const displayedEngines = viewedData ? viewedData.searchEngines : searchEngines;
+  const displayedDimensions = (viewedData ? viewedData.dimensions : dimensions).filter(dim => dim.enabled);
+  const displayedResults = viewedData ? viewedData.results : evaluationResults;
+  const displayedVerdicts = viewedData ? viewedData.pairwiseVerdicts : pairwiseVerdicts;
+  const displayedScoringSystem = viewedData ? viewedData.scoringSystem : scoringSystem;
+  const hasDisplayedResults = displayedResults.length > 0 || displayedVerdicts.length > 0;
+
+  /**
+   * 退出历史评测或导入结果的查看，回到当前评测
+   */
+  const closeViewedRun = () => {
+    setViewedRun(null);
+    setImportedResults(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
+
+  /**
+   * 导入结果文件，多个文件按引擎合并后一起查看
+   */
+  const importResultFiles = async (files: File[]) => {
+    try {
+      const parsedFiles: ImportedFile[] = [];
+      for (const file of files) {
+        const parsed = parseExportedResults(await file.text());
+        if (!parsed.ok) {
+          alert(`导入结果失败（${file.name}）: ${parsed.error}`);
+          return;
+        }
+        parsedFiles.push({ fileName: file.name, results: parsed.value });
+      }
+
+      const merged = mergeImportedResults(parsedFiles, scoringSystem);
+      if (!merged.ok) {
+        alert(`导入结果失败: ${merged.error}`);
+        return;
+      }
+      if (merged.warnings.length > 0) {
+        alert(merged.warnings.join('\n'));
+      }
+      closeViewedRun();
+      setImportedResults(merged.value);
+    } catch (error) {
+      // 文件读取失败（如选择后文件被移动或删除）
+      alert(`导入结果失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
+  // 打开地址中指定的历史评测
+  useEffect(() => {
+    const runId = new URLSearchParams(window.location.search).get('run');
+    if (!runId) return;
+    getRun(runId)
+      .then(run => {
+        if (run) {
+          setViewedRun(run);
+        } else {
+          alert('该历史评测不存在或已被删除');
+          window.history.replaceState(null, '', window.location.pathname);
+        }
+      })
+      .catch(error => console.warn('读取历史评测失败:', error));
+  }, []);
+
+  // 开始新的评测时退出历史评测与导入结果的查看
+  useEffect(() => {
+    if (isEvaluating) {
+      setViewedRun(null);
+      setImportedResults(null);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, [isEvaluating]);
   
   // 当有评测结果时自动展开汇总面板
   useEffect(() => {
-    if (evaluationResults.length > 0 && isSummaryCollapsed) {
+    if (hasDisplayedResults && isSummaryCollapsed) {
       setIsSummaryCollapsed(false);
     }
-  }, [evaluationResults.length, isSummaryCollapsed]);
+  }, [hasDisplayedResults, isSummaryCollapsed]);
 
   // 处理汇总面板高度调整
   const handleResizeStart = (e: React.MouseEvent) => {
@@ -168,15 +303,54 @@ const handleSseMessage: SSEMessageCallback = (message, metadata) => {
             <h1 className="text-2xl font-bold text-gray-900">Z.Eval</h1>
             <p className="text-sm text-gray-600 mt-1">多维度评估搜索引擎结果质量</p>
           </div>
-          <button 
-             onClick={() => setIsSettingsOpen(true)}
-             className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
-           >
-             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
-               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-             </svg>
-           </button>
+          <div className="flex items-center space-x-2">
+            <EnvironmentSwitcher
+              settings={{
+                websearchUrl: apiConfig.websearchUrl,
+                apiUrl: apiConfig.apiUrl,
+                modelKey: apiConfig.modelKey,
+                judges: apiConfig.judges,
+                searchEngines
+              }}
+              onApply={applyEnvironment}
+              disabled={isEvaluating}
+            />
+            <Link
+              href="/runs"
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
+            >
+              历史评测
+            </Link>
+            <button
+              onClick={() => resultFileInputRef.current?.click()}
+              disabled={isEvaluating}
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+              title="导入导出的 JSONL / JSON 结果文件，可多选以合并不同引擎的结果"
+            >
+              导入结果
+            </button>
+            <input
+              ref={resultFileInputRef}
+              type="file"
+              accept=".jsonl,.ndjson,.json"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                if (files.length > 0) importResultFiles(files);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
+          </div>
         </div>
       </header>
 
@@ -190,12 +364,15 @@ const handleSseMessage: SSEMessageCallback = (message, metadata) => {
             isEvaluating={isEvaluating}
             setIsEvaluating={setIsEvaluating}
             setEvaluationResults={setEvaluationResults}
+            setPairwiseVerdicts={setPairwiseVerdicts}
             searchEngines={searchEngines}
             apiConfig={apiConfig}
             onEvaluationRoundsChange={setEvaluationRounds}
+            onScoringSystemChange={setScoringSystem}
             onSearchResult={handleSearchResult}
             onSseMessage={handleSseMessage}
             onEvaluationProgress={handleEvaluationProgress}
+            onRunStart={setRunSetup}
             clearResults={clearResults}
           />
         </div>
@@ -221,14 +398,44 @@ const handleSseMessage: SSEMessageCallback = (message, metadata) => {
         <div className="flex-1 flex flex-col min-h-0">
           {/* 搜索结果展示面板 */}
           <div className="flex-1 overflow-y-auto">
+            {viewedRun && (
+              <div className="mx-3 sm:mx-6 mt-3 sm:mt-6 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between text-sm">
+                <span className="text-amber-800">
+                  正在查看 {new Date(viewedRun.createdAt).toLocaleString()} 的历史评测
+                  （{viewedRun.queries.length} 条查询，{viewedRun.config.modelKey}）
+                </span>
+                <button
+                  onClick={closeViewedRun}
+                  className="text-amber-700 hover:text-amber-900 font-medium"
+                >
+                  返回当前评测
+                </button>
+              </div>
+            )}
+            {importedResults && (
+              <div className="mx-3 sm:mx-6 mt-3 sm:mt-6 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between text-sm">
+                <span className="text-amber-800">
+                  正在查看导入的结果：{importedResults.sources.join('、')}
+                  （{importedResults.queries.length} 条查询，{importedResults.searchEngines.length} 个引擎，{importedResults.scoringSystem.label}）
+                </span>
+                <button
+                  onClick={closeViewedRun}
+                  className="text-amber-700 hover:text-amber-900 font-medium"
+                >
+                  返回当前评测
+                </button>
+              </div>
+            )}
             <ResultsPanel
-              searchEngines={searchEngines}
-              dimensions={dimensions.filter(dim => dim.enabled)}
-              evaluationResults={evaluationResults}
+              searchEngines={displayedEngines}
+              dimensions={displayedDimensions}
+              evaluationResults={displayedResults}
               isEvaluating={isEvaluating}
-              totalRounds={evaluationRounds}
-              searchResults={searchResults}
-              evaluationProgress={evaluationProgress}
+              totalRounds={viewedData ? viewedData.rounds : evaluationRounds}
+              searchResults={viewedData ? [] : searchResults}
+              evaluationProgress={viewedData ? null : evaluationProgress}
+              domainTiers={domainTiers}
+              scoringSystem={displayedScoringSystem}
             />
           </div>
 
@@ -254,35 +461,48 @@ const handleSseMessage: SSEMessageCallback = (message, metadata) => {
             {/* 折叠/展开控制栏 */}
             <div className="flex items-center justify-between px-6 py-3 border-b border-gray-100">
               <h2 className="text-lg font-semibold text-gray-900">汇总统计</h2>
-              <button
-                onClick={() => setIsSummaryCollapsed(!isSummaryCollapsed)}
-                disabled={evaluationResults.length === 0}
-                className={`p-1 rounded-md transition-colors ${
-                  evaluationResults.length === 0
-                    ? 'text-gray-300 cursor-not-allowed'
-                    : 'text-gray-600 hover:text-gray-800 hover:bg-gray-100'
-                }`}
-              >
-                <svg 
-                  className={`w-5 h-5 transition-transform duration-200 ${
-                    isSummaryCollapsed ? 'rotate-0' : 'rotate-180'
-                  }`} 
-                  fill="none" 
-                  stroke="currentColor" 
-                  viewBox="0 0 24 24"
+              <div className="flex items-center space-x-2">
+                <ExportMenu
+                  searchEngines={displayedEngines}
+                  dimensions={viewedData ? viewedData.dimensions : runSetup?.dimensions || dimensions}
+                  evaluationResults={displayedResults}
+                  scoringSystem={displayedScoringSystem}
+                  runConfig={viewedRun ? viewedRun.config : importedResults ? undefined : runSetup?.config}
+                  createdAt={viewedRun?.createdAt}
+                />
+                <button
+                  onClick={() => setIsSummaryCollapsed(!isSummaryCollapsed)}
+                  disabled={!hasDisplayedResults}
+                  className={`p-1 rounded-md transition-colors ${
+                    !hasDisplayedResults
+                      ? 'text-gray-300 cursor-not-allowed'
+                      : 'text-gray-600 hover:text-gray-800 hover:bg-gray-100'
+                  }`}
                 >
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                </svg>
-              </button>
+                  <svg 
+                    className={`w-5 h-5 transition-transform duration-200 ${
+                      isSummaryCollapsed ? 'rotate-0' : 'rotate-180'
+                    }`} 
+                    fill="none" 
+                    stroke="currentColor" 
+                    viewBox="0 0 24 24"
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                  </svg>
+                </button>
+              </div>
             </div>
             
             {/* 汇总内容区域 */}
             {!isSummaryCollapsed && (
               <div className="h-[calc(100%-52px)] overflow-y-auto overflow-x-hidden">
                 <SummaryPanel
-                  searchEngines={searchEngines}
-                  dimensions={dimensions.filter(dim => dim.enabled)}
-                  evaluationResults={evaluationResults}
+                  searchEngines={displayedEngines}
+                  dimensions={displayedDimensions}
+                  evaluationResults={displayedResults}
+                  pairwiseVerdicts={displayedVerdicts}
+                  scoringSystem={displayedScoringSystem}
+                  domainTiers={domainTiers}
                 />
               </div>
             )}
@@ -298,6 +518,8 @@ const handleSseMessage: SSEMessageCallback = (message, metadata) => {
         setSearchEngines={setSearchEngines}
         apiConfig={apiConfig}
         setApiConfig={setApiConfig}
+        domainTiers={domainTiers}
+        setDomainTiers={setDomainTiers}
       />
     </div>
   );
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import RunDiffPanel from '../../components/RunDiffPanel';
+import { listRuns, getRun, type RunRecord, type SavedRun } from '../../services/runHistoryService';
+
+/**
+ * 格式化历史评测的选项文本
+ */
+const describeRun = (run: RunRecord) => (
+  `${new Date(run.createdAt).toLocaleString()} · ${run.queries.length} 条查询 · ${run.searchEngines.map(engine => engine.name).join('/')}`
+);
+
+/**
+ * 评测对比页面
+ * 选择基线评测与新评测（通过 ?baseline=评测ID&candidate=评测ID 指定），展示两者的分数与结果变化
+ */
+export default function CompareRunsPage() {
+  // 可对比的历史评测（只包含绝对评分的评测）
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [baselineId, setBaselineId] = useState('');
+  const [candidateId, setCandidateId] = useState('');
+  const [loadedRuns, setLoadedRuns] = useState<{ baseline: SavedRun; candidate: SavedRun } | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    listRuns()
+      .then(allRuns => {
+        const scoredRuns = allRuns.filter(run => run.mode === 'absolute');
+        setRuns(scoredRuns);
+        // 未指定时默认以上一次评测为基线、最近一次为新评测
+        setBaselineId(params.get('baseline') || scoredRuns[1]?.runId || '');
+        setCandidateId(params.get('candidate') || scoredRuns[0]?.runId || '');
+      })
+      .catch(error => setErrorMessage(`读取历史评测失败: ${error instanceof Error ? error.message : '未知错误'}`));
+  }, []);
+
+  useEffect(() => {
+    if (!baselineId || !candidateId) {
+      setLoadedRuns(null);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([getRun(baselineId), getRun(candidateId)])
+      .then(([baseline, candidate]) => {
+        if (cancelled) return;
+        if (!baseline || !candidate) {
+          setErrorMessage('所选评测不存在或已被删除');
+          setLoadedRuns(null);
+          return;
+        }
+        setErrorMessage('');
+        setLoadedRuns({ baseline, candidate });
+        window.history.replaceState(null, '', `?baseline=${encodeURIComponent(baselineId)}&candidate=${encodeURIComponent(candidateId)}`);
+      })
+      .catch(error => {
+        if (!cancelled) setErrorMessage(`读取历史评测失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [baselineId, candidateId]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 顶部标题栏 */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">评测对比</h1>
+            <p className="text-sm text-gray-600 mt-1">对比基线评测与新评测的分数和结果变化</p>
+          </div>
+          <Link
+            href="/runs"
+            className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            返回历史评测
+          </Link>
+        </div>
+      </header>
+
+      <div className="p-4 sm:p-6 space-y-4 sm:space-y-6">
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[
+            { label: '基线评测', value: baselineId, onChange: setBaselineId },
+            { label: '新评测', value: candidateId, onChange: setCandidateId }
+          ].map(item => (
+            <div key={item.label}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{item.label}</label>
+              <select
+                value={item.value}
+                onChange={(e) => item.onChange(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">请选择</option>
+                {runs.map(run => (
+                  <option key={run.runId} value={run.runId}>{describeRun(run)}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        {errorMessage && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {errorMessage}
+          </div>
+        )}
+
+        {runs.length < 2 && !errorMessage ? (
+          <div className="text-sm text-gray-500">至少需要两次绝对评分的历史评测才能对比</div>
+        ) : loadedRuns && (
+          <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4 sm:p-6">
+            <RunDiffPanel baseline={loadedRuns.baseline} candidate={loadedRuns.candidate} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { listRuns, deleteRun, type RunRecord } from '../services/runHistoryService';
+
+/**
+ * 历史评测页面
+ * 列出本地保存的全部评测，可重新打开到结果面板与汇总面板，或删除不需要的评测
+ */
+export default function RunsPage() {
+  // 历史评测列表（null 表示正在读取）
+  const [runs, setRuns] = useState<RunRecord[] | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    listRuns()
+      .then(setRuns)
+      .catch(error => {
+        setRuns([]);
+        setErrorMessage(`读取历史评测失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      });
+  }, []);
+
+  /**
+   * 删除历史评测
+   */
+  const handleDelete = async (run: RunRecord) => {
+    if (!confirm(`确定要删除 ${new Date(run.createdAt).toLocaleString()} 的评测吗？`)) return;
+    try {
+      await deleteRun(run.runId);
+      setRuns(prev => (prev || []).filter(item => item.runId !== run.runId));
+    } catch (error) {
+      setErrorMessage(`删除失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
+  // 最近一次绝对评分的评测，作为各行「对比」的新评测
+  const latestScoredRun = (runs || []).find(run => run.mode === 'absolute');
+
+  /**
+   * 渲染各引擎的主要分数，最高分加粗
+   */
+  const renderHeadline = (run: RunRecord) => {
+    const scores = run.headline.map(item => item.score).filter((score): score is number => score !== null);
+    const bestScore = scores.length > 1 ? Math.max(...scores) : null;
+
+    return (
+      <div className="space-y-0.5">
+        {run.headline.map(item => (
+          <div key={item.engineId} className="flex justify-between space-x-3">
+            <span className="text-gray-600 truncate">{item.engineName}</span>
+            <span className={item.score !== null && item.score === bestScore ? 'font-semibold text-green-700' : 'text-gray-900'}>
+              {item.score === null
+                ? '-'
+                : run.mode === 'pairwise' ? `${(item.score * 100).toFixed(0)}%` : item.score.toFixed(2)}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 顶部标题栏 */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">历史评测</h1>
+            <p className="text-sm text-gray-600 mt-1">本地保存的评测配置快照与结果</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Link
+              href="/runs/compare"
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
+            >
+              评测对比
+            </Link>
+            <Link
+              href="/"
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
+            >
+              返回评测
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="p-4 sm:p-6">
+        {errorMessage && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {errorMessage}
+          </div>
+        )}
+
+        {runs === null ? (
+          <div className="text-sm text-gray-500">正在读取...</div>
+        ) : runs.length === 0 ? (
+          <div className="text-center text-gray-500 py-12">
+            <div className="text-2xl mb-2">🗂️</div>
+            <p>还没有保存的评测，完成一次评测后会自动保存到这里</p>
+          </div>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-x-auto">
+            <table className="min-w-full text-xs sm:text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200 bg-gray-50">
+                  <th className="py-2 px-4 font-medium">时间</th>
+                  <th className="py-2 px-4 font-medium">方式</th>
+                  <th className="py-2 px-4 font-medium">查询数</th>
+                  <th className="py-2 px-4 font-medium">轮数</th>
+                  <th className="py-2 px-4 font-medium">评分模型</th>
+                  <th className="py-2 px-4 font-medium">主要分数</th>
+                  <th className="py-2 px-4 font-medium">操作</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr key={run.runId} className="border-b border-gray-100 align-top">
+                    <td className="py-3 px-4 text-gray-900 whitespace-nowrap">
+                      {new Date(run.createdAt).toLocaleString()}
+                      {run.status === 'cancelled' && (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-600">已取消</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-gray-700 whitespace-nowrap">
+                      {run.mode === 'pairwise' ? '两两对比（胜率）' : `${run.config.scoringSystem.label}（加权总分）`}
+                    </td>
+                    <td className="py-3 px-4 text-gray-700">{run.queries.length}</td>
+                    <td className="py-3 px-4 text-gray-700">{run.rounds}</td>
+                    <td className="py-3 px-4 text-gray-700">
+                      {run.config.judges && run.config.judges.length > 0
+                        ? run.config.judges.map(judge => judge.name).join('、')
+                        : run.config.modelKey}
+                    </td>
+                    <td className="py-3 px-4 min-w-[12rem]">{renderHeadline(run)}</td>
+                    <td className="py-3 px-4 whitespace-nowrap">
+                      <Link
+                        href={`/?run=${encodeURIComponent(run.runId)}`}
+                        className="text-blue-600 hover:text-blue-800 mr-3"
+                      >
+                        打开
+                      </Link>
+                      {run.mode === 'absolute' && latestScoredRun && latestScoredRun.runId !== run.runId && (
+                        <Link
+                          href={`/runs/compare?baseline=${encodeURIComponent(run.runId)}&candidate=${encodeURIComponent(latestScoredRun.runId)}`}
+                          className="text-blue-600 hover:text-blue-800 mr-3"
+                          title="以该评测为基线，与最近一次评测对比"
+                        >
+                          对比
+                        </Link>
+                      )}
+                      <button
+                        onClick={() => handleDelete(run)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        删除
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
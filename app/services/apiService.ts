@@ -3,6 +3,8 @@
  * 提供WebSearch API和评测API的调用功能
  */
 
+import { formatScoreRange, type ScoringSystem } from './scoringService';
+
 // WebSearch API请求参数接口
 interface WebSearchRequest {
   search_query: string;
@@ -16,16 +18,25 @@ interface WebSearchRequest {
   user_id?: string;
 }
 
+// 单条搜索结果接口（rank 为引擎返回的排名）
+interface SearchResultItem {
+  title: string;
+  url: string;
+  snippet: string;
+  rank: number;
+  publishDate?: string; // 发布时间
+  media?: string; // 来源网站或媒体名称
+  icon?: string; // 来源网站图标
+  content?: string; // 完整正文内容
+  raw?: Record<string, unknown>; // 接口返回的原始结果项
+}
+
 // WebSearch API响应接口
 interface WebSearchResponse {
-  results: Array<{
-    title: string;
-    url: string;
-    snippet: string;
-    rank: number;
-  }>;
+  results: SearchResultItem[];
   total_count: number;
   request_id: string;
+  attempts?: number; // 实际发起的请求次数（含重试）
 }
 
 // 评测API请求参数接口
@@ -54,6 +65,18 @@ interface EvaluationResponse {
     completion_tokens: number;
     total_tokens: number;
   };
+  attempts?: number; // 实际发起的请求次数（含重试）
+}
+
+// API错误类型：鉴权、限流、服务端、网络（含超时）、响应解析、其他客户端错误
+type ApiErrorType = 'auth' | 'rateLimit' | 'server' | 'network' | 'parse' | 'client';
+
+// 重试策略接口
+interface RetryPolicy {
+  maxRetries: number; // 首次请求失败后的最大重试次数
+  timeoutMs: number; // 单次请求超时时间（流式响应为两段数据之间的最长间隔），0 表示不限制
+  baseDelayMs: number; // 指数退避的基础等待时间
+  maxDelayMs: number; // 指数退避的等待时间上限
 }
 
 // API配置接口
@@ -62,175 +85,443 @@ interface ApiConfig {
   evaluationUrl: string;
   apiKey: string;
   modelKey: string;
+  retryPolicy?: RetryPolicy;
+}
+
+// 可重试的错误类型
+const RETRYABLE_ERROR_TYPES: ApiErrorType[] = ['rateLimit', 'server', 'network'];
+
+/**
+ * 默认重试策略
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  timeoutMs: 60 * 1000,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000
+};
+
+/**
+ * API调用错误，携带错误类型与已尝试次数
+ */
+export class ApiError extends Error {
+  type: ApiErrorType;
+  status?: number;
+  attempts: number;
+  retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    type: ApiErrorType,
+    options: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.type = type;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.attempts = 1;
+  }
+}
+
+/**
+ * 判断错误是否由取消请求引起
+ * @param error 捕获的错误
+ * @returns boolean
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * 根据HTTP状态码判断错误类型
+ * @param status HTTP状态码
+ * @returns ApiErrorType
+ */
+function classifyHttpStatus(status: number): ApiErrorType {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rateLimit';
+  if (status === 408) return 'network';
+  if (status >= 500) return 'server';
+  return 'client';
+}
+
+/**
+ * 解析 Retry-After 响应头（支持秒数与HTTP日期两种格式）
+ * @param header 响应头内容
+ * @returns number | undefined 需要等待的毫秒数
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * 根据非成功响应创建API错误
+ * @param apiName 接口名称
+ * @param response HTTP响应
+ * @returns ApiError
+ */
+function createHttpError(apiName: string, response: Response): ApiError {
+  return new ApiError(
+    `${apiName}调用失败: ${response.status} ${response.statusText}`,
+    classifyHttpStatus(response.status),
+    {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+    }
+  );
+}
+
+/**
+ * 将请求过程中捕获的错误归类为API错误
+ * @param apiName 接口名称
+ * @param error 捕获的错误
+ * @param timedOut 是否因超时被中断
+ * @returns ApiError
+ */
+function toApiError(apiName: string, error: unknown, timedOut: boolean): ApiError {
+  if (error instanceof ApiError) return error;
+  if (timedOut) return new ApiError(`${apiName}请求超时`, 'network');
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof SyntaxError) {
+    return new ApiError(`${apiName}响应解析失败: ${message}`, 'parse');
+  }
+  // fetch 在连接失败时抛出 TypeError，其余未知错误也按网络错误处理
+  return new ApiError(`${apiName}网络错误: ${message}`, 'network');
+}
+
+/**
+ * 计算下一次重试前的等待时间
+ * 优先遵循服务端返回的 Retry-After，否则使用带抖动的指数退避
+ * @param policy 重试策略
+ * @param attempt 已失败的尝试次数
+ * @param retryAfterMs 服务端要求的等待时间
+ * @returns number
+ */
+function computeRetryDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+  const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return backoff / 2 + Math.random() * backoff / 2;
+}
+
+/**
+ * 可取消的等待
+ * @param ms 等待毫秒数
+ * @param signal 取消信号
+ * @returns Promise<void>
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 带超时与重试的请求执行器
+ * 每次尝试使用独立的取消控制器：用户取消时立即终止，超时时中断本次尝试并按策略重试
+ * @param apiName 接口名称，用于错误信息
+ * @param policy 重试策略
+ * @param attemptRequest 单次请求函数，keepAlive 用于在收到流式数据时重置超时计时
+ * @param signal 取消信号
+ * @param waitForRetry 重试前的等待函数，用于让每次重试重新经过调度器限流，未提供时直接等待退避时间
+ * @returns Promise<{ value: T; attempts: number }>
+ */
+async function requestWithRetry<T>(
+  apiName: string,
+  policy: RetryPolicy,
+  attemptRequest: (attemptSignal: AbortSignal, keepAlive: () => void) => Promise<T>,
+  signal?: AbortSignal,
+  waitForRetry?: (delayMs: number) => Promise<void>
+): Promise<{ value: T; attempts: number }> {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const keepAlive = () => {
+      if (policy.timeoutMs <= 0) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, policy.timeoutMs);
+    };
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+
+    let apiError: ApiError;
+    try {
+      keepAlive();
+      const value = await attemptRequest(controller.signal, keepAlive);
+      return { value, attempts: attempt };
+    } catch (error) {
+      // 用户取消时不再重试，直接抛出取消错误
+      signal?.throwIfAborted();
+      apiError = toApiError(apiName, error, timedOut);
+      apiError.attempts = attempt;
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+
+    if (attempt > policy.maxRetries || !RETRYABLE_ERROR_TYPES.includes(apiError.type)) {
+      throw apiError;
+    }
+
+    console.warn(`${apiName}第${attempt}次请求失败，准备重试: ${apiError.message}`);
+    const delayMs = computeRetryDelay(policy, attempt, apiError.retryAfterMs);
+    await (waitForRetry ? waitForRetry(delayMs) : wait(delayMs, signal));
+  }
 }
 
 /**
  * WebSearch API调用服务
+ * 请求失败时按重试策略自动重试，最终失败时抛出 ApiError
  * @param config API配置信息
  * @param request 搜索请求参数
+ * @param signal 取消信号
+ * @param waitForRetry 重试前的等待函数（通常为调度器的 reacquire）
  * @returns Promise<WebSearchResponse>
  */
 export async function callWebSearchApi(
   config: ApiConfig,
-  request: WebSearchRequest
+  request: WebSearchRequest,
+  signal?: AbortSignal,
+  waitForRetry?: (delayMs: number) => Promise<void>
 ): Promise<WebSearchResponse> {
-  const options = {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      search_query: request.search_query,
-      search_engine: request.search_engine,
-      search_intent: request.search_intent || false,
-      count: request.count || 10,
-      search_domain_filter: request.search_domain_filter || '',
-      search_recency_filter: request.search_recency_filter || 'noLimit',
-      content_size: request.content_size || 'medium',
-      request_id: request.request_id || generateRequestId(),
-      user_id: request.user_id || 'default_user'
-    })
-  };
+  const body = JSON.stringify({
+    search_query: request.search_query,
+    search_engine: request.search_engine,
+    search_intent: request.search_intent || false,
+    count: request.count || 10,
+    search_domain_filter: request.search_domain_filter || '',
+    search_recency_filter: request.search_recency_filter || 'noLimit',
+    content_size: request.content_size || 'medium',
+    request_id: request.request_id || generateRequestId(),
+    user_id: request.user_id || 'default_user'
+  });
 
   try {
-    const response = await fetch(config.websearchUrl, options);
-    
-    if (!response.ok) {
-      throw new Error(`WebSearch API调用失败: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
+    const { value: data, attempts } = await requestWithRetry(
+      'WebSearch API',
+      config.retryPolicy || DEFAULT_RETRY_POLICY,
+      async (attemptSignal) => {
+        const response = await fetch(config.websearchUrl, {
+          method: 'POST',
+          signal: attemptSignal,
+          headers: {
+            'Authorization': `Bearer ${config.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          body
+        });
+
+        if (!response.ok) {
+          throw createHttpError('WebSearch API', response);
+        }
+
+        return response.json();
+      },
+      signal,
+      waitForRetry
+    );
     
-    // 定义搜索结果项接口
-    interface SearchResultItem {
+    // 定义接口返回的搜索结果项接口
+    interface RawSearchResultItem {
       title?: string;
       url?: string;
+      link?: string;
       snippet?: string;
       content?: string;
+      publish_date?: string;
+      media?: string;
+      icon?: string;
       [key: string]: unknown; // 使用unknown代替any
     }
     
-    // 处理API响应数据结构，将search_result映射到results
+    // 处理API响应数据结构，将search_result映射到results，保留原始结果项
     if (data.search_result && Array.isArray(data.search_result)) {
       return {
-        results: data.search_result.map((item: SearchResultItem, index: number) => ({
+        results: data.search_result.map((item: RawSearchResultItem, index: number): SearchResultItem => ({
           title: item.title || '',
-          url: item.url || '',
+          url: item.url || item.link || '',
           snippet: item.snippet || item.content || '',
-          rank: index + 1
+          rank: index + 1,
+          publishDate: item.publish_date || undefined,
+          media: item.media || undefined,
+          icon: item.icon || undefined,
+          content: item.content || undefined,
+          raw: item
         })),
         total_count: data.search_result.length,
-        request_id: data.request_id || data.id || ''
+        request_id: data.request_id || data.id || '',
+        attempts
       };
     }
     
     // 如果已经是期望的格式，直接返回
-    return data;
+    return { ...data, attempts };
   } catch (error) {
-    console.error('WebSearch API调用错误:', error);
+    if (!isAbortError(error)) {
+      console.error('WebSearch API调用错误:', error);
+    }
     throw error;
   }
 }
 
 /**
  * 评测API调用服务
+ * 请求失败时按重试策略自动重试，最终失败时抛出 ApiError
  * @param config API配置信息
  * @param request 评测请求参数
  * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号，触发时中断请求并关闭SSE读取
+ * @param waitForRetry 重试前的等待函数（通常为调度器的 reacquire）
  * @returns Promise<EvaluationResponse>
  */
 export async function callEvaluationApi(
   config: ApiConfig,
   request: EvaluationRequest,
-  onSseMessage?: (message: string) => void
+  onSseMessage?: (message: string) => void,
+  signal?: AbortSignal,
+  waitForRetry?: (delayMs: number) => Promise<void>
 ): Promise<EvaluationResponse> {
   const useStream = request.stream || !!onSseMessage;
   
-  const options = {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      model: config.modelKey,
-      messages: request.messages,
-      temperature: request.temperature || 0.6,
-      max_tokens: request.max_tokens || 4000,
-      stream: useStream
-    })
-  };
+  const body = JSON.stringify({
+    model: config.modelKey,
+    messages: request.messages,
+    temperature: request.temperature || 0.6,
+    max_tokens: request.max_tokens || 4000,
+    stream: useStream
+  });
 
   try {
-    const response = await fetch(config.evaluationUrl, options);
-    
-    if (!response.ok) {
-      throw new Error(`评测API调用失败: ${response.status} ${response.statusText}`);
-    }
-    
-    // 处理流式响应
-    if (useStream && onSseMessage) {
-      // 创建一个合并后的响应对象
-      const mergedResponse: EvaluationResponse = {
-        choices: [{
-          message: {
-            role: 'assistant',
-            content: ''
+    const { value, attempts } = await requestWithRetry(
+      '评测API',
+      config.retryPolicy || DEFAULT_RETRY_POLICY,
+      async (attemptSignal, keepAlive): Promise<EvaluationResponse> => {
+        const response = await fetch(config.evaluationUrl, {
+          method: 'POST',
+          signal: attemptSignal,
+          headers: {
+            'Authorization': `Bearer ${config.apiKey}`,
+            'Content-Type': 'application/json'
           },
-          finish_reason: 'stop'
-        }],
-        usage: {
-          prompt_tokens: 0,
-          completion_tokens: 0,
-          total_tokens: 0
+          body
+        });
+
+        if (!response.ok) {
+          throw createHttpError('评测API', response);
         }
-      };
-      
-      // 处理SSE流
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          const chunk = decoder.decode(value, { stream: true });
-          // 回调SSE消息
-          onSseMessage(chunk);
-          
-          // 解析并合并内容
+
+        // 处理非流式响应
+        if (!useStream || !onSseMessage) {
+          return response.json();
+        }
+
+        // 处理流式响应，创建一个合并后的响应对象
+        const mergedResponse: EvaluationResponse = {
+          choices: [{
+            message: {
+              role: 'assistant',
+              content: ''
+            },
+            finish_reason: 'stop'
+          }],
+          usage: {
+            prompt_tokens: 0,
+            completion_tokens: 0,
+            total_tokens: 0
+          }
+        };
+
+        // 处理SSE流
+        const reader = response.body?.getReader();
+        const decoder = new TextDecoder();
+
+        if (reader) {
+          // 取消或超时时主动关闭SSE读取，避免连接继续占用
+          const cancelReader = () => {
+            reader.cancel().catch(() => undefined);
+          };
+          attemptSignal.addEventListener('abort', cancelReader);
+
           try {
-            // 处理多行SSE数据
-            const lines = chunk.split('\n').filter(line => line.trim().startsWith('data:'));
-            for (const line of lines) {
-              const jsonStr = line.replace(/^data: /, '').trim();
-              if (jsonStr === '[DONE]') continue;
-              
+            while (true) {
+              const { done, value } = await reader.read();
+              if (done) break;
+              // 收到数据即视为连接活跃，重置超时计时
+              keepAlive();
+
+              const chunk = decoder.decode(value, { stream: true });
+              // 回调SSE消息
+              onSseMessage(chunk);
+
+              // 解析并合并内容
               try {
-                const data = JSON.parse(jsonStr);
-                if (data.choices && data.choices[0]?.delta?.content) {
-                  mergedResponse.choices[0].message.content += data.choices[0].delta.content;
+                // 处理多行SSE数据
+                const lines = chunk.split('\n').filter(line => line.trim().startsWith('data:'));
+                for (const line of lines) {
+                  const jsonStr = line.replace(/^data: /, '').trim();
+                  if (jsonStr === '[DONE]') continue;
+
+                  try {
+                    const data = JSON.parse(jsonStr);
+                    if (data.choices && data.choices[0]?.delta?.content) {
+                      mergedResponse.choices[0].message.content += data.choices[0].delta.content;
+                    }
+                  } catch (_) {
+                    // 忽略解析错误
+                  }
                 }
               } catch (_) {
                 // 忽略解析错误
               }
             }
-          } catch (_) {
-            // 忽略解析错误
+          } finally {
+            attemptSignal.removeEventListener('abort', cancelReader);
           }
+
+          // reader.cancel() 会使 read() 正常结束，此处需要显式抛出取消错误
+          attemptSignal.throwIfAborted();
         }
-      }
-      
-      return mergedResponse;
-    }
-    
-    // 处理非流式响应
-    const data = await response.json();
-    return data;
+
+        return mergedResponse;
+      },
+      signal,
+      waitForRetry
+    );
+
+    return { ...value, attempts };
   } catch (error) {
-    console.error('评测API调用错误:', error);
+    if (!isAbortError(error)) {
+      console.error('评测API调用错误:', error);
+    }
     throw error;
   }
 }
@@ -243,6 +534,26 @@ function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * 格式化提交给评委的搜索结果列表，有来源与发布时间时一并列出
+ * @param searchResults 搜索结果
+ * @returns string
+ */
+function formatSearchResults(searchResults: SearchResultItem[]): string {
+  return searchResults
+    .map((result, index) => {
+      const lines = [
+        `${index + 1}. 标题: ${result.title}`,
+        `   链接: ${result.url}`,
+        ...(result.media ? [`   来源: ${result.media}`] : []),
+        ...(result.publishDate ? [`   发布时间: ${result.publishDate}`] : []),
+        `   摘要: ${result.snippet}`
+      ];
+      return `${lines.join('\n')}\n`;
+    })
+    .join('\n');
+}
+
 /**
  * 构建评测提示词
  * @param query 用户查询
@@ -253,22 +564,22 @@ function generateRequestId(): string {
  */
 export function buildEvaluationPrompt(
   query: string,
-  searchResults: Array<{ title: string; url: string; snippet: string; rank: number }>,
+  searchResults: SearchResultItem[],
   dimensionPrompt: string,
-  scoringSystem: 'binary' | 'fivePoint'
+  scoringSystem: ScoringSystem
 ): string {
   // 检查searchResults是否为空或undefined
   if (!searchResults || !Array.isArray(searchResults) || searchResults.length === 0) {
     throw new Error('搜索结果为空或无效，无法生成评测提示词');
   }
   
-  const resultsText = searchResults
-    .map((result, index) => 
-      `${index + 1}. 标题: ${result.title}\n   链接: ${result.url}\n   摘要: ${result.snippet}\n`
-    )
-    .join('\n');
+  const resultsText = formatSearchResults(searchResults);
 
-  const scoreRange = scoringSystem === 'binary' ? '0-2分' : '1-5分';
+  const scoreRange = formatScoreRange(scoringSystem);
+  const stepText = scoringSystem.step === 1 ? '整数' : `${scoringSystem.step} 的整数倍`;
+  const levelsText = scoringSystem.levels && scoringSystem.levels.length > 0
+    ? `\n评分档位：\n${scoringSystem.levels.map(level => `${level.score}分：${level.description}`).join('\n')}\n`
+    : '';
   
   return `你是一个专业的搜索引擎评测专家。请按照以下要求对搜索结果进行评分：
 
@@ -278,17 +589,119 @@ export function buildEvaluationPrompt(
 ${resultsText}
 
 评测维度：${dimensionPrompt}
+${levelsText}
+请严格按照以下JSON格式输出你的评测结果，不要输出JSON以外的任何内容：
 
-请按照以下结构化格式输出你的评测结果：
+{
+  "rationale": "[请从评测维度的角度详细评价搜索结果，说明评分理由]",
+  "score": [评分范围为${scoreRange}的数字]
+}
 
-## 评测分析
-[请从${dimensionPrompt}的角度详细评价搜索结果，说明评分理由]
+注意：score 必须是${scoreRange}范围内的${stepText}，rationale 必须是字符串。`;
+}
 
-## 得分结果
-评分范围：${scoreRange}
-最终得分：[具体数字分数]
+/**
+ * 构建逐条判定提示词
+ * @param query 用户查询
+ * @param searchResults 搜索结果
+ * @param dimensionName 维度名称
+ * @param dimensionPrompt 维度提示词
+ * @returns string
+ */
+export function buildPerResultEvaluationPrompt(
+  query: string,
+  searchResults: SearchResultItem[],
+  dimensionName: string,
+  dimensionPrompt: string
+): string {
+  // 检查searchResults是否为空或undefined
+  if (!searchResults || !Array.isArray(searchResults) || searchResults.length === 0) {
+    throw new Error('搜索结果为空或无效，无法生成评测提示词');
+  }
+
+  const resultsText = formatSearchResults(searchResults);
+
+  const judgmentLines = searchResults
+    .map((_, index) => `    { "rank": ${index + 1}, "grade": [0/1/2] }`)
+    .join(',\n');
+
+  return `你是一个专业的搜索引擎评测专家。请按照以下要求对每一条搜索结果分别进行判定：
+
+查询内容：${query}
+
+搜索结果：
+${resultsText}
+
+评测维度：${dimensionName}
+维度说明：${dimensionPrompt}
+
+判定等级：
+2：高度符合${dimensionName}要求
+1：部分符合${dimensionName}要求
+0：不符合${dimensionName}要求
+
+请严格按照以下JSON格式输出你的评测结果，不要输出JSON以外的任何内容：
+
+{
+  "rationale": "[请逐条简要说明判定理由]",
+  "labels": [
+${judgmentLines}
+  ]
+}
+
+注意：labels 必须包含全部${searchResults.length}条结果，rank 为结果序号，grade 只能是0、1、2中的一个数字，不要给出总分。`;
+}
+
+/**
+ * 构建两两对比提示词
+ * @param query 用户查询
+ * @param resultsA 结果列表A
+ * @param resultsB 结果列表B
+ * @param dimensionName 维度名称
+ * @param dimensionPrompt 维度提示词
+ * @returns string
+ */
+export function buildPairwiseComparisonPrompt(
+  query: string,
+  resultsA: SearchResultItem[],
+  resultsB: SearchResultItem[],
+  dimensionName: string,
+  dimensionPrompt: string
+): string {
+  if (resultsA.length === 0 || resultsB.length === 0) {
+    throw new Error('搜索结果为空或无效，无法生成对比提示词');
+  }
+
+  return `你是一个专业的搜索引擎评测专家。请对比同一查询下的两组搜索结果，判断哪一组更好：
+
+查询内容：${query}
+
+结果列表A：
+${formatSearchResults(resultsA)}
+
+结果列表B：
+${formatSearchResults(resultsB)}
+
+评测维度：${dimensionName}
+维度说明：${dimensionPrompt}
+
+请严格按照以下JSON格式输出你的评测结果，不要输出JSON以外的任何内容：
+
+{
+  "rationale": "[请从评测维度的角度对比两组结果，说明判断理由]",
+  "winner": "[A、B 或 tie]"
+}
 
-注意：最终得分必须是${scoreRange}范围内的数字，请确保在"最终得分："后面给出明确的数字分数。`;
+注意：winner 只能是 "A"、"B" 或 "tie"（两组相当），不要因为列表的先后顺序产生偏好。`;
 }
 
-export type { WebSearchRequest, WebSearchResponse, EvaluationRequest, EvaluationResponse, ApiConfig };
\ No newline at end of file
+export type {
+  WebSearchRequest,
+  WebSearchResponse,
+  SearchResultItem,
+  EvaluationRequest,
+  EvaluationResponse,
+  ApiConfig,
+  ApiErrorType,
+  RetryPolicy
+};
\ No newline at end of file
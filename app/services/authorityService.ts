@@ -0,0 +1,234 @@
+/**
+ * 域名权威等级模块
+ * 维护域名权威等级表，并据此由结果链接计算确定性的规则权威分，与模型给出的权威性评分对照
+ */
+
+import type { ScoringSystem } from './scoringService';
+
+// 权威等级：1 官方/政府/教育机构，2 百科与主流媒体，3 专业社区与垂直平台
+type AuthorityTier = 1 | 2 | 3;
+
+// 域名等级规则（pattern 为域名后缀，匹配该域名及其全部子域名）
+interface DomainTierRule {
+  pattern: string;
+  tier: AuthorityTier;
+  note?: string;
+}
+
+// 导出的等级表文件格式
+interface DomainTierFile {
+  version: number;
+  rules: DomainTierRule[];
+}
+
+/**
+ * 与规则权威分对照的模型评分维度名称
+ */
+export const AUTHORITY_DIMENSION_NAME = '权威性';
+
+/**
+ * 各等级的显示文本
+ */
+export const AUTHORITY_TIER_LABELS: Record<AuthorityTier, string> = {
+  1: '一级·官方',
+  2: '二级·百科媒体',
+  3: '三级·专业社区'
+};
+
+// 各等级的权威值，未收录的域名为0
+const TIER_VALUES: Record<AuthorityTier, number> = {
+  1: 1,
+  2: 0.6,
+  3: 0.3
+};
+
+// 导出文件的格式版本
+const DOMAIN_TIER_FILE_VERSION = 1;
+
+/**
+ * 默认域名等级表
+ */
+export const DEFAULT_DOMAIN_TIERS: DomainTierRule[] = [
+  { pattern: 'gov.cn', tier: 1, note: '政府机构' },
+  { pattern: 'edu.cn', tier: 1, note: '教育机构' },
+  { pattern: 'ac.cn', tier: 1, note: '科研机构' },
+  { pattern: 'org.cn', tier: 1, note: '非营利组织' },
+  { pattern: 'gov', tier: 1, note: '政府机构' },
+  { pattern: 'edu', tier: 1, note: '教育机构' },
+  { pattern: 'who.int', tier: 1, note: '世界卫生组织' },
+  { pattern: 'un.org', tier: 1, note: '联合国' },
+  { pattern: 'baike.baidu.com', tier: 2, note: '百度百科' },
+  { pattern: 'baike.sogou.com', tier: 2, note: '搜狗百科' },
+  { pattern: 'wikipedia.org', tier: 2, note: '维基百科' },
+  { pattern: 'people.com.cn', tier: 2, note: '人民网' },
+  { pattern: 'xinhuanet.com', tier: 2, note: '新华网' },
+  { pattern: 'news.cn', tier: 2, note: '新华网' },
+  { pattern: 'cctv.com', tier: 2, note: '央视网' },
+  { pattern: 'chinanews.com.cn', tier: 2, note: '中国新闻网' },
+  { pattern: 'thepaper.cn', tier: 2, note: '澎湃新闻' },
+  { pattern: 'caixin.com', tier: 2, note: '财新网' },
+  { pattern: 'reuters.com', tier: 2, note: '路透社' },
+  { pattern: 'bbc.com', tier: 2, note: 'BBC' },
+  { pattern: 'zhihu.com', tier: 3, note: '知乎' },
+  { pattern: 'csdn.net', tier: 3, note: 'CSDN' },
+  { pattern: 'github.com', tier: 3, note: 'GitHub' },
+  { pattern: 'stackoverflow.com', tier: 3, note: 'Stack Overflow' },
+  { pattern: 'dxy.cn', tier: 3, note: '丁香园' }
+];
+
+/**
+ * 规范化域名后缀：去掉协议、路径、www 前缀与首尾的点，统一小写
+ * @param pattern 用户输入的域名后缀
+ * @returns string
+ */
+export function normalizeDomainPattern(pattern: string): string {
+  return pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/\/.*$/, '')
+    .replace(/^www\./, '')
+    .replace(/^\.+|\.+$/g, '');
+}
+
+/**
+ * 查找链接对应的等级规则，多条规则匹配时取后缀最长（最具体）的规则
+ * @param url 结果链接
+ * @param rules 域名等级表
+ * @returns DomainTierRule | null
+ */
+export function matchDomainTier(url: string, rules: DomainTierRule[]): DomainTierRule | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+
+  return rules
+    .map(rule => ({ rule, pattern: normalizeDomainPattern(rule.pattern) }))
+    .filter(({ pattern }) => pattern && (host === pattern || host.endsWith(`.${pattern}`)))
+    .sort((a, b) => b.pattern.length - a.pattern.length)[0]?.rule || null;
+}
+
+/**
+ * 计算结果列表的权威指数（0-1）：按排名折损加权平均各结果的等级权威值
+ * @param searchResults 搜索结果
+ * @param rules 域名等级表
+ * @returns number
+ */
+export function computeAuthorityIndex(
+  searchResults: Array<{ url: string; rank: number }>,
+  rules: DomainTierRule[]
+): number {
+  if (searchResults.length === 0) return 0;
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const result of searchResults) {
+    const weight = 1 / Math.log2(result.rank + 1);
+    const rule = matchDomainTier(result.url, rules);
+    weightedSum += weight * (rule ? TIER_VALUES[rule.tier] : 0);
+    totalWeight += weight;
+  }
+  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+}
+
+/**
+ * 计算规则权威分：将权威指数换算到评分制式的分数范围，并取最接近的合法分数
+ * @param searchResults 搜索结果
+ * @param rules 域名等级表
+ * @param scoringSystem 评分制式
+ * @returns number
+ */
+export function computeAuthorityScore(
+  searchResults: Array<{ url: string; rank: number }>,
+  rules: DomainTierRule[],
+  scoringSystem: ScoringSystem
+): number {
+  const { minScore, maxScore, step } = scoringSystem;
+  const raw = minScore + computeAuthorityIndex(searchResults, rules) * (maxScore - minScore);
+  const snapped = minScore + Math.round((raw - minScore) / step) * step;
+  return Math.min(maxScore, Math.max(minScore, Number(snapped.toFixed(6))));
+}
+
+/**
+ * 验证域名等级表
+ * @param rules 域名等级表
+ * @returns { isValid: boolean; errors: string[] }
+ */
+export function validateDomainTiers(rules: DomainTierRule[]): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  rules.forEach((rule, index) => {
+    if (!normalizeDomainPattern(rule.pattern)) {
+      errors.push(`第${index + 1}条规则的域名不能为空`);
+    }
+    if (![1, 2, 3].includes(rule.tier)) {
+      errors.push(`第${index + 1}条规则的等级必须是 1、2、3 之一`);
+    }
+  });
+
+  const patterns = rules.map(rule => normalizeDomainPattern(rule.pattern)).filter(Boolean);
+  if (new Set(patterns).size !== patterns.length) {
+    errors.push('域名等级表中存在重复的域名');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * 导出域名等级表为 JSON 文本
+ * @param rules 域名等级表
+ * @returns string
+ */
+export function exportDomainTiers(rules: DomainTierRule[]): string {
+  const file: DomainTierFile = { version: DOMAIN_TIER_FILE_VERSION, rules };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * 解析导入的域名等级表，支持导出格式或直接的规则数组
+ * @param text 文件内容
+ * @returns { ok: true; value: DomainTierRule[] } | { ok: false; error: string }
+ */
+export function parseDomainTiers(text: string): { ok: true; value: DomainTierRule[] } | { ok: false; error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: '文件不是合法的 JSON' };
+  }
+
+  const rawRules = Array.isArray(data) ? data : (data as Partial<DomainTierFile> | null)?.rules;
+  if (!Array.isArray(rawRules)) {
+    return { ok: false, error: '文件中缺少 rules 数组' };
+  }
+
+  const rules: DomainTierRule[] = [];
+  for (const [index, item] of rawRules.entries()) {
+    const record = item as Partial<DomainTierRule> | null;
+    if (!record || typeof record.pattern !== 'string' || typeof record.tier !== 'number') {
+      return { ok: false, error: `第${index + 1}条规则必须包含字符串类型的 pattern 和数字类型的 tier` };
+    }
+    rules.push({
+      pattern: normalizeDomainPattern(record.pattern),
+      tier: record.tier as AuthorityTier,
+      ...(typeof record.note === 'string' && record.note ? { note: record.note } : {})
+    });
+  }
+
+  const validation = validateDomainTiers(rules);
+  if (!validation.isValid) {
+    return { ok: false, error: validation.errors.join('；') };
+  }
+  return { ok: true, value: rules };
+}
+
+export type { AuthorityTier, DomainTierRule };
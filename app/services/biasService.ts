@@ -0,0 +1,154 @@
+/**
+ * 评委偏差控制模块
+ * 提供结果顺序打乱、引擎身份隐藏等控制位置偏差与品牌偏差的功能
+ */
+
+import { deriveSeed, shuffleWithSeed } from './randomService';
+import type { ResultJudgment } from './scoringService';
+
+// 偏差控制配置接口
+interface BiasControls {
+  shuffleResults: boolean; // 按种子打乱提交给评委的结果顺序
+  anonymizeEngines: boolean; // 隐藏链接与文本中的引擎身份信息
+  swapPairwiseOrder: boolean; // 两两对比时交换A/B顺序各评一次，只采纳一致的判定
+  seed: number; // 基础随机种子
+}
+
+// 提交给评委的搜索结果（rank 保留引擎原始排名）
+interface PresentedResult {
+  title: string;
+  url: string;
+  snippet: string;
+  rank: number;
+  media?: string;
+}
+
+/**
+ * 默认偏差控制配置（全部关闭）
+ */
+export const DEFAULT_BIAS_CONTROLS: BiasControls = {
+  shuffleResults: false,
+  anonymizeEngines: false,
+  swapPairwiseOrder: false,
+  seed: 0
+};
+
+// 跳转链接中可能携带真实目标地址的参数名
+const REDIRECT_PARAMS = ['url', 'u', 'target', 'q'];
+
+// 替换引擎名称时使用的占位文本
+const ENGINE_PLACEHOLDER = '***';
+
+/**
+ * 去除链接中的引擎痕迹：跳转链接还原为目标地址，并去掉查询参数与锚点
+ * @param url 原始链接
+ * @returns string
+ */
+function anonymizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  for (const param of REDIRECT_PARAMS) {
+    const target = parsed.searchParams.get(param);
+    if (target && /^https?:\/\//i.test(target)) {
+      return anonymizeUrl(target);
+    }
+  }
+  return `${parsed.origin}${parsed.pathname}`;
+}
+
+/**
+ * 将文本中出现的引擎名称替换为占位文本
+ * @param text 原始文本
+ * @param engineNames 需要隐藏的引擎名称
+ * @returns string
+ */
+function maskEngineNames(text: string, engineNames: string[]): string {
+  return engineNames
+    .filter(name => name.trim())
+    .reduce((masked, name) => masked.split(name).join(ENGINE_PLACEHOLDER), text);
+}
+
+/**
+ * 计算某条评测结果的打乱种子，同一（查询, 引擎, 轮次）在各维度使用相同顺序
+ * @param controls 偏差控制配置
+ * @param query 查询内容
+ * @param engineId 引擎ID
+ * @param round 评测轮次
+ * @returns number | undefined 未启用打乱时返回 undefined
+ */
+export function getShuffleSeed(
+  controls: BiasControls | undefined,
+  query: string,
+  engineId: number,
+  round: number
+): number | undefined {
+  if (!controls?.shuffleResults) return undefined;
+  return deriveSeed(controls.seed, query, engineId, round);
+}
+
+/**
+ * 生成提交给评委的搜索结果：按需打乱顺序并隐藏引擎身份
+ * @param results 引擎返回的搜索结果
+ * @param controls 偏差控制配置
+ * @param shuffleSeed 打乱种子，未提供时保持原顺序
+ * @param engineNames 需要隐藏的引擎名称与代码
+ * @returns T[]
+ */
+export function presentResults<T extends PresentedResult>(
+  results: T[],
+  controls: BiasControls | undefined,
+  shuffleSeed: number | undefined,
+  engineNames: string[]
+): T[] {
+  const ordered = shuffleSeed === undefined ? results : shuffleWithSeed(results, shuffleSeed);
+  if (!controls?.anonymizeEngines) return ordered;
+
+  return ordered.map(result => ({
+    ...result,
+    title: maskEngineNames(result.title, engineNames),
+    url: anonymizeUrl(result.url),
+    snippet: maskEngineNames(result.snippet, engineNames),
+    // 来源名称会写入提示词，引擎自有站点（如搜狗百科）同样需要隐藏
+    ...(result.media !== undefined ? { media: maskEngineNames(result.media, engineNames) } : {})
+  }));
+}
+
+/**
+ * 将评委按提交顺序给出的逐条判定还原为引擎原始排名
+ * @param judgments 逐条判定（rank 为提交给评委时的序号）
+ * @param presented 提交给评委的搜索结果
+ * @returns ResultJudgment[] 按原始排名排列
+ */
+export function restoreJudgmentRanks(judgments: ResultJudgment[], presented: PresentedResult[]): ResultJudgment[] {
+  return judgments
+    .map(judgment => ({ ...judgment, rank: presented[judgment.rank - 1]?.rank ?? judgment.rank }))
+    .sort((a, b) => a.rank - b.rank);
+}
+
+/**
+ * 验证偏差控制配置
+ * @param controls 偏差控制配置
+ * @returns { isValid: boolean; errors: string[] }
+ */
+export function validateBiasControls(controls: BiasControls): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(controls.seed) || controls.seed < 0 || controls.seed > 0xFFFFFFFF) {
+    errors.push('随机种子必须是 0 到 4294967295 之间的整数');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+export type { BiasControls, PresentedResult };
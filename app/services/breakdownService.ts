@@ -0,0 +1,123 @@
+/**
+ * 分组对比模块
+ * 按查询分类或标签分组，汇总各引擎在每组内的加权总分与各维度分数
+ */
+
+import { getQueryWeight, type QueryMeta } from './querySetService';
+import { weightedMean } from './statisticsService';
+
+// 参与分组的评测记录（只依赖评测结果中的必要字段）
+interface GroupedResultRecord {
+  query: string;
+  engineId: number;
+  scores: Record<string, number>;
+  weightedScore: number;
+  queryMeta?: QueryMeta;
+}
+
+// 分组方式
+type BreakdownKey = 'category' | 'tag';
+
+// 单个引擎在组内的汇总
+interface EngineGroupStats {
+  engineId: number;
+  engineName: string;
+  averageScore: number;
+  dimensionScores: Record<string, number | null>; // 组内没有该维度分数时为 null
+  resultCount: number;
+}
+
+// 单个分组的汇总
+interface GroupBreakdown {
+  group: string;
+  queryCount: number;
+  engines: EngineGroupStats[];
+}
+
+/**
+ * 未设置分类或标签时的分组名称
+ */
+export const UNGROUPED_LABEL = '未分类';
+
+/**
+ * 获取评测记录所属的分组：按分类时每条记录属于一组，按标签时属于其全部标签
+ * @param meta 查询元数据
+ * @param groupBy 分组方式
+ * @returns string[]
+ */
+function getGroups(meta: QueryMeta | undefined, groupBy: BreakdownKey): string[] {
+  if (groupBy === 'category') {
+    return [meta?.category || UNGROUPED_LABEL];
+  }
+  return meta && meta.tags.length > 0 ? meta.tags : [UNGROUPED_LABEL];
+}
+
+/**
+ * 判断评测结果中是否带有可分组的元数据
+ * @param results 评测结果
+ * @param groupBy 分组方式
+ * @returns boolean
+ */
+export function hasGroupMeta(results: GroupedResultRecord[], groupBy: BreakdownKey): boolean {
+  return results.some(result => getGroups(result.queryMeta, groupBy)[0] !== UNGROUPED_LABEL);
+}
+
+/**
+ * 按分类或标签汇总各引擎的分数（组内各轮按查询权重加权平均，全部维度失败的轮次不参与统计）
+ * 分组按查询数从多到少排列，未分类的组排在最后
+ * @param results 评测结果
+ * @param engines 搜索引擎列表
+ * @param dimensionNames 维度名称列表
+ * @param groupBy 分组方式
+ * @returns GroupBreakdown[]
+ */
+export function summarizeByGroup(
+  results: GroupedResultRecord[],
+  engines: Array<{ id: number; name: string }>,
+  dimensionNames: string[],
+  groupBy: BreakdownKey
+): GroupBreakdown[] {
+  const grouped = new Map<string, GroupedResultRecord[]>();
+  for (const result of results) {
+    if (Object.keys(result.scores).length === 0) continue;
+    for (const group of getGroups(result.queryMeta, groupBy)) {
+      grouped.set(group, [...(grouped.get(group) || []), result]);
+    }
+  }
+
+  const breakdowns = Array.from(grouped.entries()).map(([group, groupResults]) => ({
+    group,
+    queryCount: new Set(groupResults.map(result => result.query)).size,
+    engines: engines.map(engine => {
+      const engineResults = groupResults.filter(result => result.engineId === engine.id);
+      const dimensionScores = Object.fromEntries(dimensionNames.map(dimensionName => {
+        const scored = engineResults.filter(result => result.scores[dimensionName] !== undefined);
+        return [
+          dimensionName,
+          scored.length > 0
+            ? weightedMean(scored.map(result => result.scores[dimensionName]), scored.map(result => getQueryWeight(result.queryMeta)))
+            : null
+        ];
+      }));
+
+      return {
+        engineId: engine.id,
+        engineName: engine.name,
+        averageScore: weightedMean(
+          engineResults.map(result => result.weightedScore),
+          engineResults.map(result => getQueryWeight(result.queryMeta))
+        ),
+        dimensionScores,
+        resultCount: engineResults.length
+      };
+    })
+  }));
+
+  return breakdowns.sort((a, b) => {
+    if (a.group === UNGROUPED_LABEL) return 1;
+    if (b.group === UNGROUPED_LABEL) return -1;
+    return b.queryCount - a.queryCount || a.group.localeCompare(b.group);
+  });
+}
+
+export type { GroupedResultRecord, BreakdownKey, EngineGroupStats, GroupBreakdown };
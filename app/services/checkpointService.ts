@@ -0,0 +1,257 @@
+/**
+ * 评测检查点模块
+ * 将批量评测中已完成的评分单元与搜索结果保存到IndexedDB，支持页面刷新后继续评测
+ */
+
+import {
+  STORES,
+  putRecord,
+  getAllRecords,
+  getRecordsByIndex,
+  deleteRecord,
+  deleteRecordsByIndex
+} from './dbService';
+import type { WebSearchResponse } from './apiService';
+import type {
+  Dimension,
+  DimensionScore,
+  EvaluationCheckpoint,
+  EvaluationConfig,
+  SearchEngine
+} from './evaluationService';
+
+// 检查点中保存的评测配置（不保存API密钥，评委密钥同样不保存）
+type CheckpointConfig = Omit<EvaluationConfig, 'modelApiKey'>;
+
+// 检查点评测任务接口
+interface CheckpointRun {
+  runId: string;
+  queries: string[];
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  config: CheckpointConfig;
+  rounds: number;
+  createdAt: string;
+}
+
+// 已完成评分单元记录
+interface CheckpointUnitRecord {
+  id: string;
+  runId: string;
+  query: string;
+  engineId: number;
+  round: number;
+  dimensionName: string;
+  value: DimensionScore;
+}
+
+// 已缓存搜索结果记录
+interface CheckpointSearchRecord {
+  id: string;
+  runId: string;
+  query: string;
+  engineId: number;
+  searchResponse: WebSearchResponse;
+}
+
+// 可恢复评测的摘要信息
+interface CheckpointSummary {
+  run: CheckpointRun;
+  completedUnits: number;
+  totalUnits: number;
+}
+
+// 绑定到具体评测任务的检查点
+interface RunCheckpoint extends EvaluationCheckpoint {
+  runId: string;
+}
+
+/**
+ * 生成评分单元在检查点内的键
+ * @param query 查询内容
+ * @param engineId 搜索引擎ID
+ * @param round 评测轮次
+ * @param dimensionName 维度名称
+ * @returns string
+ */
+function unitKey(query: string, engineId: number, round: number, dimensionName: string): string {
+  return JSON.stringify([query, engineId, round, dimensionName]);
+}
+
+/**
+ * 生成搜索结果在检查点内的键
+ * @param query 查询内容
+ * @param engineId 搜索引擎ID
+ * @returns string
+ */
+function searchKey(query: string, engineId: number): string {
+  return JSON.stringify([query, engineId]);
+}
+
+/**
+ * 计算评测任务的评分单元总数
+ * @param run 检查点评测任务
+ * @returns number
+ */
+function countTotalUnits(run: CheckpointRun): number {
+  const enabledDimensions = run.dimensions.filter(dim => dim.enabled);
+  return run.queries.length * run.searchEngines.length * run.rounds * enabledDimensions.length;
+}
+
+/**
+ * 基于已保存的记录创建检查点
+ * 读取走内存缓存，写入异步落库，写入失败只记录日志不影响评测
+ * @param runId 评测任务ID
+ * @param units 已完成评分单元记录
+ * @param searches 已缓存搜索结果记录
+ * @returns RunCheckpoint
+ */
+function buildRunCheckpoint(
+  runId: string,
+  units: CheckpointUnitRecord[],
+  searches: CheckpointSearchRecord[]
+): RunCheckpoint {
+  const unitMap = new Map(units.map(unit => [
+    unitKey(unit.query, unit.engineId, unit.round, unit.dimensionName),
+    unit.value
+  ]));
+  const searchMap = new Map(searches.map(search => [
+    searchKey(search.query, search.engineId),
+    search.searchResponse
+  ]));
+
+  return {
+    runId,
+    getSearchResponse(query, engineId) {
+      return searchMap.get(searchKey(query, engineId));
+    },
+    getDimensionScore(query, engineId, round, dimensionName) {
+      return unitMap.get(unitKey(query, engineId, round, dimensionName));
+    },
+    saveSearchResponse(query, engineId, searchResponse) {
+      const key = searchKey(query, engineId);
+      searchMap.set(key, searchResponse);
+      const record: CheckpointSearchRecord = {
+        id: JSON.stringify([runId, key]),
+        runId,
+        query,
+        engineId,
+        searchResponse
+      };
+      putRecord(STORES.checkpointSearches, record).catch(error => {
+        console.error('保存搜索结果检查点失败:', error);
+      });
+    },
+    saveDimensionScore(query, engineId, round, dimensionName, value) {
+      const key = unitKey(query, engineId, round, dimensionName);
+      unitMap.set(key, value);
+      const record: CheckpointUnitRecord = {
+        id: JSON.stringify([runId, key]),
+        runId,
+        query,
+        engineId,
+        round,
+        dimensionName,
+        value
+      };
+      putRecord(STORES.checkpointUnits, record).catch(error => {
+        console.error('保存评分单元检查点失败:', error);
+      });
+    }
+  };
+}
+
+/**
+ * 去掉评测配置中的API密钥（含各评委的密钥），用于本地保存
+ * @param config 评测配置
+ * @returns CheckpointConfig
+ */
+export function stripApiKeys(config: EvaluationConfig): CheckpointConfig {
+  const stripped: Partial<EvaluationConfig> = {
+    ...config,
+    judges: config.judges?.map(judge => ({ ...judge, apiKey: undefined }))
+  };
+  delete stripped.modelApiKey;
+  return stripped as CheckpointConfig;
+}
+
+/**
+ * 为新的评测任务创建检查点
+ * @param params 评测任务参数
+ * @returns Promise<RunCheckpoint>
+ */
+export async function createCheckpoint(params: {
+  queries: string[];
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  config: EvaluationConfig;
+  rounds: number;
+}): Promise<RunCheckpoint> {
+  const run: CheckpointRun = {
+    runId: `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    queries: params.queries,
+    searchEngines: params.searchEngines,
+    dimensions: params.dimensions,
+    config: stripApiKeys(params.config),
+    rounds: params.rounds,
+    createdAt: new Date().toISOString()
+  };
+
+  await putRecord(STORES.checkpointRuns, run);
+  return buildRunCheckpoint(run.runId, [], []);
+}
+
+/**
+ * 加载已保存的检查点，用于继续评测
+ * @param runId 评测任务ID
+ * @returns Promise<RunCheckpoint>
+ */
+export async function loadCheckpoint(runId: string): Promise<RunCheckpoint> {
+  const [units, searches] = await Promise.all([
+    getRecordsByIndex<CheckpointUnitRecord>(STORES.checkpointUnits, 'runId', runId),
+    getRecordsByIndex<CheckpointSearchRecord>(STORES.checkpointSearches, 'runId', runId)
+  ]);
+  return buildRunCheckpoint(runId, units, searches);
+}
+
+/**
+ * 查找最近一次未完成的评测任务
+ * @returns Promise<CheckpointSummary | null>
+ */
+export async function findUnfinishedCheckpoint(): Promise<CheckpointSummary | null> {
+  const runs = await getAllRecords<CheckpointRun>(STORES.checkpointRuns);
+  if (runs.length === 0) return null;
+
+  const latestRun = runs.reduce((latest, run) => run.createdAt > latest.createdAt ? run : latest);
+  const units = await getRecordsByIndex<CheckpointUnitRecord>(STORES.checkpointUnits, 'runId', latestRun.runId);
+
+  return {
+    run: latestRun,
+    completedUnits: units.length,
+    totalUnits: countTotalUnits(latestRun)
+  };
+}
+
+/**
+ * 删除评测任务的检查点（评测完成或用户放弃继续时调用）
+ * @param runId 评测任务ID
+ * @returns Promise<void>
+ */
+export async function deleteCheckpoint(runId: string): Promise<void> {
+  await Promise.all([
+    deleteRecordsByIndex(STORES.checkpointUnits, 'runId', runId),
+    deleteRecordsByIndex(STORES.checkpointSearches, 'runId', runId)
+  ]);
+  await deleteRecord(STORES.checkpointRuns, runId);
+}
+
+/**
+ * 删除全部检查点（开始新评测时覆盖旧的未完成评测）
+ * @returns Promise<void>
+ */
+export async function clearCheckpoints(): Promise<void> {
+  const runs = await getAllRecords<CheckpointRun>(STORES.checkpointRuns);
+  await Promise.all(runs.map(run => deleteCheckpoint(run.runId)));
+}
+
+export type { CheckpointConfig, CheckpointRun, CheckpointSummary, RunCheckpoint };
@@ -0,0 +1,216 @@
+/**
+ * 本地数据库模块
+ * 封装IndexedDB的打开、升级与常用读写操作，供需要持久化的服务共用
+ */
+
+// 对象仓库定义接口
+interface StoreSchema {
+  name: string;
+  keyPath: string;
+  indexes?: string[];
+}
+
+// 数据库名称与版本（新增对象仓库时需要提升版本号）
+const DB_NAME = 'z-eval';
+const DB_VERSION = 3;
+
+/**
+ * 对象仓库名称
+ */
+export const STORES = {
+  checkpointRuns: 'checkpointRuns',
+  checkpointUnits: 'checkpointUnits',
+  checkpointSearches: 'checkpointSearches',
+  runs: 'runs',
+  runResults: 'runResults',
+  environments: 'environments'
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// 全部对象仓库定义，升级时创建缺失的仓库与索引
+const STORE_SCHEMAS: StoreSchema[] = [
+  { name: STORES.checkpointRuns, keyPath: 'runId' },
+  { name: STORES.checkpointUnits, keyPath: 'id', indexes: ['runId'] },
+  { name: STORES.checkpointSearches, keyPath: 'id', indexes: ['runId'] },
+  { name: STORES.runs, keyPath: 'runId' },
+  { name: STORES.runResults, keyPath: 'runId' },
+  { name: STORES.environments, keyPath: 'id' }
+];
+
+// 数据库连接（整个页面生命周期内复用）
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 判断当前环境是否支持IndexedDB
+ * @returns boolean
+ */
+export function isDatabaseAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * 将IndexedDB请求包装为Promise
+ * @param request IndexedDB请求
+ * @returns Promise<T>
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 等待事务提交
+ * @param transaction IndexedDB事务
+ * @returns Promise<void>
+ */
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * 打开数据库，首次打开或版本升级时创建对象仓库
+ * @returns Promise<IDBDatabase>
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isDatabaseAvailable()) {
+    return Promise.reject(new Error('当前环境不支持IndexedDB'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        const transaction = request.transaction as IDBTransaction;
+        for (const schema of STORE_SCHEMAS) {
+          const store = database.objectStoreNames.contains(schema.name)
+            ? transaction.objectStore(schema.name)
+            : database.createObjectStore(schema.name, { keyPath: schema.keyPath });
+          for (const indexName of schema.indexes || []) {
+            if (!store.indexNames.contains(indexName)) {
+              store.createIndex(indexName, indexName);
+            }
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return databasePromise;
+}
+
+/**
+ * 在指定对象仓库上执行操作
+ * @param storeName 对象仓库名称
+ * @param mode 事务模式
+ * @param operation 对象仓库操作
+ * @returns Promise<T>
+ */
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, mode);
+
+  // 等待事务提交后再返回，确保写操作已落盘
+  const [result] = await Promise.all([
+    requestToPromise(operation(transaction.objectStore(storeName))),
+    transactionToPromise(transaction)
+  ]);
+  return result;
+}
+
+/**
+ * 写入记录（主键相同则覆盖）
+ * @param storeName 对象仓库名称
+ * @param value 记录
+ * @returns Promise<void>
+ */
+export async function putRecord<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+}
+
+/**
+ * 按主键读取记录
+ * @param storeName 对象仓库名称
+ * @param key 主键
+ * @returns Promise<T | undefined>
+ */
+export async function getRecord<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore<T | undefined>(storeName, 'readonly', store => store.get(key));
+}
+
+/**
+ * 读取对象仓库中的全部记录
+ * @param storeName 对象仓库名称
+ * @returns Promise<T[]>
+ */
+export async function getAllRecords<T>(storeName: StoreName): Promise<T[]> {
+  return withStore<T[]>(storeName, 'readonly', store => store.getAll());
+}
+
+/**
+ * 按索引值读取记录
+ * @param storeName 对象仓库名称
+ * @param indexName 索引名称
+ * @param value 索引值
+ * @returns Promise<T[]>
+ */
+export async function getRecordsByIndex<T>(
+  storeName: StoreName,
+  indexName: string,
+  value: IDBValidKey
+): Promise<T[]> {
+  return withStore<T[]>(storeName, 'readonly', store => store.index(indexName).getAll(value));
+}
+
+/**
+ * 按主键删除记录
+ * @param storeName 对象仓库名称
+ * @param key 主键
+ * @returns Promise<void>
+ */
+export async function deleteRecord(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+}
+
+/**
+ * 按索引值删除记录
+ * @param storeName 对象仓库名称
+ * @param indexName 索引名称
+ * @param value 索引值
+ * @returns Promise<void>
+ */
+export async function deleteRecordsByIndex(
+  storeName: StoreName,
+  indexName: string,
+  value: IDBValidKey
+): Promise<void> {
+  const keys = await withStore<IDBValidKey[]>(storeName, 'readonly', store => store.index(indexName).getAllKeys(value));
+  if (keys.length === 0) return;
+
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  for (const key of keys) {
+    store.delete(key);
+  }
+  await transactionToPromise(transaction);
+}
+
+export type { StoreName };
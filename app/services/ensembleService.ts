@@ -0,0 +1,136 @@
+/**
+ * 多评委集成模块
+ * 提供评委模型配置、多评委分数合并与逐条判定合并功能
+ */
+
+import type { ResultGrade, ResultJudgment } from './scoringService';
+
+// 评委模型配置接口（接口地址与密钥留空时使用全局评分模型配置）
+interface JudgeConfig {
+  id: string;
+  name: string;
+  modelKey: string;
+  apiUrl?: string;
+  apiKey?: string;
+}
+
+// 多评委分数合并方式
+type EnsembleMethod = 'mean' | 'median' | 'majority' | 'trimmedMean';
+
+/**
+ * 可选的合并方式
+ */
+export const ENSEMBLE_METHODS: Array<{ key: EnsembleMethod; label: string }> = [
+  { key: 'mean', label: '平均值' },
+  { key: 'median', label: '中位数' },
+  { key: 'majority', label: '多数投票' },
+  { key: 'trimmedMean', label: '截尾平均（去掉最高与最低）' }
+];
+
+/**
+ * 计算中位数
+ * @param values 数值列表
+ * @returns number
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * 计算众数，出现次数相同时取这些分数的中位数
+ * @param values 数值列表
+ * @returns number
+ */
+function majority(values: number[]): number {
+  const counts = new Map<number, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  const maxCount = Math.max(...counts.values());
+  return median(Array.from(counts.entries()).filter(([, count]) => count === maxCount).map(([value]) => value));
+}
+
+/**
+ * 按合并方式合并多个评委的分数
+ * @param scores 各评委分数
+ * @param method 合并方式
+ * @returns number
+ */
+export function combineScores(scores: number[], method: EnsembleMethod): number {
+  if (scores.length === 0) {
+    throw new Error('没有可合并的评委分数');
+  }
+
+  switch (method) {
+    case 'median':
+      return median(scores);
+    case 'majority':
+      return majority(scores);
+    case 'trimmedMean': {
+      // 不足3个评委时无法截尾，退化为平均值
+      const sorted = [...scores].sort((a, b) => a - b);
+      const trimmed = sorted.length >= 3 ? sorted.slice(1, -1) : sorted;
+      return trimmed.reduce((sum, score) => sum + score, 0) / trimmed.length;
+    }
+    case 'mean':
+    default:
+      return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  }
+}
+
+/**
+ * 合并多个评委的逐条判定：每条结果取多数等级，票数相同时取较低等级
+ * @param judgmentsList 各评委的逐条判定
+ * @returns ResultJudgment[]
+ */
+export function combineJudgments(judgmentsList: ResultJudgment[][]): ResultJudgment[] {
+  const gradesByRank = new Map<number, ResultGrade[]>();
+  for (const judgments of judgmentsList) {
+    for (const judgment of judgments) {
+      gradesByRank.set(judgment.rank, [...(gradesByRank.get(judgment.rank) || []), judgment.grade]);
+    }
+  }
+
+  return Array.from(gradesByRank.entries())
+    .sort(([rankA], [rankB]) => rankA - rankB)
+    .map(([rank, grades]) => {
+      const counts = [0, 1, 2].map(grade => grades.filter(item => item === grade).length);
+      const maxCount = Math.max(...counts);
+      return { rank, grade: counts.indexOf(maxCount) as ResultGrade };
+    });
+}
+
+/**
+ * 验证评委配置
+ * @param judges 评委列表
+ * @returns { isValid: boolean; errors: string[] }
+ */
+export function validateJudges(judges: JudgeConfig[]): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  judges.forEach((judge, index) => {
+    if (!judge.name.trim()) {
+      errors.push(`第${index + 1}个评委名称不能为空`);
+    }
+    if (!judge.modelKey.trim()) {
+      errors.push(`评委「${judge.name || index + 1}」的模型Key不能为空`);
+    }
+  });
+
+  const names = judges.map(judge => judge.name.trim());
+  if (new Set(names).size !== names.length) {
+    errors.push('评委名称不能重复');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+export type { JudgeConfig, EnsembleMethod };
@@ -0,0 +1,310 @@
+/**
+ * 环境配置模块
+ * 管理具名的环境配置（接口地址、评分模型、评委与搜索引擎列表），支持本地保存、切换与 JSON 导入导出
+ * 环境配置不保存任何 API 密钥，切换环境时沿用当前填写的密钥
+ */
+
+import { deleteRecord, getAllRecords, putRecord, STORES } from './dbService';
+import { DEFAULT_SEARCH_PARAMS, resolveSearchParams, validateSearchParams, type SearchParams } from './searchProfileService';
+import type { JudgeConfig } from './ensembleService';
+import type { SearchEngine } from './evaluationService';
+
+// 环境中的设置项
+interface EnvironmentSettings {
+  websearchUrl: string;
+  apiUrl: string;
+  modelKey: string;
+  judges: JudgeConfig[]; // 不含 apiKey
+  searchEngines: SearchEngine[];
+}
+
+// 保存的环境配置
+interface EnvironmentProfile extends EnvironmentSettings {
+  id: string;
+  name: string;
+  updatedAt: string;
+  lastUsedAt?: string; // 最近一次切换到该环境的时间，打开页面时恢复最近使用的环境
+}
+
+// 导出的环境配置文件格式
+interface EnvironmentFile {
+  version: number;
+  profiles: Array<EnvironmentSettings & { name: string }>;
+}
+
+// 导出文件的格式版本
+const ENVIRONMENT_FILE_VERSION = 1;
+
+/**
+ * 默认环境设置（智谱开放平台）
+ */
+export const DEFAULT_ENVIRONMENT: EnvironmentSettings = {
+  websearchUrl: 'https://open.bigmodel.cn/api/paas/v4/web_search',
+  apiUrl: 'https://open.bigmodel.cn/api/paas/v4/chat/completions',
+  modelKey: 'glm-4-plus',
+  judges: [],
+  searchEngines: [
+    { id: 1, code: 'search_std', name: '智谱基础版搜索引擎', searchParams: { ...DEFAULT_SEARCH_PARAMS } },
+    // { id: 2, code: 'search_pro', name: '智谱高阶版搜索引擎', searchParams: { ...DEFAULT_SEARCH_PARAMS } },
+    { id: 3, code: 'search_pro_sogou', name: '搜狗', searchParams: { ...DEFAULT_SEARCH_PARAMS } },
+    // { id: 4, code: 'search_pro_quark', name: '夸克搜索', searchParams: { ...DEFAULT_SEARCH_PARAMS } },
+  ]
+};
+
+/**
+ * 提取环境设置并去掉评委的 API 密钥
+ * @param settings 包含环境设置的配置
+ * @returns EnvironmentSettings
+ */
+export function toEnvironmentSettings(settings: EnvironmentSettings): EnvironmentSettings {
+  return {
+    websearchUrl: settings.websearchUrl,
+    apiUrl: settings.apiUrl,
+    modelKey: settings.modelKey,
+    judges: settings.judges.map(judge => ({
+      id: judge.id,
+      name: judge.name,
+      modelKey: judge.modelKey,
+      ...(judge.apiUrl ? { apiUrl: judge.apiUrl } : {})
+    })),
+    searchEngines: settings.searchEngines.map(engine => ({
+      id: engine.id,
+      code: engine.code,
+      name: engine.name,
+      searchParams: resolveSearchParams(engine.searchParams)
+    }))
+  };
+}
+
+/**
+ * 判断当前设置是否与环境配置一致（忽略 API 密钥）
+ * @param settings 当前设置
+ * @param profile 环境配置
+ * @returns boolean
+ */
+export function isSameEnvironment(settings: EnvironmentSettings, profile: EnvironmentSettings): boolean {
+  return JSON.stringify(toEnvironmentSettings(settings)) === JSON.stringify(toEnvironmentSettings(profile));
+}
+
+/**
+ * 检查导入文件中搜索参数的字段类型（缺省字段使用默认值），错误时返回错误信息，合法时返回 null
+ * @param searchParams 文件中的搜索参数
+ * @param engineName 搜索引擎名称（用于错误信息）
+ * @returns string | null
+ */
+function checkSearchParamTypes(searchParams: unknown, engineName: string): string | null {
+  if (searchParams === undefined) return null;
+  if (!searchParams || typeof searchParams !== 'object' || Array.isArray(searchParams)) {
+    return `搜索引擎「${engineName}」的 searchParams 必须是对象`;
+  }
+
+  const params = searchParams as Record<string, unknown>;
+  for (const key of Object.keys(DEFAULT_SEARCH_PARAMS) as Array<keyof SearchParams>) {
+    if (key in params && typeof params[key] !== typeof DEFAULT_SEARCH_PARAMS[key]) {
+      return `搜索引擎「${engineName}」的搜索参数 ${key} 必须是 ${typeof DEFAULT_SEARCH_PARAMS[key]} 类型`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 验证环境配置
+ * @param profile 环境名称与设置
+ * @returns { isValid: boolean; errors: string[] }
+ */
+export function validateEnvironmentProfile(profile: EnvironmentSettings & { name: string }): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!profile.name.trim()) {
+    errors.push('环境名称不能为空');
+  }
+  if (!profile.websearchUrl.trim()) {
+    errors.push(`环境「${profile.name}」的搜索接口地址不能为空`);
+  }
+  if (!profile.apiUrl.trim()) {
+    errors.push(`环境「${profile.name}」的评分接口地址不能为空`);
+  }
+  if (!profile.modelKey.trim()) {
+    errors.push(`环境「${profile.name}」的评分模型不能为空`);
+  }
+  if (profile.searchEngines.length === 0) {
+    errors.push(`环境「${profile.name}」至少需要一个搜索引擎`);
+  }
+
+  const codes = profile.searchEngines.map(engine => engine.code);
+  if (new Set(codes).size !== codes.length) {
+    errors.push(`环境「${profile.name}」中的搜索引擎编码重复`);
+  }
+  const engineIds = profile.searchEngines.map(engine => engine.id);
+  if (new Set(engineIds).size !== engineIds.length) {
+    errors.push(`环境「${profile.name}」中的搜索引擎ID重复`);
+  }
+  for (const engine of profile.searchEngines) {
+    errors.push(...validateSearchParams(resolveSearchParams(engine.searchParams), engine.name).errors);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * 读取全部环境配置，按名称排列
+ * @returns Promise<EnvironmentProfile[]>
+ */
+export async function listEnvironmentProfiles(): Promise<EnvironmentProfile[]> {
+  const profiles = await getAllRecords<EnvironmentProfile>(STORES.environments);
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * 获取最近使用的环境配置
+ * @param profiles 环境配置列表
+ * @returns EnvironmentProfile | null
+ */
+export function getLastUsedProfile(profiles: EnvironmentProfile[]): EnvironmentProfile | null {
+  return profiles
+    .filter(profile => profile.lastUsedAt)
+    .reduce<EnvironmentProfile | null>(
+      (latest, profile) => (!latest || (profile.lastUsedAt as string) > (latest.lastUsedAt as string) ? profile : latest),
+      null
+    );
+}
+
+/**
+ * 保存环境配置（同名环境覆盖原有配置）
+ * @param name 环境名称
+ * @param settings 环境设置（评委的 API 密钥不会保存）
+ * @param existing 已有的环境配置列表
+ * @returns Promise<EnvironmentProfile>
+ */
+export async function saveEnvironmentProfile(
+  name: string,
+  settings: EnvironmentSettings,
+  existing: EnvironmentProfile[]
+): Promise<EnvironmentProfile> {
+  const previous = existing.find(profile => profile.name === name.trim());
+  const profile: EnvironmentProfile = {
+    ...toEnvironmentSettings(settings),
+    id: previous?.id || `env_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    updatedAt: new Date().toISOString(),
+    lastUsedAt: previous?.lastUsedAt
+  };
+  await putRecord(STORES.environments, profile);
+  return profile;
+}
+
+/**
+ * 记录切换到某个环境的时间
+ * @param profile 环境配置
+ * @returns Promise<EnvironmentProfile>
+ */
+export async function markEnvironmentUsed(profile: EnvironmentProfile): Promise<EnvironmentProfile> {
+  const updated = { ...profile, lastUsedAt: new Date().toISOString() };
+  await putRecord(STORES.environments, updated);
+  return updated;
+}
+
+/**
+ * 删除环境配置
+ * @param id 环境ID
+ * @returns Promise<void>
+ */
+export async function deleteEnvironmentProfile(id: string): Promise<void> {
+  await deleteRecord(STORES.environments, id);
+}
+
+/**
+ * 导出环境配置为 JSON（不含 API 密钥）
+ * @param profiles 环境配置列表
+ * @returns string
+ */
+export function exportEnvironmentProfiles(profiles: EnvironmentProfile[]): string {
+  const file: EnvironmentFile = {
+    version: ENVIRONMENT_FILE_VERSION,
+    profiles: profiles.map(profile => ({ name: profile.name, ...toEnvironmentSettings(profile) }))
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * 解析导入的环境配置，文件中的 API 密钥会被忽略
+ * @param text 文件内容
+ * @returns { ok: true; value: Array<EnvironmentSettings & { name: string }> } | { ok: false; error: string }
+ */
+export function parseEnvironmentProfiles(
+  text: string
+): { ok: true; value: Array<EnvironmentSettings & { name: string }> } | { ok: false; error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: '文件不是合法的 JSON' };
+  }
+
+  const file = data as Partial<EnvironmentFile> | null;
+  if (typeof file?.version === 'number' && file.version > ENVIRONMENT_FILE_VERSION) {
+    return { ok: false, error: `文件格式版本 ${file.version} 高于当前支持的版本 ${ENVIRONMENT_FILE_VERSION}` };
+  }
+  if (!Array.isArray(file?.profiles)) {
+    return { ok: false, error: '文件中缺少 profiles 数组' };
+  }
+
+  const profiles: Array<EnvironmentSettings & { name: string }> = [];
+  for (const [index, item] of file.profiles.entries()) {
+    const record = item as Partial<EnvironmentSettings & { name: string }> | null;
+    if (
+      !record ||
+      typeof record.name !== 'string' ||
+      typeof record.websearchUrl !== 'string' ||
+      typeof record.apiUrl !== 'string' ||
+      typeof record.modelKey !== 'string' ||
+      !Array.isArray(record.searchEngines)
+    ) {
+      return { ok: false, error: `第${index + 1}个环境必须包含 name、websearchUrl、apiUrl、modelKey 和 searchEngines` };
+    }
+
+    const engines = record.searchEngines as Array<Partial<SearchEngine> | null>;
+    if (engines.some(engine => !engine || typeof engine.id !== 'number' || typeof engine.code !== 'string' || typeof engine.name !== 'string')) {
+      return { ok: false, error: `环境「${record.name}」中的搜索引擎必须包含数字类型的 id 和字符串类型的 code、name` };
+    }
+    for (const engine of engines as SearchEngine[]) {
+      const searchParamsError = checkSearchParamTypes(engine.searchParams, engine.name);
+      if (searchParamsError) {
+        return { ok: false, error: `环境「${record.name}」中${searchParamsError}` };
+      }
+    }
+    const judges = (Array.isArray(record.judges) ? record.judges : []) as Array<Partial<JudgeConfig> | null>;
+    if (judges.some(judge => !judge || typeof judge.id !== 'string' || typeof judge.name !== 'string' || typeof judge.modelKey !== 'string')) {
+      return { ok: false, error: `环境「${record.name}」中的评委必须包含字符串类型的 id、name 和 modelKey` };
+    }
+
+    const profile = {
+      name: record.name.trim(),
+      ...toEnvironmentSettings({
+        websearchUrl: record.websearchUrl,
+        apiUrl: record.apiUrl,
+        modelKey: record.modelKey,
+        judges: judges as JudgeConfig[],
+        searchEngines: engines as SearchEngine[]
+      })
+    };
+    const validation = validateEnvironmentProfile(profile);
+    if (!validation.isValid) {
+      return { ok: false, error: validation.errors.join('；') };
+    }
+    profiles.push(profile);
+  }
+
+  if (profiles.length === 0) {
+    return { ok: false, error: '文件中没有环境配置' };
+  }
+  return { ok: true, value: profiles };
+}
+
+export type { EnvironmentSettings, EnvironmentProfile };
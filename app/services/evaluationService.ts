@@ -6,16 +6,60 @@
 import { 
   callWebSearchApi, 
   callEvaluationApi, 
+  isAbortError,
+  ApiError,
   buildEvaluationPrompt,
+  buildPerResultEvaluationPrompt,
+  buildPairwiseComparisonPrompt,
   type ApiConfig,
+  type ApiErrorType,
+  type RetryPolicy,
+  type SearchResultItem,
   type WebSearchResponse 
 } from './apiService';
+import {
+  applyStepTable,
+  validateScoringSystem,
+  validateStepTable,
+  type ResultJudgment,
+  type ScoringSystem
+} from './scoringService';
+import {
+  parseJudgeOutput,
+  parsePairwiseOutput,
+  type PairwiseOutput,
+  type PairwiseWinner
+} from './judgeOutputService';
+import {
+  combineScores,
+  combineJudgments,
+  validateJudges,
+  type EnsembleMethod,
+  type JudgeConfig
+} from './ensembleService';
+import {
+  createTaskScheduler,
+  DEFAULT_RATE_LIMITS,
+  validateRateLimits,
+  type RateLimits,
+  type TaskScheduler
+} from './schedulerService';
+import {
+  getShuffleSeed,
+  presentResults,
+  restoreJudgmentRanks,
+  validateBiasControls,
+  type BiasControls
+} from './biasService';
+import { buildWebSearchRequest, type SearchParams } from './searchProfileService';
+import type { QueryMeta } from './querySetService';
 
-// 搜索引擎配置接口
+// 搜索引擎配置接口（searchParams 为该引擎的搜索参数，缺省时使用默认参数）
 interface SearchEngine {
   id: number;
   code: string;
   name: string;
+  searchParams?: SearchParams;
 }
 
 // 评测维度配置接口
@@ -27,13 +71,24 @@ interface Dimension {
   prompt?: string;
 }
 
+// 评判模式：holistic 整体打分，perResult 逐条判定后按阶梯计分表换算
+type JudgmentMode = 'holistic' | 'perResult';
+
 // 评测配置接口
 interface EvaluationConfig {
   apiUrl: string;
   modelApiKey: string;
   modelKey: string;
   websearchUrl: string;
-  scoringSystem: 'binary' | 'fivePoint';
+  scoringSystem: ScoringSystem;
+  judgmentMode?: JudgmentMode;
+  maxJudgeRetries?: number;
+  rateLimits?: RateLimits;
+  retryPolicy?: RetryPolicy;
+  judges?: JudgeConfig[]; // 为空时使用 modelKey 作为唯一评委
+  ensembleMethod?: EnsembleMethod;
+  biasControls?: BiasControls;
+  queryMeta?: Record<string, QueryMeta>; // 查询 → 导入查询集时附带的元数据
 }
 
 // 评测结果接口
@@ -42,17 +97,94 @@ interface EvaluationResult {
   engineName: string;
   query: string;
   round: number;
-  searchResults: Array<{
-    title: string;
-    url: string;
-    snippet: string;
-    rank: number;
-  }>;
+  searchResults: SearchResultItem[];
   scores: Record<string, number>;
+  rationales?: Record<string, string>;
+  resultJudgments?: Record<string, ResultJudgment[]>;
+  judgeScores?: Record<string, Record<string, number>>; // 维度 → 评委名称 → 分数
+  failures?: Record<string, DimensionFailure>;
+  attempts?: Record<string, number>; // 各维度评分请求次数（含重试与格式重问）
+  searchAttempts?: number; // 搜索请求次数（含重试）
+  shuffleSeed?: number; // 提交给评委前打乱结果顺序所用的种子，未打乱时为空
+  queryMeta?: QueryMeta; // 查询的分类、标签、权重等元数据，手动输入的查询为空
   weightedScore: number;
   timestamp: string;
 }
 
+// 维度评分失败记录接口（失败的维度不计入 scores）
+interface DimensionFailure {
+  errorType: ApiErrorType;
+  attempts: number;
+  message: string;
+}
+
+// 两两对比判定记录接口（winner 为 null 表示判定失败）
+interface PairwiseVerdict {
+  query: string;
+  round: number;
+  dimensionName: string;
+  engineAId: number;
+  engineAName: string;
+  engineBId: number;
+  engineBName: string;
+  winner: PairwiseWinner | null;
+  rationale: string;
+  judgeVotes?: Record<string, PairwiseWinner>; // 评委名称 → 投票
+  consistent?: boolean; // 启用交换顺序时两次判定是否一致，不一致时 winner 为 null 且不计入评级
+  failure?: DimensionFailure;
+  attempts: number;
+  timestamp: string;
+}
+
+// 单次两两对比的判定结果
+interface PairJudgment {
+  winner: PairwiseWinner;
+  rationale: string;
+  judgeVotes?: Record<string, PairwiseWinner>;
+  attempts: number;
+}
+
+// 单维度评分结果接口
+interface DimensionScore {
+  score: number;
+  rationale: string;
+  judgments?: ResultJudgment[];
+  judgeScores?: Record<string, number>;
+  attempts: number;
+}
+
+// 单维度评分单元结果（成功或失败）
+type DimensionOutcome =
+  | { ok: true; value: DimensionScore }
+  | { ok: false; failure: DimensionFailure };
+
+// 评测检查点接口：读取已完成的评分单元与已缓存的搜索结果，并保存新完成的部分
+interface EvaluationCheckpoint {
+  getSearchResponse(query: string, engineId: number): WebSearchResponse | undefined;
+  getDimensionScore(query: string, engineId: number, round: number, dimensionName: string): DimensionScore | undefined;
+  saveSearchResponse(query: string, engineId: number, searchResponse: WebSearchResponse): void;
+  saveDimensionScore(query: string, engineId: number, round: number, dimensionName: string, value: DimensionScore): void;
+}
+
+// 搜索结果获取结果（成功或失败）
+type SearchOutcome =
+  | { ok: true; value: WebSearchResponse }
+  | { ok: false; failure: DimensionFailure };
+
+// 评分模型输出格式错误（重试耗尽后抛出）
+class JudgeOutputError extends Error {
+  attempts: number;
+
+  constructor(message: string, attempts: number) {
+    super(message);
+    this.name = 'JudgeOutputError';
+    this.attempts = attempts;
+  }
+}
+
+// 默认的格式错误重试次数
+const DEFAULT_MAX_JUDGE_RETRIES = 2;
+
 // 评测进度回调接口
 interface EvaluationProgress {
   currentEngine: string;
@@ -60,6 +192,7 @@ interface EvaluationProgress {
   totalRounds: number;
   currentDimension?: string;
   progress: number; // 0-100
+  cancelled?: boolean;
 }
 
 // 搜索结果回调接口
@@ -67,27 +200,547 @@ interface SearchResultCallback {
   engineId: number;
   engineName: string;
   query: string;
-  searchResults: Array<{
-    title: string;
-    url: string;
-    snippet: string;
-    rank: number;
-  }>;
+  searchResults: SearchResultItem[];
   timestamp: string;
 }
 
 /**
- * 执行单个搜索引擎的评测
+ * 由评测配置构建API配置
+ * @param config 评测配置
+ * @returns ApiConfig
+ */
+function buildApiConfig(config: EvaluationConfig): ApiConfig {
+  return {
+    websearchUrl: config.websearchUrl,
+    evaluationUrl: config.apiUrl,
+    apiKey: config.modelApiKey,
+    modelKey: config.modelKey,
+    retryPolicy: config.retryPolicy
+  };
+}
+
+/**
+ * 获取参与评分的评委列表（未配置时使用评测配置中的模型作为唯一评委）
+ * @param config 评测配置
+ * @returns JudgeConfig[]
+ */
+function resolveJudges(config: EvaluationConfig): JudgeConfig[] {
+  if (config.judges && config.judges.length > 0) {
+    return config.judges;
+  }
+  return [{ id: 'default', name: config.modelKey, modelKey: config.modelKey }];
+}
+
+/**
+ * 按评测配置创建搜索接口与评分接口的调度器
+ * @param config 评测配置
+ * @returns { searchScheduler: TaskScheduler; judgeScheduler: TaskScheduler }
+ */
+function createSchedulers(config: EvaluationConfig): {
+  searchScheduler: TaskScheduler;
+  judgeScheduler: TaskScheduler;
+} {
+  const rateLimits = config.rateLimits || DEFAULT_RATE_LIMITS;
+  return {
+    searchScheduler: createTaskScheduler(rateLimits.search),
+    judgeScheduler: createTaskScheduler(rateLimits.judge)
+  };
+}
+
+/**
+ * 向评分模型发起请求并解析结构化输出，输出不符合要求时附上错误原因重新询问
+ * @param config 评测配置
+ * @param apiConfig API配置
+ * @param prompt 评测提示词
+ * @param parse 输出解析函数
+ * @param metadata SSE消息附带信息，同时用于日志
+ * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号
+ * @param judgeScheduler 评分接口调度器，未提供时直接发起请求
+ * @returns Promise<{ value: T; attempts: number }>
+ */
+async function askJudge<T>(
+  config: EvaluationConfig,
+  apiConfig: ApiConfig,
+  prompt: string,
+  parse: (content: string) => { ok: true; value: T } | { ok: false; error: string },
+  metadata: {dimension?: string, engine?: string, query?: string},
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal,
+  judgeScheduler?: TaskScheduler
+): Promise<{ value: T; attempts: number }> {
+  const maxRetries = config.maxJudgeRetries ?? DEFAULT_MAX_JUDGE_RETRIES;
+  const messages = [
+    {
+      role: 'system',
+      content: '你是一个专业的搜索引擎评测专家。请严格按照用户要求的JSON格式输出评测结果，不要输出JSON以外的任何内容。'
+    },
+    {
+      role: 'user',
+      content: prompt
+    }
+  ];
+
+  let lastError = '';
+  // 累计实际发起的请求次数（含接口重试与格式重问）
+  let totalAttempts = 0;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const requestEvaluation = (waitForRetry?: (delayMs: number) => Promise<void>) => callEvaluationApi(
+      apiConfig, 
+      {
+        model: config.modelKey,
+        messages: [...messages],
+        temperature: 0.1,
+        max_tokens: 3000,
+        stream: true
+      },
+      // 传递SSE消息回调函数
+      onSseMessage ? (message) => {
+        onSseMessage(message, metadata);
+      } : undefined,
+      signal,
+      waitForRetry
+    );
+
+    let evaluationResponse;
+    try {
+      // 接口重试经调度器重新排队，计入每分钟请求数且等待期间不占用并发名额
+      evaluationResponse = judgeScheduler
+        ? await judgeScheduler.schedule(
+          () => requestEvaluation(delayMs => judgeScheduler.reacquire(delayMs, signal)),
+          signal
+        )
+        : await requestEvaluation();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        error.attempts += totalAttempts;
+      }
+      throw error;
+    }
+    totalAttempts += evaluationResponse.attempts ?? 1;
+
+    const responseContent = evaluationResponse.choices[0]?.message?.content || '';
+    const parsed = parse(responseContent);
+    if (parsed.ok) {
+      return { value: parsed.value, attempts: totalAttempts };
+    }
+
+    // 输出不符合格式要求时，附上错误原因重新询问
+    lastError = parsed.error;
+    console.warn(`${metadata.dimension}维度输出格式错误（第${attempt + 1}次）: ${lastError}`);
+    messages.push(
+      { role: 'assistant', content: responseContent },
+      { role: 'user', content: `你的输出不符合要求：${lastError}。请重新输出，只输出符合要求的JSON对象。` }
+    );
+  }
+
+  throw new JudgeOutputError(`评分输出解析失败（已重试${maxRetries}次）: ${lastError}`, totalAttempts);
+}
+
+/**
+ * 对单个维度进行评分
+ * @param query 查询内容
+ * @param searchEngine 搜索引擎配置
+ * @param dimension 评测维度
+ * @param config 评测配置
+ * @param apiConfig API配置
+ * @param searchResponse 搜索结果
+ * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号
+ * @param judgeScheduler 评分接口调度器，未提供时直接发起请求
+ * @returns Promise<DimensionScore>
+ */
+async function scoreDimension(
+  query: string,
+  searchEngine: SearchEngine,
+  dimension: Dimension,
+  config: EvaluationConfig,
+  apiConfig: ApiConfig,
+  searchResponse: WebSearchResponse,
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal,
+  judgeScheduler?: TaskScheduler
+): Promise<DimensionScore> {
+  const isPerResult = config.judgmentMode === 'perResult';
+  const dimensionPrompt = dimension.prompt || `请从${dimension.name}维度评价搜索结果的质量`;
+
+  const prompt = isPerResult
+    ? buildPerResultEvaluationPrompt(query, searchResponse.results, dimension.name, dimensionPrompt)
+    : buildEvaluationPrompt(query, searchResponse.results, dimensionPrompt, config.scoringSystem);
+
+  const { value, attempts } = await askJudge(
+    config,
+    apiConfig,
+    prompt,
+    content => parseJudgeOutput(content, {
+      mode: isPerResult ? 'perResult' : 'holistic',
+      scoringSystem: config.scoringSystem,
+      resultCount: searchResponse.results.length
+    }),
+    { dimension: dimension.name, engine: searchEngine.name, query },
+    onSseMessage,
+    signal,
+    judgeScheduler
+  );
+
+  const { score, rationale, labels } = value;
+  if (isPerResult && labels) {
+    // 逐条判定：统计高度符合条数后按阶梯计分表换算，序号还原为引擎原始排名
+    return {
+      score: applyStepTable(labels, config.scoringSystem.stepTable || []),
+      rationale,
+      judgments: restoreJudgmentRanks(labels, searchResponse.results),
+      attempts
+    };
+  }
+  return { score: score as number, rationale, attempts };
+}
+
+/**
+ * 由全部评委分别评分后合并为维度得分
+ * 部分评委失败时只合并成功评委的分数，全部失败时抛出第一个评委的错误
+ * @param query 查询内容
+ * @param searchEngine 搜索引擎配置
+ * @param dimension 评测维度
+ * @param config 评测配置
+ * @param apiConfig API配置
+ * @param searchResponse 搜索结果
+ * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号
+ * @param judgeScheduler 评分接口调度器
+ * @returns Promise<DimensionScore>
+ */
+async function scoreDimensionWithJudges(
+  query: string,
+  searchEngine: SearchEngine,
+  dimension: Dimension,
+  config: EvaluationConfig,
+  apiConfig: ApiConfig,
+  searchResponse: WebSearchResponse,
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal,
+  judgeScheduler?: TaskScheduler
+): Promise<DimensionScore> {
+  const judges = resolveJudges(config);
+
+  const settled = await Promise.allSettled(judges.map(judge => scoreDimension(
+    query,
+    searchEngine,
+    dimension,
+    { ...config, modelKey: judge.modelKey },
+    {
+      ...apiConfig,
+      evaluationUrl: judge.apiUrl || apiConfig.evaluationUrl,
+      apiKey: judge.apiKey || apiConfig.apiKey,
+      modelKey: judge.modelKey
+    },
+    searchResponse,
+    onSseMessage,
+    signal,
+    judgeScheduler
+  )));
+
+  // 取消评测时直接向上抛出
+  const aborted = settled.find(item => item.status === 'rejected' && isAbortError(item.reason));
+  if (aborted && aborted.status === 'rejected') {
+    throw aborted.reason;
+  }
+
+  const succeeded = judges
+    .map((judge, index) => ({ judge, outcome: settled[index] }))
+    .filter((item): item is { judge: JudgeConfig; outcome: PromiseFulfilledResult<DimensionScore> } =>
+      item.outcome.status === 'fulfilled'
+    )
+    .map(item => ({ judge: item.judge, value: item.outcome.value }));
+
+  const totalAttempts = settled.reduce((sum, item) => {
+    if (item.status === 'fulfilled') return sum + item.value.attempts;
+    const reason = item.reason as { attempts?: unknown };
+    return sum + (typeof reason?.attempts === 'number' ? reason.attempts : 1);
+  }, 0);
+
+  if (succeeded.length === 0) {
+    const firstError = (settled[0] as PromiseRejectedResult).reason;
+    if (firstError instanceof ApiError || firstError instanceof JudgeOutputError) {
+      firstError.attempts = totalAttempts;
+    }
+    throw firstError;
+  }
+
+  // 单评委时保持原有结果结构
+  if (judges.length === 1) {
+    return succeeded[0].value;
+  }
+
+  judges
+    .filter(judge => !succeeded.some(item => item.judge.id === judge.id))
+    .forEach(judge => console.warn(`评委 ${judge.name} 在${dimension.name}维度评分失败，已从合并中排除`));
+
+  const judgmentsList = succeeded
+    .map(item => item.value.judgments)
+    .filter((judgments): judgments is ResultJudgment[] => !!judgments);
+  const judgments = judgmentsList.length > 0 ? combineJudgments(judgmentsList) : undefined;
+
+  return {
+    // 逐条判定模式下由合并后的判定按阶梯计分表换算，保证展示的判定与得分一致；各评委得分仍记录在 judgeScores 中
+    score: judgments
+      ? applyStepTable(judgments, config.scoringSystem.stepTable || [])
+      : combineScores(succeeded.map(item => item.value.score), config.ensembleMethod || 'mean'),
+    rationale: succeeded.map(item => `[${item.judge.name}] ${item.value.rationale}`).join('\n'),
+    judgments,
+    judgeScores: Object.fromEntries(succeeded.map(item => [item.judge.name, item.value.score])),
+    attempts: totalAttempts
+  };
+}
+
+/**
+ * 将评分或搜索过程中的错误转换为失败记录
+ * @param error 捕获的错误
+ * @returns DimensionFailure
+ */
+function toDimensionFailure(error: unknown): DimensionFailure {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ApiError) {
+    return { errorType: error.type, attempts: error.attempts, message };
+  }
+  if (error instanceof JudgeOutputError) {
+    return { errorType: 'parse', attempts: error.attempts, message };
+  }
+  return { errorType: 'client', attempts: 1, message };
+}
+
+/**
+ * 执行单个维度评分单元，评分失败时记录失败原因而不是抛出
  * @param query 查询内容
  * @param searchEngine 搜索引擎配置
+ * @param dimension 评测维度
+ * @param config 评测配置
+ * @param apiConfig API配置
+ * @param searchResponse 搜索结果
+ * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号
+ * @param judgeScheduler 评分接口调度器
+ * @returns Promise<DimensionOutcome>
+ */
+async function runDimensionUnit(
+  query: string,
+  searchEngine: SearchEngine,
+  dimension: Dimension,
+  config: EvaluationConfig,
+  apiConfig: ApiConfig,
+  searchResponse: WebSearchResponse,
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal,
+  judgeScheduler?: TaskScheduler
+): Promise<DimensionOutcome> {
+  try {
+    const value = await scoreDimensionWithJudges(
+      query,
+      searchEngine,
+      dimension,
+      config,
+      apiConfig,
+      searchResponse,
+      onSseMessage,
+      signal,
+      judgeScheduler
+    );
+    console.log(`${dimension.name}维度评分: ${value.score}`);
+    return { ok: true, value };
+  } catch (error) {
+    // 取消评测时直接向上抛出，不记录为维度失败
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error(`评分维度 ${dimension.name} 时出错:`, error);
+    // 评分失败的维度不计分，只记录失败类型与尝试次数
+    return { ok: false, failure: toDimensionFailure(error) };
+  }
+}
+
+/**
+ * 汇总各维度评分单元，生成单轮评测结果
+ * @param query 查询内容
+ * @param searchEngine 搜索引擎配置
+ * @param round 评测轮次
+ * @param searchResponse 搜索结果
  * @param dimensions 评测维度列表
+ * @param outcomes 各维度评分单元结果
+ * @param shuffleSeed 打乱结果顺序所用的种子
+ * @param queryMeta 查询元数据
+ * @returns EvaluationResult
+ */
+function buildEvaluationResult(
+  query: string,
+  searchEngine: SearchEngine,
+  round: number,
+  searchResponse: WebSearchResponse,
+  dimensions: Dimension[],
+  outcomes: Record<string, DimensionOutcome>,
+  shuffleSeed?: number,
+  queryMeta?: QueryMeta
+): EvaluationResult {
+  const scores: Record<string, number> = {};
+  const rationales: Record<string, string> = {};
+  const resultJudgments: Record<string, ResultJudgment[]> = {};
+  const judgeScores: Record<string, Record<string, number>> = {};
+  const failures: Record<string, DimensionFailure> = {};
+  const attempts: Record<string, number> = {};
+
+  for (const [dimensionName, outcome] of Object.entries(outcomes)) {
+    attempts[dimensionName] = outcome.ok ? outcome.value.attempts : outcome.failure.attempts;
+    if (outcome.ok) {
+      scores[dimensionName] = outcome.value.score;
+      rationales[dimensionName] = outcome.value.rationale;
+      if (outcome.value.judgments) {
+        resultJudgments[dimensionName] = outcome.value.judgments;
+      }
+      if (outcome.value.judgeScores) {
+        judgeScores[dimensionName] = outcome.value.judgeScores;
+      }
+    } else {
+      failures[dimensionName] = outcome.failure;
+    }
+  }
+
+  return {
+    engineId: searchEngine.id,
+    engineName: searchEngine.name,
+    query,
+    round,
+    searchResults: searchResponse.results,
+    scores,
+    rationales,
+    resultJudgments: Object.keys(resultJudgments).length > 0 ? resultJudgments : undefined,
+    judgeScores: Object.keys(judgeScores).length > 0 ? judgeScores : undefined,
+    failures: Object.keys(failures).length > 0 ? failures : undefined,
+    attempts,
+    searchAttempts: searchResponse.attempts,
+    shuffleSeed,
+    queryMeta,
+    weightedScore: calculateWeightedScore(scores, dimensions),
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * 按偏差控制配置生成提交给评委的搜索结果
+ * @param searchResponse 引擎返回的搜索结果
+ * @param searchEngine 搜索引擎配置
+ * @param query 查询内容
+ * @param round 评测轮次
  * @param config 评测配置
+ * @returns { response: WebSearchResponse; shuffleSeed?: number }
+ */
+function presentSearchResponse(
+  searchResponse: WebSearchResponse,
+  searchEngine: SearchEngine,
+  query: string,
+  round: number,
+  config: EvaluationConfig
+): { response: WebSearchResponse; shuffleSeed?: number } {
+  const shuffleSeed = getShuffleSeed(config.biasControls, query, searchEngine.id, round);
+  const results = presentResults(
+    searchResponse.results,
+    config.biasControls,
+    shuffleSeed,
+    [searchEngine.name, searchEngine.code]
+  );
+  return { response: { ...searchResponse, results }, shuffleSeed };
+}
+
+/**
+ * 生成搜索失败时的单轮评测结果，所有维度记录为同一失败
+ * @param query 查询内容
+ * @param searchEngine 搜索引擎配置
  * @param round 评测轮次
- * @param onSseMessage SSE消息回调函数，用于流式响应
- * @returns Promise<EvaluationResult>
+ * @param dimensions 评测维度列表
+ * @param failure 搜索失败记录
+ * @param queryMeta 查询元数据
+ * @returns EvaluationResult
  */
+function buildSearchFailureResult(
+  query: string,
+  searchEngine: SearchEngine,
+  round: number,
+  dimensions: Dimension[],
+  failure: DimensionFailure,
+  queryMeta?: QueryMeta
+): EvaluationResult {
+  return {
+    engineId: searchEngine.id,
+    engineName: searchEngine.name,
+    query,
+    round,
+    searchResults: [],
+    scores: {},
+    failures: Object.fromEntries(dimensions.map(dimension => [dimension.name, failure])),
+    searchAttempts: failure.attempts,
+    queryMeta,
+    weightedScore: 0,
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * 获取单个搜索引擎的搜索结果，失败时返回失败记录
+ * @param query 查询内容
+ * @param searchEngine 搜索引擎配置
+ * @param apiConfig API配置
+ * @param searchScheduler 搜索接口调度器
+ * @param onSearchResult 搜索结果即时回调函数
+ * @param signal 取消信号
+ * @returns Promise<SearchOutcome>
+ */
+async function fetchSearchResults(
+  query: string,
+  searchEngine: SearchEngine,
+  apiConfig: ApiConfig,
+  searchScheduler: TaskScheduler,
+  onSearchResult?: (searchResult: SearchResultCallback) => void,
+  signal?: AbortSignal
+): Promise<SearchOutcome> {
+  try {
+    const searchResponse = await searchScheduler.schedule(() => callWebSearchApi(
+      apiConfig,
+      buildWebSearchRequest(query, searchEngine.code, searchEngine.searchParams),
+      signal,
+      delayMs => searchScheduler.reacquire(delayMs, signal)
+    ), signal);
+
+    // 立即回调搜索结果
+    if (onSearchResult) {
+      onSearchResult({
+        engineId: searchEngine.id,
+        engineName: searchEngine.name,
+        query,
+        searchResults: searchResponse.results,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return { ok: true, value: searchResponse };
+  } catch (error) {
+    // 取消评测时直接向上抛出
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error(`搜索失败 - 查询: ${query}, 引擎: ${searchEngine.name}`, error);
+    return { ok: false, failure: toDimensionFailure(error) };
+  }
+}
+
 /**
  * 使用预先获取的搜索结果进行评测
+ * @param query 查询内容
+ * @param searchEngine 搜索引擎配置
+ * @param dimensions 评测维度列表
+ * @param config 评测配置
+ * @param round 评测轮次
+ * @param searchResponse 搜索结果
+ * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号
+ * @returns Promise<EvaluationResult>
  */
 export async function evaluateWithSearchResults(
   query: string,
@@ -96,99 +749,37 @@ export async function evaluateWithSearchResults(
   config: EvaluationConfig,
   round: number,
   searchResponse: WebSearchResponse,
-  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal
 ): Promise<EvaluationResult> {
   console.log(`开始评测搜索引擎 ${searchEngine.name}`);
 
   try {
-    // 构建API配置
-    const apiConfig: ApiConfig = {
-      websearchUrl: config.websearchUrl,
-      evaluationUrl: config.apiUrl,
-      apiKey: config.modelApiKey,
-      modelKey: config.modelKey
-    };
+    const apiConfig = buildApiConfig(config);
+    const presented = presentSearchResponse(searchResponse, searchEngine, query, round, config);
 
-    // 2. 对每个维度进行评分
-    const scores: Record<string, number> = {};
-    
+    // 对每个维度进行评分
+    const outcomes: Record<string, DimensionOutcome> = {};
     for (const dimension of dimensions.filter(d => d.enabled)) {
-      try {
-        const prompt = buildEvaluationPrompt(
-          query,
-          searchResponse.results,
-          dimension.prompt || `请从${dimension.name}维度评价搜索结果的质量`,
-          config.scoringSystem
-        );
-
-        const evaluationResponse = await callEvaluationApi(
-          apiConfig, 
-          {
-            model: config.modelKey,
-            messages: [
-              {
-                role: 'system',
-                content: '你是一个专业的搜索引擎评测专家。请严格按照用户要求的结构化格式输出评测结果，确保在"最终得分："后面给出明确的数字分数。'
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            temperature: 0.1,
-            max_tokens: 3000,
-            stream: true
-          },
-          // 传递SSE消息回调函数
-          onSseMessage ? (message) => {
-            onSseMessage(message, {
-              dimension: dimension.name,
-              engine: searchEngine.name,
-              query: query
-            });
-          } : undefined
-        );
-
-        // 解析评分结果 - 优先从"最终得分："标签中提取
-        const responseContent = evaluationResponse.choices[0]?.message?.content || '0';
-        let score = 0;
-        
-        // 尝试从"最终得分："标签中提取分数
-        const finalScoreMatch = responseContent.match(/最终得分[：:](\s*)(\d+(?:\.\d+)?)/i);
-        if (finalScoreMatch) {
-          score = parseFloat(finalScoreMatch[2]);
-        } else {
-          // 备用方案：从整个文本中提取第一个数字
-          const numberMatch = responseContent.match(/\d+(?:\.\d+)?/);
-          if (numberMatch) {
-            score = parseFloat(numberMatch[0]);
-          }
-        }
-        
-        scores[dimension.name] = score;
-        
-        console.log(`${dimension.name}维度评分: ${score}`);
-      } catch (error) {
-        console.error(`评分维度 ${dimension.name} 时出错:`, error);
-        scores[dimension.name] = 0;
-      }
+      outcomes[dimension.name] = await runDimensionUnit(
+        query,
+        searchEngine,
+        dimension,
+        config,
+        apiConfig,
+        presented.response,
+        onSseMessage,
+        signal
+      );
     }
 
-    // 3. 计算加权总分
-    const weightedScore = calculateWeightedScore(scores, dimensions);
-
-    return {
-      engineId: searchEngine.id,
-      engineName: searchEngine.name,
-      query,
-      round,
-      searchResults: searchResponse.results,
-      scores,
-      weightedScore,
-      timestamp: new Date().toISOString()
-    };
+    return buildEvaluationResult(
+      query, searchEngine, round, searchResponse, dimensions, outcomes, presented.shuffleSeed, config.queryMeta?.[query]
+    );
   } catch (error) {
-    console.error(`评测搜索引擎 ${searchEngine.name} 时出错:`, error);
+    if (!isAbortError(error)) {
+      console.error(`评测搜索引擎 ${searchEngine.name} 时出错:`, error);
+    }
     throw error;
   }
 }
@@ -202,6 +793,7 @@ export async function evaluateWithSearchResults(
  * @param round 评测轮次
  * @param onSearchResult 搜索结果即时回调函数
  * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号
  * @returns Promise<EvaluationResult>
  */
 export async function evaluateSearchEngine(
@@ -211,22 +803,18 @@ export async function evaluateSearchEngine(
   config: EvaluationConfig,
   round: number,
   onSearchResult?: (searchResult: SearchResultCallback) => void,
-  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal
 ): Promise<EvaluationResult> {
   try {
     // 1. 调用WebSearch API获取搜索结果
-    const apiConfig: ApiConfig = {
-      websearchUrl: config.websearchUrl,
-      evaluationUrl: config.apiUrl,
-      apiKey: config.modelApiKey,
-      modelKey: config.modelKey
-    };
+    const apiConfig = buildApiConfig(config);
 
-    const searchResponse = await callWebSearchApi(apiConfig, {
-      search_query: query,
-      search_engine: searchEngine.code,
-      count: 10
-    });
+    const searchResponse = await callWebSearchApi(
+      apiConfig,
+      buildWebSearchRequest(query, searchEngine.code, searchEngine.searchParams),
+      signal
+    );
 
     // 立即回调搜索结果
     if (onSearchResult) {
@@ -239,84 +827,41 @@ export async function evaluateSearchEngine(
       });
     }
 
-    // 2. 对每个维度进行评分
-    const scores: Record<string, number> = {};
+    // 2. 对每个维度进行评分（任一维度失败即整体失败）
+    const outcomes: Record<string, DimensionOutcome> = {};
     const enabledDimensions = dimensions.filter(dim => dim.enabled);
+    const presented = presentSearchResponse(searchResponse, searchEngine, query, round, config);
 
     for (const dimension of enabledDimensions) {
-      const prompt = buildEvaluationPrompt(
+      const value = await scoreDimensionWithJudges(
         query,
-        searchResponse.results,
-        dimension.prompt || `请从${dimension.name}角度评价搜索结果的质量`,
-        config.scoringSystem
+        searchEngine,
+        dimension,
+        config,
+        apiConfig,
+        presented.response,
+        onSseMessage,
+        signal
       );
-
-      const evaluationResponse = await callEvaluationApi(
-        apiConfig, 
-        {
-          model: config.modelKey,
-          messages: [{
-            role: 'system',
-            content: '你是一个专业的搜索引擎评测专家。请严格按照用户要求的结构化格式输出评测结果，确保在"最终得分："后面给出明确的数字分数。'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }],
-          temperature: 0.1,
-          max_tokens: 3000,
-          stream: true
-        },
-        // 传递SSE消息回调函数
-        onSseMessage ? (message) => {
-          onSseMessage(message, {
-            dimension: dimension.name,
-            engine: searchEngine.name,
-            query: query
-          });
-        } : undefined
-      );
-
-      // 解析评分结果 - 优先从"最终得分："标签中提取
-      const responseContent = evaluationResponse.choices[0]?.message?.content || '0';
-      let score = 0;
-      
-      // 尝试从"最终得分："标签中提取分数
-      const finalScoreMatch = responseContent.match(/最终得分[：:]\s*(\d+(?:\.\d+)?)/i);
-      if (finalScoreMatch) {
-        score = parseFloat(finalScoreMatch[1]);
-      } else {
-        // 备用方案：从整个文本中提取第一个数字
-        const numberMatch = responseContent.match(/\d+(?:\.\d+)?/);
-        if (numberMatch) {
-          score = parseFloat(numberMatch[0]);
-        }
-      }
-      
-      scores[dimension.name] = score;
+      outcomes[dimension.name] = { ok: true, value };
     }
 
     // 3. 计算加权总分
-    const weightedScore = calculateWeightedScore(scores, enabledDimensions);
-
-    return {
-      engineId: searchEngine.id,
-      engineName: searchEngine.name,
-      query,
-      round,
-      searchResults: searchResponse.results,
-      scores,
-      weightedScore,
-      timestamp: new Date().toISOString()
-    };
+    return buildEvaluationResult(
+      query, searchEngine, round, searchResponse, enabledDimensions, outcomes, presented.shuffleSeed, config.queryMeta?.[query]
+    );
   } catch (error) {
-    console.error(`评测搜索引擎 ${searchEngine.name} 时出错:`, error);
+    if (!isAbortError(error)) {
+      console.error(`评测搜索引擎 ${searchEngine.name} 时出错:`, error);
+    }
     throw error;
   }
 }
 
 /**
- * 优化版批量评测：先并行搜索，再统一评测
+ * 优化版批量评测：搜索与评分流水线并发执行
+ * 所有查询的搜索请求按搜索接口限流依次发出，评分进行时即预取后续查询的搜索结果；
+ * 每个（查询, 引擎, 轮次, 维度）评分单元按评分接口限流并发执行
  * @param queries 查询列表
  * @param searchEngines 搜索引擎列表
  * @param dimensions 评测维度列表
@@ -324,6 +869,9 @@ export async function evaluateSearchEngine(
  * @param rounds 评测轮次
  * @param onProgress 进度回调函数
  * @param onSearchResult 搜索结果即时回调函数
+ * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号，触发后停止后续任务并返回已完成的结果
+ * @param checkpoint 评测检查点，提供时跳过已完成的评分单元、复用已缓存的搜索结果，并保存新完成的评分单元
  * @returns Promise<EvaluationResult[]>
  */
 export async function runOptimizedBatchEvaluation(
@@ -334,108 +882,500 @@ export async function runOptimizedBatchEvaluation(
   rounds: number,
   onProgress?: (progress: EvaluationProgress) => void,
   onSearchResult?: (searchResult: SearchResultCallback) => void,
-  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal,
+  checkpoint?: EvaluationCheckpoint
 ): Promise<EvaluationResult[]> {
   const results: EvaluationResult[] = [];
-  const totalTasks = queries.length * searchEngines.length * rounds;
+  const enabledDimensions = dimensions.filter(dim => dim.enabled);
+  const totalTasks = queries.length * searchEngines.length * rounds * enabledDimensions.length;
   let completedTasks = 0;
 
-  for (const query of queries) {
-    // 第一阶段：并行执行所有搜索引擎的查询
-    const searchPromises = searchEngines.map(async (engine) => {
-      try {
-        const apiConfig: ApiConfig = {
-          websearchUrl: config.websearchUrl,
-          evaluationUrl: config.apiUrl,
-          apiKey: config.modelApiKey,
-          modelKey: config.modelKey
-        };
-
-        const searchResponse = await callWebSearchApi(apiConfig, {
-          search_query: query,
-          search_engine: engine.code,
-          count: 10
-        });
+  const apiConfig = buildApiConfig(config);
+  const { searchScheduler, judgeScheduler } = createSchedulers(config);
+
+  /**
+   * 评测单个（查询, 引擎, 轮次），各维度评分单元并发提交
+   */
+  const evaluateRound = async (query: string, engine: SearchEngine, round: number, searchResponse: WebSearchResponse) => {
+    const presented = presentSearchResponse(searchResponse, engine, query, round, config);
+    try {
+      const entries = await Promise.all(enabledDimensions.map(async dimension => {
+        // 检查点中已完成的评分单元直接复用
+        const savedScore = checkpoint?.getDimensionScore(query, engine.id, round, dimension.name);
+        const outcome: DimensionOutcome = savedScore
+          ? { ok: true, value: savedScore }
+          : await runDimensionUnit(
+            query,
+            engine,
+            dimension,
+            config,
+            apiConfig,
+            presented.response,
+            onSseMessage,
+            signal,
+            judgeScheduler
+          );
 
-        // 立即回调搜索结果
+        // 只保存评分成功的单元，失败的单元在恢复时重新评测
+        if (!savedScore && outcome.ok) {
+          checkpoint?.saveDimensionScore(query, engine.id, round, dimension.name, outcome.value);
+        }
+
+        completedTasks++;
+        if (onProgress) {
+          onProgress({
+            currentEngine: engine.name,
+            currentRound: round,
+            totalRounds: rounds,
+            currentDimension: dimension.name,
+            progress: Math.round((completedTasks / totalTasks) * 100)
+          });
+        }
+
+        return [dimension.name, outcome] as const;
+      }));
+
+      results.push(buildEvaluationResult(
+        query,
+        engine,
+        round,
+        searchResponse,
+        enabledDimensions,
+        Object.fromEntries(entries),
+        presented.shuffleSeed,
+        config.queryMeta?.[query]
+      ));
+    } catch (error) {
+      // 取消时丢弃未完成的轮次
+      if (!isAbortError(error)) {
+        console.error(`评测失败 - 查询: ${query}, 引擎: ${engine.name}, 轮次: ${round}`, error);
+      }
+    }
+  };
+
+  /**
+   * 评测单个查询：等待各引擎搜索完成后提交全部评分单元
+   */
+  const evaluateQuery = async (query: string) => {
+    const roundTasks = searchEngines.map(async engine => {
+      let searchOutcome: SearchOutcome;
+      const savedSearch = checkpoint?.getSearchResponse(query, engine.id);
+      if (savedSearch) {
+        // 复用检查点中缓存的搜索结果，不再重复请求
+        searchOutcome = { ok: true, value: savedSearch };
         if (onSearchResult) {
           onSearchResult({
             engineId: engine.id,
             engineName: engine.name,
             query,
-            searchResults: searchResponse.results,
+            searchResults: savedSearch.results,
             timestamp: new Date().toISOString()
           });
         }
+      } else {
+        try {
+          searchOutcome = await fetchSearchResults(
+            query,
+            engine,
+            apiConfig,
+            searchScheduler,
+            onSearchResult,
+            signal
+          );
+        } catch {
+          // 取消时不再提交评分单元
+          return;
+        }
+        if (searchOutcome.ok) {
+          checkpoint?.saveSearchResponse(query, engine.id, searchOutcome.value);
+        }
+      }
 
-        return { engine, searchResponse };
-      } catch (error) {
-        console.error(`搜索失败 - 查询: ${query}, 引擎: ${engine.name}`, error);
-        return { engine, searchResponse: null };
+      if (!searchOutcome.ok) {
+        // 搜索重试耗尽后为每一轮记录失败结果，而不是直接丢弃
+        const { failure } = searchOutcome;
+        console.error(`跳过评分 - 查询: ${query}, 引擎: ${engine.name} (搜索失败)`);
+        for (let round = 1; round <= rounds; round++) {
+          results.push(buildSearchFailureResult(
+            query, engine, round, enabledDimensions, failure, config.queryMeta?.[query]
+          ));
+        }
+        completedTasks += rounds * enabledDimensions.length;
+        if (onProgress) {
+          onProgress({
+            currentEngine: engine.name,
+            currentRound: rounds,
+            totalRounds: rounds,
+            progress: Math.round((completedTasks / totalTasks) * 100)
+          });
+        }
+        return;
       }
+
+      const searchResponse = searchOutcome.value;
+      await Promise.all(
+        Array.from({ length: rounds }, (_, index) => evaluateRound(query, engine, index + 1, searchResponse))
+      );
     });
 
-    // 等待所有搜索完成
-    const searchResults = await Promise.all(searchPromises);
+    await Promise.all(roundTasks);
+  };
+
+  await Promise.all(queries.map(evaluateQuery));
 
-    // 第二阶段：对所有搜索结果进行评测
-    for (const { engine, searchResponse } of searchResults) {
-      if (!searchResponse) {
-        console.error(`跳过评分 - 查询: ${query}, 引擎: ${engine.name} (搜索失败)`);
-        continue;
+  // 并发完成的结果按查询、引擎、轮次顺序排列
+  const queryOrder = new Map(queries.map((query, index) => [query, index]));
+  const engineOrder = new Map(searchEngines.map((engine, index) => [engine.id, index]));
+  results.sort((a, b) =>
+    (queryOrder.get(a.query) ?? 0) - (queryOrder.get(b.query) ?? 0)
+    || (engineOrder.get(a.engineId) ?? 0) - (engineOrder.get(b.engineId) ?? 0)
+    || a.round - b.round
+  );
+
+  // 完成进度回调（取消时保留实际进度）
+  if (onProgress) {
+    const cancelled = !!signal?.aborted;
+    onProgress({
+      currentEngine: cancelled ? '已取消' : '完成',
+      currentRound: rounds,
+      totalRounds: rounds,
+      progress: cancelled ? Math.round((completedTasks / totalTasks) * 100) : 100,
+      cancelled
+    });
+  }
+
+  return results;
+}
+
+/**
+ * 按给定的先后顺序对两组搜索结果在单个维度上进行一次对比
+ * 多评委时按多数票决定胜出方，A、B票数相同时记为平局
+ * @param query 查询内容
+ * @param pairLabel 对比双方名称，用于日志
+ * @param resultsA 排在前面的结果列表（提示词中的A）
+ * @param resultsB 排在后面的结果列表（提示词中的B）
+ * @param dimension 评测维度
+ * @param config 评测配置
+ * @param apiConfig API配置
+ * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号
+ * @param judgeScheduler 评分接口调度器
+ * @returns Promise<PairJudgment>
+ */
+async function judgePairInOrder(
+  query: string,
+  pairLabel: string,
+  resultsA: WebSearchResponse['results'],
+  resultsB: WebSearchResponse['results'],
+  dimension: Dimension,
+  config: EvaluationConfig,
+  apiConfig: ApiConfig,
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal,
+  judgeScheduler?: TaskScheduler
+): Promise<PairJudgment> {
+  const dimensionPrompt = dimension.prompt || `请从${dimension.name}维度评价搜索结果的质量`;
+  const prompt = buildPairwiseComparisonPrompt(
+    query,
+    resultsA,
+    resultsB,
+    dimension.name,
+    dimensionPrompt
+  );
+  const judges = resolveJudges(config);
+
+  const settled = await Promise.allSettled(judges.map(judge => askJudge(
+    { ...config, modelKey: judge.modelKey },
+    {
+      ...apiConfig,
+      evaluationUrl: judge.apiUrl || apiConfig.evaluationUrl,
+      apiKey: judge.apiKey || apiConfig.apiKey,
+      modelKey: judge.modelKey
+    },
+    prompt,
+    parsePairwiseOutput,
+    { dimension: dimension.name, engine: pairLabel, query },
+    onSseMessage,
+    signal,
+    judgeScheduler
+  )));
+
+  const aborted = settled.find(item => item.status === 'rejected' && isAbortError(item.reason));
+  if (aborted && aborted.status === 'rejected') {
+    throw aborted.reason;
+  }
+
+  const succeeded = judges
+    .map((judge, index) => ({ judge, outcome: settled[index] }))
+    .filter((item): item is { judge: JudgeConfig; outcome: PromiseFulfilledResult<{ value: PairwiseOutput; attempts: number }> } =>
+      item.outcome.status === 'fulfilled'
+    );
+
+  const totalAttempts = settled.reduce((sum, item) => {
+    if (item.status === 'fulfilled') return sum + item.value.attempts;
+    const reason = item.reason as { attempts?: unknown };
+    return sum + (typeof reason?.attempts === 'number' ? reason.attempts : 1);
+  }, 0);
+
+  if (succeeded.length === 0) {
+    const firstError = (settled[0] as PromiseRejectedResult).reason;
+    if (firstError instanceof ApiError || firstError instanceof JudgeOutputError) {
+      firstError.attempts = totalAttempts;
+    }
+    throw firstError;
+  }
+
+  if (judges.length === 1) {
+    const { winner, rationale } = succeeded[0].outcome.value.value;
+    return { winner, rationale, attempts: totalAttempts };
+  }
+
+  const votes = succeeded.map(item => item.outcome.value.value.winner);
+  const votesA = votes.filter(vote => vote === 'A').length;
+  const votesB = votes.filter(vote => vote === 'B').length;
+
+  return {
+    winner: votesA > votesB ? 'A' : votesB > votesA ? 'B' : 'tie',
+    rationale: succeeded.map(item => `[${item.judge.name}] ${item.outcome.value.value.rationale}`).join('\n'),
+    judgeVotes: Object.fromEntries(succeeded.map(item => [item.judge.name, item.outcome.value.value.winner])),
+    attempts: totalAttempts
+  };
+}
+
+/**
+ * 交换A/B后的判定换算回原始顺序
+ * @param winner 交换顺序后的判定
+ * @returns PairwiseWinner
+ */
+function flipWinner(winner: PairwiseWinner): PairwiseWinner {
+  return winner === 'A' ? 'B' : winner === 'B' ? 'A' : 'tie';
+}
+
+/**
+ * 对两个引擎的搜索结果在单个维度上进行两两对比
+ * 启用交换顺序时分别以A在前、B在前各判定一次，两次一致才采纳，不一致时 winner 为 null
+ * @param query 查询内容
+ * @param engineA 引擎A
+ * @param engineB 引擎B
+ * @param resultsA 提交给评委的引擎A结果
+ * @param resultsB 提交给评委的引擎B结果
+ * @param dimension 评测维度
+ * @param config 评测配置
+ * @param apiConfig API配置
+ * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号
+ * @param judgeScheduler 评分接口调度器
+ * @returns Promise<Omit<PairJudgment, 'winner'> & { winner: PairwiseWinner | null; consistent?: boolean }>
+ */
+async function judgePair(
+  query: string,
+  engineA: SearchEngine,
+  engineB: SearchEngine,
+  resultsA: WebSearchResponse['results'],
+  resultsB: WebSearchResponse['results'],
+  dimension: Dimension,
+  config: EvaluationConfig,
+  apiConfig: ApiConfig,
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal,
+  judgeScheduler?: TaskScheduler
+): Promise<Omit<PairJudgment, 'winner'> & { winner: PairwiseWinner | null; consistent?: boolean }> {
+  const pairLabel = `${engineA.name} vs ${engineB.name}`;
+  if (!config.biasControls?.swapPairwiseOrder) {
+    return judgePairInOrder(
+      query, pairLabel, resultsA, resultsB, dimension, config, apiConfig, onSseMessage, signal, judgeScheduler
+    );
+  }
+
+  const [forward, swapped] = await Promise.all([
+    judgePairInOrder(
+      query, pairLabel, resultsA, resultsB, dimension, config, apiConfig, onSseMessage, signal, judgeScheduler
+    ),
+    judgePairInOrder(
+      query, `${engineB.name} vs ${engineA.name}`, resultsB, resultsA, dimension, config, apiConfig, onSseMessage, signal, judgeScheduler
+    )
+  ]);
+  const swappedWinner = flipWinner(swapped.winner);
+  const consistent = forward.winner === swappedWinner;
+
+  return {
+    winner: consistent ? forward.winner : null,
+    rationale: `[${engineA.name}在前] ${forward.rationale}\n[${engineB.name}在前] ${swapped.rationale}`,
+    judgeVotes: forward.judgeVotes && swapped.judgeVotes
+      ? {
+        ...forward.judgeVotes,
+        ...Object.fromEntries(Object.entries(swapped.judgeVotes).map(([name, vote]) => [`${name}（交换后）`, flipWinner(vote)]))
       }
+      : undefined,
+    attempts: forward.attempts + swapped.attempts,
+    consistent
+  };
+}
 
-      for (let round = 1; round <= rounds; round++) {
-        try {
-          // 更新进度
-          if (onProgress) {
-            onProgress({
-              currentEngine: engine.name,
-              currentRound: round,
-              totalRounds: rounds,
-              progress: Math.round((completedTasks / totalTasks) * 100)
-            });
-          }
+/**
+ * 两两对比批量评测：同一查询下引擎两两组合，由评分模型在每个维度上判定胜负或平局
+ * 搜索与评分请求同样受限流控制，判定失败的对比记录失败原因，不参与评级
+ * @param queries 查询列表
+ * @param searchEngines 搜索引擎列表
+ * @param dimensions 评测维度列表
+ * @param config 评测配置
+ * @param rounds 评测轮次
+ * @param onProgress 进度回调函数
+ * @param onSearchResult 搜索结果即时回调函数
+ * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号，触发后停止后续任务并返回已完成的判定
+ * @returns Promise<PairwiseVerdict[]>
+ */
+export async function runPairwiseEvaluation(
+  queries: string[],
+  searchEngines: SearchEngine[],
+  dimensions: Dimension[],
+  config: EvaluationConfig,
+  rounds: number,
+  onProgress?: (progress: EvaluationProgress) => void,
+  onSearchResult?: (searchResult: SearchResultCallback) => void,
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal
+): Promise<PairwiseVerdict[]> {
+  const verdicts: PairwiseVerdict[] = [];
+  const enabledDimensions = dimensions.filter(dim => dim.enabled);
+  const enginePairs = searchEngines.flatMap((engineA, index) =>
+    searchEngines.slice(index + 1).map(engineB => [engineA, engineB] as const)
+  );
+  const totalTasks = queries.length * enginePairs.length * rounds * enabledDimensions.length;
+  let completedTasks = 0;
 
-          // 使用已获取的搜索结果进行评分
-          const result = await evaluateWithSearchResults(
-            query,
-            engine,
-            dimensions,
-            config,
-            round,
-            searchResponse,
-            onSseMessage
-          );
-          
-          results.push(result);
-          completedTasks++;
+  const apiConfig = buildApiConfig(config);
+  const { searchScheduler, judgeScheduler } = createSchedulers(config);
 
-          // 添加延迟避免API限流
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } catch (error) {
-          console.error(`评测失败 - 查询: ${query}, 引擎: ${engine.name}, 轮次: ${round}`, error);
-          completedTasks++;
+  /**
+   * 评测单个查询：获取全部引擎的搜索结果后提交所有对比单元
+   */
+  const evaluateQuery = async (query: string) => {
+    let searchOutcomes: SearchOutcome[];
+    try {
+      searchOutcomes = await Promise.all(searchEngines.map(engine => fetchSearchResults(
+        query,
+        engine,
+        apiConfig,
+        searchScheduler,
+        onSearchResult,
+        signal
+      )));
+    } catch {
+      // 取消时不再提交对比单元
+      return;
+    }
+    const outcomeByEngine = new Map(searchEngines.map((engine, index) => [engine.id, searchOutcomes[index]]));
+
+    const units = enginePairs.flatMap(([engineA, engineB]) =>
+      Array.from({ length: rounds }, (_, index) => index + 1).flatMap(round =>
+        enabledDimensions.map(dimension => ({ engineA, engineB, round, dimension }))
+      )
+    );
+
+    await Promise.all(units.map(async ({ engineA, engineB, round, dimension }) => {
+      const outcomeA = outcomeByEngine.get(engineA.id) as SearchOutcome;
+      const outcomeB = outcomeByEngine.get(engineB.id) as SearchOutcome;
+      const baseVerdict = {
+        query,
+        round,
+        dimensionName: dimension.name,
+        engineAId: engineA.id,
+        engineAName: engineA.name,
+        engineBId: engineB.id,
+        engineBName: engineB.name
+      };
+
+      try {
+        if (!outcomeA.ok || !outcomeB.ok) {
+          // 任一引擎搜索失败时无法对比
+          const failure = !outcomeA.ok ? outcomeA.failure : (outcomeB as { ok: false; failure: DimensionFailure }).failure;
+          verdicts.push({
+            ...baseVerdict,
+            winner: null,
+            rationale: '',
+            failure,
+            attempts: 0,
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+
+        const verdict = await judgePair(
+          query,
+          engineA,
+          engineB,
+          presentSearchResponse(outcomeA.value, engineA, query, round, config).response.results,
+          presentSearchResponse(outcomeB.value, engineB, query, round, config).response.results,
+          dimension,
+          config,
+          apiConfig,
+          onSseMessage,
+          signal,
+          judgeScheduler
+        );
+        verdicts.push({ ...baseVerdict, ...verdict, timestamp: new Date().toISOString() });
+      } catch (error) {
+        // 取消时丢弃未完成的对比
+        if (isAbortError(error)) return;
+        console.error(`对比失败 - 查询: ${query}, ${engineA.name} vs ${engineB.name}, 维度: ${dimension.name}`, error);
+        const failure = toDimensionFailure(error);
+        verdicts.push({
+          ...baseVerdict,
+          winner: null,
+          rationale: '',
+          failure,
+          attempts: failure.attempts,
+          timestamp: new Date().toISOString()
+        });
+      } finally {
+        completedTasks++;
+        if (onProgress && !signal?.aborted) {
+          onProgress({
+            currentEngine: `${engineA.name} vs ${engineB.name}`,
+            currentRound: round,
+            totalRounds: rounds,
+            currentDimension: dimension.name,
+            progress: Math.round((completedTasks / totalTasks) * 100)
+          });
         }
       }
-    }
-  }
+    }));
+  };
+
+  await Promise.all(queries.map(evaluateQuery));
 
-  // 完成进度回调
+  // 并发完成的判定按查询、引擎对、轮次、维度顺序排列
+  const queryOrder = new Map(queries.map((query, index) => [query, index]));
+  const engineOrder = new Map(searchEngines.map((engine, index) => [engine.id, index]));
+  const dimensionOrder = new Map(enabledDimensions.map((dimension, index) => [dimension.name, index]));
+  verdicts.sort((a, b) =>
+    (queryOrder.get(a.query) ?? 0) - (queryOrder.get(b.query) ?? 0)
+    || (engineOrder.get(a.engineAId) ?? 0) - (engineOrder.get(b.engineAId) ?? 0)
+    || (engineOrder.get(a.engineBId) ?? 0) - (engineOrder.get(b.engineBId) ?? 0)
+    || a.round - b.round
+    || (dimensionOrder.get(a.dimensionName) ?? 0) - (dimensionOrder.get(b.dimensionName) ?? 0)
+  );
+
+  // 完成进度回调（取消时保留实际进度）
   if (onProgress) {
+    const cancelled = !!signal?.aborted;
     onProgress({
-      currentEngine: '完成',
+      currentEngine: cancelled ? '已取消' : '完成',
       currentRound: rounds,
       totalRounds: rounds,
-      progress: 100
+      progress: cancelled || totalTasks === 0 ? Math.round((completedTasks / Math.max(totalTasks, 1)) * 100) : 100,
+      cancelled
     });
   }
 
-  return results;
+  return verdicts;
 }
 
 /**
- * 原版批量评测（保持向后兼容）
+ * 原版批量评测（保持向后兼容）：按查询、引擎、轮次顺序逐个评测，请求同样受限流控制
  * @param queries 查询列表
  * @param searchEngines 搜索引擎列表
  * @param dimensions 评测维度列表
@@ -444,6 +1384,7 @@ export async function runOptimizedBatchEvaluation(
  * @param onProgress 进度回调函数
  * @param onSearchResult 搜索结果即时回调函数
  * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号，触发后停止后续任务并返回已完成的结果
  * @returns Promise<EvaluationResult[]>
  */
 export async function runBatchEvaluation(
@@ -454,62 +1395,59 @@ export async function runBatchEvaluation(
   rounds: number,
   onProgress?: (progress: EvaluationProgress) => void,
   onSearchResult?: (searchResult: SearchResultCallback) => void,
-  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal
 ): Promise<EvaluationResult[]> {
   const results: EvaluationResult[] = [];
+  const enabledDimensions = dimensions.filter(dim => dim.enabled);
   const totalTasks = queries.length * searchEngines.length * rounds;
   let completedTasks = 0;
 
+  const apiConfig = buildApiConfig(config);
+  const { searchScheduler, judgeScheduler } = createSchedulers(config);
+
   for (const query of queries) {
+    if (signal?.aborted) break;
+
     // 先为每个搜索引擎获取一次搜索结果
-    const searchResultsMap = new Map<number, WebSearchResponse>();
+    const searchResultsMap = new Map<number, SearchOutcome>();
     
     for (const engine of searchEngines) {
+      if (signal?.aborted) break;
       try {
-        // 构建API配置
-        const apiConfig: ApiConfig = {
-          websearchUrl: config.websearchUrl,
-          evaluationUrl: config.apiUrl,
-          apiKey: config.modelApiKey,
-          modelKey: config.modelKey
-        };
-
-        // 调用WebSearch API获取搜索结果（每个引擎只查询一次）
-        const searchResponse = await callWebSearchApi(apiConfig, {
-          search_query: query,
-          search_engine: engine.code,
-          count: 10
-        });
-        
-        searchResultsMap.set(engine.id, searchResponse);
-        
-        // 立即回调搜索结果
-        if (onSearchResult) {
-          onSearchResult({
-            engineId: engine.id,
-            engineName: engine.name,
-            query,
-            searchResults: searchResponse.results,
-            timestamp: new Date().toISOString()
-          });
-        }
-        
-        // 添加延迟避免API限流
-        await new Promise(resolve => setTimeout(resolve, 500));
-      } catch (error) {
-        console.error(`搜索失败 - 查询: ${query}, 引擎: ${engine.name}`, error);
+        const searchOutcome = await fetchSearchResults(
+          query,
+          engine,
+          apiConfig,
+          searchScheduler,
+          onSearchResult,
+          signal
+        );
+        searchResultsMap.set(engine.id, searchOutcome);
+      } catch {
+        break;
       }
     }
 
     // 然后对每个搜索结果进行多轮评分
     for (const engine of searchEngines) {
-      const searchResponse = searchResultsMap.get(engine.id);
-      if (!searchResponse) {
+      const searchOutcome = searchResultsMap.get(engine.id);
+      if (signal?.aborted || !searchOutcome) break;
+      if (!searchOutcome.ok) {
+        // 搜索重试耗尽后为每一轮记录失败结果
         console.error(`跳过评分 - 查询: ${query}, 引擎: ${engine.name} (搜索失败)`);
+        for (let round = 1; round <= rounds; round++) {
+          results.push(buildSearchFailureResult(
+            query, engine, round, enabledDimensions, searchOutcome.failure, config.queryMeta?.[query]
+          ));
+        }
+        completedTasks += rounds;
         continue;
       }
+      const searchResponse = searchOutcome.value;
 
       for (let round = 1; round <= rounds; round++) {
+        if (signal?.aborted) break;
         try {
           // 更新进度
           if (onProgress) {
@@ -521,23 +1459,29 @@ export async function runBatchEvaluation(
             });
           }
 
-          // 使用已获取的搜索结果进行评分
-          const result = await evaluateWithSearchResults(
-            query,
-            engine,
-            dimensions,
-            config,
-            round,
-            searchResponse,
-            onSseMessage
-          );
+          // 使用已获取的搜索结果逐个维度评分
+          const presented = presentSearchResponse(searchResponse, engine, query, round, config);
+          const outcomes: Record<string, DimensionOutcome> = {};
+          for (const dimension of enabledDimensions) {
+            outcomes[dimension.name] = await runDimensionUnit(
+              query,
+              engine,
+              dimension,
+              config,
+              apiConfig,
+              presented.response,
+              onSseMessage,
+              signal,
+              judgeScheduler
+            );
+          }
           
-          results.push(result);
+          results.push(buildEvaluationResult(
+            query, engine, round, searchResponse, enabledDimensions, outcomes, presented.shuffleSeed, config.queryMeta?.[query]
+          ));
           completedTasks++;
-
-          // 添加延迟避免API限流
-          await new Promise(resolve => setTimeout(resolve, 1000));
         } catch (error) {
+          if (isAbortError(error)) break;
           console.error(`评测失败 - 查询: ${query}, 引擎: ${engine.name}, 轮次: ${round}`, error);
           completedTasks++;
         }
@@ -545,13 +1489,15 @@ export async function runBatchEvaluation(
     }
   }
 
-  // 完成进度回调
+  // 完成进度回调（取消时保留实际进度）
   if (onProgress) {
+    const cancelled = !!signal?.aborted;
     onProgress({
-      currentEngine: '完成',
+      currentEngine: cancelled ? '已取消' : '完成',
       currentRound: rounds,
       totalRounds: rounds,
-      progress: 100
+      progress: cancelled ? Math.round((completedTasks / totalTasks) * 100) : 100,
+      cancelled
     });
   }
 
@@ -568,6 +1514,8 @@ export async function runBatchEvaluation(
  * @param onProgress 进度回调函数
  * @param onSearchResult 搜索结果即时回调函数
  * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号，触发后停止后续任务并返回已完成的结果
+ * @param checkpoint 评测检查点
  * @returns Promise<EvaluationResult[]>
  */
 export async function runOptimizedSingleEvaluation(
@@ -578,7 +1526,9 @@ export async function runOptimizedSingleEvaluation(
   rounds: number,
   onProgress?: (progress: EvaluationProgress) => void,
   onSearchResult?: (searchResult: SearchResultCallback) => void,
-  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal,
+  checkpoint?: EvaluationCheckpoint
 ): Promise<EvaluationResult[]> {
   return runOptimizedBatchEvaluation(
     [query],
@@ -588,7 +1538,9 @@ export async function runOptimizedSingleEvaluation(
     rounds,
     onProgress,
     onSearchResult,
-    onSseMessage
+    onSseMessage,
+    signal,
+    checkpoint
   );
 }
 
@@ -602,6 +1554,7 @@ export async function runOptimizedSingleEvaluation(
  * @param onProgress 进度回调函数
  * @param onSearchResult 搜索结果即时回调函数
  * @param onSseMessage SSE消息回调函数，用于流式响应
+ * @param signal 取消信号，触发后停止后续任务并返回已完成的结果
  * @returns Promise<EvaluationResult[]>
  */
 export async function runSingleEvaluation(
@@ -612,7 +1565,8 @@ export async function runSingleEvaluation(
   rounds: number,
   onProgress?: (progress: EvaluationProgress) => void,
   onSearchResult?: (searchResult: SearchResultCallback) => void,
-  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void
+  onSseMessage?: (message: string, metadata?: {dimension?: string, engine?: string, query?: string}) => void,
+  signal?: AbortSignal
 ): Promise<EvaluationResult[]> {
   return runBatchEvaluation(
     [query],
@@ -622,7 +1576,8 @@ export async function runSingleEvaluation(
     rounds,
     onProgress,
     onSearchResult,
-    onSseMessage
+    onSseMessage,
+    signal
   );
 }
 
@@ -688,6 +1643,39 @@ export function validateEvaluationConfig(config: EvaluationConfig): {
     errors.push('Websearch URL不能为空');
   }
 
+  if (config.rateLimits) {
+    errors.push(...validateRateLimits(config.rateLimits).errors);
+  }
+
+  if (config.retryPolicy) {
+    if (!Number.isInteger(config.retryPolicy.maxRetries) || config.retryPolicy.maxRetries < 0) {
+      errors.push('最大重试次数必须为非负整数');
+    }
+    if (!Number.isFinite(config.retryPolicy.timeoutMs) || config.retryPolicy.timeoutMs < 0) {
+      errors.push('请求超时时间不能为负数');
+    }
+  }
+
+  if (config.judges && config.judges.length > 0) {
+    errors.push(...validateJudges(config.judges).errors);
+  }
+
+  if (config.biasControls) {
+    errors.push(...validateBiasControls(config.biasControls).errors);
+  }
+
+  if (config.queryMeta && Object.values(config.queryMeta).some(meta => !Number.isFinite(meta.weight) || meta.weight <= 0)) {
+    errors.push('查询权重必须为正数');
+  }
+
+  const scoringSystemValidation = validateScoringSystem(config.scoringSystem);
+  errors.push(...scoringSystemValidation.errors);
+
+  if (config.judgmentMode === 'perResult') {
+    const stepTableValidation = validateStepTable(config.scoringSystem.stepTable || [], config.scoringSystem);
+    errors.push(...stepTableValidation.errors.map(error => `阶梯计分表: ${error}`));
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -697,8 +1685,13 @@ export function validateEvaluationConfig(config: EvaluationConfig): {
 export type {
   SearchEngine,
   Dimension,
+  JudgmentMode,
   EvaluationConfig,
   EvaluationResult,
+  DimensionFailure,
+  DimensionScore,
+  EvaluationCheckpoint,
   EvaluationProgress,
+  PairwiseVerdict,
   SearchResultCallback
 };
\ No newline at end of file
@@ -0,0 +1,294 @@
+/**
+ * 结果导出模块
+ * 将评测结果按（查询 × 引擎 × 轮次 × 维度）展开为 CSV / JSONL 行，并生成 Markdown 汇总报告
+ */
+
+import { getQueryWeight, type QueryMeta } from './querySetService';
+import { weightedMean } from './statisticsService';
+import type { SearchResultItem } from './apiService';
+import type { ResultJudgment, ScoringSystem } from './scoringService';
+import type {
+  Dimension,
+  DimensionFailure,
+  EvaluationResult,
+  SearchEngine
+} from './evaluationService';
+
+// 导出行接口（每个评分单元一行，结果级字段在同一结果的各行中重复）
+interface ExportRow {
+  schemaVersion: number;
+  query: string;
+  queryMeta?: QueryMeta;
+  engineId: number;
+  engineName: string;
+  round: number;
+  dimension: string | null; // 该轮没有任何维度记录时为 null
+  score: number | null; // 评分失败时为 null
+  rationale?: string;
+  resultJudgments?: ResultJudgment[];
+  judgeScores?: Record<string, number>;
+  failure?: DimensionFailure;
+  attempts?: number;
+  weightedScore: number;
+  searchAttempts?: number;
+  shuffleSeed?: number;
+  timestamp: string;
+  searchResults: SearchResultItem[];
+}
+
+/**
+ * 导出文件格式版本（导出行字段发生不兼容变化时提升）
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+// Markdown 报告默认列出的最差查询条数
+const DEFAULT_WORST_QUERY_COUNT = 10;
+
+/**
+ * 将评测结果展开为导出行
+ * @param results 评测结果
+ * @returns ExportRow[]
+ */
+export function toExportRows(results: EvaluationResult[]): ExportRow[] {
+  return results.flatMap((result): ExportRow[] => {
+    const dimensionNames = Array.from(new Set([
+      ...Object.keys(result.scores),
+      ...Object.keys(result.failures || {})
+    ]));
+
+    const base = {
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      query: result.query,
+      queryMeta: result.queryMeta,
+      engineId: result.engineId,
+      engineName: result.engineName,
+      round: result.round,
+      weightedScore: result.weightedScore,
+      searchAttempts: result.searchAttempts,
+      shuffleSeed: result.shuffleSeed,
+      timestamp: result.timestamp,
+      searchResults: result.searchResults
+    };
+
+    if (dimensionNames.length === 0) {
+      return [{ ...base, dimension: null, score: null }];
+    }
+
+    return dimensionNames.map(dimension => ({
+      ...base,
+      dimension,
+      score: result.scores[dimension] ?? null,
+      rationale: result.rationales?.[dimension],
+      resultJudgments: result.resultJudgments?.[dimension],
+      judgeScores: result.judgeScores?.[dimension],
+      failure: result.failures?.[dimension],
+      attempts: result.attempts?.[dimension]
+    }));
+  });
+}
+
+/**
+ * 转义 CSV 字段（含逗号、引号或换行时用双引号包裹）
+ * 以 = + - @ 开头的文本前加单引号，防止在 Excel 等表格软件中被当作公式执行
+ * @param value 字段值
+ * @returns string
+ */
+function escapeCsvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 导出为 CSV（搜索结果以 JSON 字符串放在 search_results 列，不含原始返回字段）
+ * 带 BOM，便于 Excel 正确识别中文
+ * @param results 评测结果
+ * @returns string
+ */
+export function exportResultsCsv(results: EvaluationResult[]): string {
+  const columns: Array<{ header: string; value: (row: ExportRow) => unknown }> = [
+    { header: 'schema_version', value: row => row.schemaVersion },
+    { header: 'query', value: row => row.query },
+    { header: 'category', value: row => row.queryMeta?.category },
+    { header: 'tags', value: row => row.queryMeta?.tags.join(';') },
+    { header: 'query_weight', value: row => row.queryMeta ? getQueryWeight(row.queryMeta) : undefined },
+    { header: 'engine_id', value: row => row.engineId },
+    { header: 'engine_name', value: row => row.engineName },
+    { header: 'round', value: row => row.round },
+    { header: 'dimension', value: row => row.dimension },
+    { header: 'score', value: row => row.score },
+    { header: 'rationale', value: row => row.rationale },
+    { header: 'result_judgments', value: row => row.resultJudgments },
+    { header: 'judge_scores', value: row => row.judgeScores },
+    { header: 'failure_type', value: row => row.failure?.errorType },
+    { header: 'failure_message', value: row => row.failure?.message },
+    { header: 'attempts', value: row => row.attempts },
+    { header: 'weighted_score', value: row => row.weightedScore },
+    { header: 'shuffle_seed', value: row => row.shuffleSeed },
+    { header: 'timestamp', value: row => row.timestamp },
+    {
+      header: 'search_results',
+      value: row => row.searchResults.map(item => ({
+        rank: item.rank,
+        title: item.title,
+        url: item.url,
+        snippet: item.snippet,
+        publishDate: item.publishDate,
+        media: item.media
+      }))
+    }
+  ];
+
+  const lines = [
+    columns.map(column => column.header).join(','),
+    ...toExportRows(results).map(row => columns.map(column => escapeCsvField(column.value(row))).join(','))
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * 导出为 JSONL（每行一个导出行，包含完整搜索结果）
+ * @param results 评测结果
+ * @returns string
+ */
+export function exportResultsJsonl(results: EvaluationResult[]): string {
+  return toExportRows(results).map(row => JSON.stringify(row)).join('\n') + '\n';
+}
+
+/**
+ * 转义 Markdown 表格单元格
+ * @param value 单元格内容
+ * @returns string
+ */
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * 生成 Markdown 表格
+ * @param headers 表头
+ * @param rows 表格行
+ * @returns string
+ */
+function markdownTable(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.map(escapeMarkdownCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * 生成 Markdown 汇总报告：概览、引擎排名、各维度得分与加权总分最低的查询
+ * 引擎分数按查询权重加权平均，全部维度失败的轮次不参与统计
+ * @param params 评测结果与配置
+ * @returns string
+ */
+export function buildMarkdownReport(params: {
+  results: EvaluationResult[];
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  scoringSystem: ScoringSystem;
+  worstQueryCount?: number;
+}): string {
+  const { searchEngines, dimensions, scoringSystem } = params;
+  const worstQueryCount = params.worstQueryCount ?? DEFAULT_WORST_QUERY_COUNT;
+  const results = params.results.filter(result => Object.keys(result.scores).length > 0);
+  const enabledDimensions = dimensions.filter(dim => dim.enabled);
+
+  const timestamps = params.results.map(result => result.timestamp).sort();
+  const queryCount = new Set(params.results.map(result => result.query)).size;
+  const roundCount = Math.max(0, ...params.results.map(result => result.round));
+  const failedCount = params.results.reduce((sum, result) => sum + Object.keys(result.failures || {}).length, 0);
+
+  const engineRows = searchEngines.map(engine => {
+    const engineResults = results.filter(result => result.engineId === engine.id);
+    const weights = engineResults.map(result => getQueryWeight(result.queryMeta));
+    return {
+      engine,
+      count: engineResults.length,
+      average: weightedMean(engineResults.map(result => result.weightedScore), weights),
+      dimensionAverages: Object.fromEntries(enabledDimensions.map(dim => {
+        const scored = engineResults.filter(result => result.scores[dim.name] !== undefined);
+        return [dim.name, scored.length > 0
+          ? weightedMean(scored.map(result => result.scores[dim.name]), scored.map(result => getQueryWeight(result.queryMeta)))
+          : null];
+      }))
+    };
+  }).filter(row => row.count > 0).sort((a, b) => b.average - a.average);
+
+  // 同一（查询, 引擎）多轮取平均后按加权总分升序
+  const byQuery = new Map<string, EvaluationResult[]>();
+  for (const result of results) {
+    const key = JSON.stringify([result.query, result.engineId]);
+    byQuery.set(key, [...(byQuery.get(key) || []), result]);
+  }
+  const worstQueries = Array.from(byQuery.values())
+    .map(rounds => {
+      const dimensionAverages = enabledDimensions
+        .map(dim => {
+          const scores = rounds.map(result => result.scores[dim.name]).filter((score): score is number => score !== undefined);
+          return { name: dim.name, score: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null };
+        })
+        .filter((item): item is { name: string; score: number } => item.score !== null);
+      const lowest = dimensionAverages.reduce<{ name: string; score: number } | null>(
+        (min, item) => (min === null || item.score < min.score ? item : min), null
+      );
+      return {
+        query: rounds[0].query,
+        engineName: rounds[0].engineName,
+        category: rounds[0].queryMeta?.category,
+        average: rounds.reduce((sum, result) => sum + result.weightedScore, 0) / rounds.length,
+        lowest
+      };
+    })
+    .sort((a, b) => a.average - b.average)
+    .slice(0, worstQueryCount);
+
+  const sections = [
+    '# 搜索引擎评测报告',
+    [
+      `- 评测时间：${timestamps.length > 0 ? `${new Date(timestamps[0]).toLocaleString()} ~ ${new Date(timestamps[timestamps.length - 1]).toLocaleString()}` : '-'}`,
+      `- 查询数：${queryCount}`,
+      `- 搜索引擎：${searchEngines.map(engine => engine.name).join('、')}`,
+      `- 评测轮数：${roundCount}`,
+      `- 评分制式：${scoringSystem.label}`,
+      `- 评测维度：${enabledDimensions.map(dim => `${dim.name}（权重 ${dim.weight}）`).join('、')}`,
+      ...(failedCount > 0 ? [`- 评分失败：${failedCount} 个评分单元（不计入分数）`] : [])
+    ].join('\n'),
+    '## 引擎排名',
+    markdownTable(
+      ['排名', '引擎', '加权总分', '有效轮次'],
+      engineRows.map((row, index) => [String(index + 1), row.engine.name, row.average.toFixed(2), String(row.count)])
+    ),
+    '## 各维度得分',
+    markdownTable(
+      ['引擎', ...enabledDimensions.map(dim => dim.name)],
+      engineRows.map(row => [
+        row.engine.name,
+        ...enabledDimensions.map(dim => {
+          const score = row.dimensionAverages[dim.name];
+          return score === null ? '-' : score.toFixed(2);
+        })
+      ])
+    ),
+    `## 加权总分最低的 ${worstQueries.length} 条查询`,
+    markdownTable(
+      ['查询', '引擎', '分类', '加权总分', '最低维度'],
+      worstQueries.map(item => [
+        item.query,
+        item.engineName,
+        item.category || '-',
+        item.average.toFixed(2),
+        item.lowest ? `${item.lowest.name} ${item.lowest.score.toFixed(2)}` : '-'
+      ])
+    )
+  ];
+
+  return sections.join('\n\n') + '\n';
+}
+
+export type { ExportRow };
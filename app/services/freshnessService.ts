@@ -0,0 +1,168 @@
+/**
+ * 时效性指标模块
+ * 根据搜索结果的发布时间计算相对评测时间的内容新鲜度，作为时效性维度的规则参考
+ */
+
+// 参与计算的评测记录（只依赖评测结果中的必要字段）
+interface DatedResultRecord {
+  query: string;
+  engineId: number;
+  timestamp: string;
+  searchResults: Array<{ rank: number; publishDate?: string }>;
+}
+
+// 发布时间距评测时间的区间
+type FreshnessBucket = 'day' | 'week' | 'month' | 'year' | 'older' | 'unknown';
+
+// 结果列表的新鲜度统计
+interface FreshnessStats {
+  buckets: Record<FreshnessBucket, number>; // 各区间的结果条数
+  totalCount: number;
+  datedCount: number; // 有发布时间的结果条数
+  medianAgeDays: number | null; // 有发布时间的结果的中位天数
+}
+
+// 引擎的新鲜度汇总
+interface EngineFreshness extends FreshnessStats {
+  engineId: number;
+  engineName: string;
+}
+
+/**
+ * 各区间的显示文本（按从新到旧排列）
+ */
+export const FRESHNESS_BUCKETS: Array<{ key: FreshnessBucket; label: string; maxDays: number }> = [
+  { key: 'day', label: '1天内', maxDays: 1 },
+  { key: 'week', label: '7天内', maxDays: 7 },
+  { key: 'month', label: '30天内', maxDays: 30 },
+  { key: 'year', label: '1年内', maxDays: 365 },
+  { key: 'older', label: '1年以上', maxDays: Infinity }
+];
+
+// 一天的毫秒数
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 解析发布时间，支持 2024-05-01、2024/5/1、2024年5月1日 等常见格式（按本地时区）
+ * @param value 发布时间文本
+ * @returns Date | null 无法解析时返回 null
+ */
+export function parsePublishDate(value?: string): Date | null {
+  if (!value) return null;
+
+  const match = value.match(/(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})/);
+  if (match) {
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? null : new Date(timestamp);
+}
+
+/**
+ * 计算前k条结果的发布天数；发布时间晚于评测时间的按0天计
+ * @param searchResults 搜索结果
+ * @param runDate 评测时间
+ * @param k 截断位置
+ * @returns { ages: number[]; totalCount: number } 有发布时间的结果天数与参与统计的结果条数
+ */
+function getAgesInDays(
+  searchResults: Array<{ rank: number; publishDate?: string }>,
+  runDate: Date,
+  k: number
+): { ages: number[]; totalCount: number } {
+  const topResults = [...searchResults].sort((a, b) => a.rank - b.rank).slice(0, k);
+  const ages = topResults
+    .map(result => parsePublishDate(result.publishDate))
+    .filter((published): published is Date => published !== null)
+    .map(published => Math.max(0, (runDate.getTime() - published.getTime()) / DAY_MS));
+  return { ages, totalCount: topResults.length };
+}
+
+/**
+ * 计算中位数，列表为空时返回 null
+ * @param values 数值列表
+ * @returns number | null
+ */
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * 由发布天数生成新鲜度统计
+ * @param ages 有发布时间的结果天数
+ * @param totalCount 参与统计的结果条数
+ * @returns FreshnessStats
+ */
+function buildFreshnessStats(ages: number[], totalCount: number): FreshnessStats {
+  const buckets: Record<FreshnessBucket, number> = { day: 0, week: 0, month: 0, year: 0, older: 0, unknown: 0 };
+  for (const ageDays of ages) {
+    const bucket = FRESHNESS_BUCKETS.find(item => ageDays <= item.maxDays) as typeof FRESHNESS_BUCKETS[number];
+    buckets[bucket.key]++;
+  }
+  buckets.unknown = totalCount - ages.length;
+
+  return {
+    buckets,
+    totalCount,
+    datedCount: ages.length,
+    medianAgeDays: median(ages)
+  };
+}
+
+/**
+ * 计算前k条结果相对评测时间的新鲜度
+ * @param searchResults 搜索结果
+ * @param runDate 评测时间
+ * @param k 截断位置
+ * @returns FreshnessStats
+ */
+export function computeFreshness(
+  searchResults: Array<{ rank: number; publishDate?: string }>,
+  runDate: Date,
+  k: number
+): FreshnessStats {
+  const { ages, totalCount } = getAgesInDays(searchResults, runDate, k);
+  return buildFreshnessStats(ages, totalCount);
+}
+
+/**
+ * 汇总各引擎前k条结果的新鲜度分布
+ * 同一（查询, 引擎）的多轮评测共用一次搜索结果，只统计第一条有搜索结果的记录，以其评测时间为基准
+ * @param results 评测结果
+ * @param engines 搜索引擎列表
+ * @param k 截断位置
+ * @returns EngineFreshness[]
+ */
+export function summarizeFreshness(
+  results: DatedResultRecord[],
+  engines: Array<{ id: number; name: string }>,
+  k: number
+): EngineFreshness[] {
+  return engines.map(engine => {
+    const ages: number[] = [];
+    let totalCount = 0;
+    const seenQueries = new Set<string>();
+
+    for (const result of results) {
+      if (result.engineId !== engine.id || result.searchResults.length === 0 || seenQueries.has(result.query)) continue;
+      seenQueries.add(result.query);
+
+      const queryAges = getAgesInDays(result.searchResults, new Date(result.timestamp), k);
+      ages.push(...queryAges.ages);
+      totalCount += queryAges.totalCount;
+    }
+
+    return {
+      engineId: engine.id,
+      engineName: engine.name,
+      ...buildFreshnessStats(ages, totalCount)
+    };
+  });
+}
+
+export type { DatedResultRecord, FreshnessBucket, FreshnessStats, EngineFreshness };
@@ -0,0 +1,539 @@
+/**
+ * HTML 报告模块
+ * 生成可离线打开的单文件 HTML 报告：评测配置、汇总图表（内联 SVG）、逐查询明细与评测方法说明
+ */
+
+import {
+  buildEvaluationPrompt,
+  buildPerResultEvaluationPrompt,
+  type SearchResultItem
+} from './apiService';
+import { formatScoreRange, normalizeScore, type ScoringSystem } from './scoringService';
+import { ENSEMBLE_METHODS } from './ensembleService';
+import { CONTENT_SIZE_OPTIONS, RECENCY_FILTER_OPTIONS, resolveSearchParams } from './searchProfileService';
+import { getQueryWeight } from './querySetService';
+import { weightedMean } from './statisticsService';
+import type { CheckpointConfig } from './checkpointService';
+import type { Dimension, EvaluationResult, SearchEngine } from './evaluationService';
+
+// 单个引擎的汇总数据
+interface EngineSummary {
+  engine: SearchEngine;
+  color: string;
+  resultCount: number;
+  averageScore: number | null;
+  dimensionScores: Record<string, number | null>;
+  roundScores: Array<number | null>; // 第 i 项为第 i+1 轮的加权平均分
+}
+
+// 引擎配色（与汇总面板的引擎配色一致）
+const ENGINE_COLORS = ['#3b82f6', '#22c55e', '#f97316', '#a855f7', '#ec4899', '#14b8a6'];
+
+// 图表尺寸
+const CHART_WIDTH = 640;
+const CHART_LABEL_WIDTH = 140;
+const CHART_ROW_HEIGHT = 28;
+const CHART_PLOT_HEIGHT = 200;
+
+// 逐条判定等级的显示文本
+const GRADE_LABELS = ['不符合', '部分符合', '高度符合'];
+
+// 方法说明中代替真实查询与搜索结果的占位内容
+const PLACEHOLDER_QUERY = '{查询}';
+const PLACEHOLDER_RESULT: SearchResultItem = {
+  rank: 1,
+  title: '{标题}',
+  url: '{链接}',
+  snippet: '{摘要}'
+};
+
+// 报告内联样式
+const REPORT_STYLE = `
+body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111827; background: #f9fafb; margin: 0; }
+main { max-width: 1040px; margin: 0 auto; padding: 32px 24px; }
+h1 { font-size: 26px; margin: 0 0 4px; }
+h2 { font-size: 20px; margin: 40px 0 12px; padding-bottom: 6px; border-bottom: 1px solid #e5e7eb; }
+h3 { font-size: 16px; margin: 24px 0 8px; }
+.muted { color: #6b7280; font-size: 13px; }
+.card { background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; margin-bottom: 16px; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+th { color: #6b7280; font-weight: 500; }
+dl { display: grid; grid-template-columns: 140px 1fr; gap: 6px 12px; font-size: 13px; margin: 0; }
+dt { color: #6b7280; }
+dd { margin: 0; }
+details { background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; margin-bottom: 8px; }
+summary { cursor: pointer; padding: 10px 12px; font-size: 14px; }
+details > div { padding: 0 12px 12px; }
+ol { padding-left: 20px; font-size: 13px; }
+li { margin-bottom: 6px; }
+a { color: #2563eb; word-break: break-all; }
+pre { background: #f3f4f6; padding: 12px; border-radius: 6px; font-size: 12px; white-space: pre-wrap; word-break: break-word; }
+.legend span { display: inline-flex; align-items: center; margin-right: 16px; font-size: 13px; }
+.legend i { display: inline-block; width: 12px; height: 12px; border-radius: 3px; margin-right: 4px; }
+.failure { color: #b91c1c; }
+.tag { display: inline-block; padding: 0 6px; margin-right: 4px; border-radius: 4px; background: #eef2ff; color: #4338ca; font-size: 12px; }
+`;
+
+/**
+ * 转义 HTML 文本
+ * @param value 文本
+ * @returns string
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 判断链接能否作为可点击的 href 输出（只允许 http/https，排除 javascript:、data: 等）
+ * @param url 链接
+ * @returns boolean
+ */
+function isSafeLink(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 格式化分数，没有分数时显示 -
+ * @param score 分数
+ * @returns string
+ */
+function formatScore(score: number | null | undefined): string {
+  return score === null || score === undefined ? '-' : score.toFixed(2);
+}
+
+/**
+ * 按查询权重求加权平均，列表为空时返回 null
+ * @param results 评测结果
+ * @param pick 取分函数，返回 undefined 的结果不参与平均
+ * @returns number | null
+ */
+function weightedAverage(results: EvaluationResult[], pick: (result: EvaluationResult) => number | undefined): number | null {
+  const scored = results.filter(result => pick(result) !== undefined);
+  if (scored.length === 0) return null;
+  return weightedMean(
+    scored.map(result => pick(result) as number),
+    scored.map(result => getQueryWeight(result.queryMeta))
+  );
+}
+
+/**
+ * 汇总各引擎的总分、维度分与逐轮分数（全部维度失败的轮次不参与统计）
+ * @param results 评测结果
+ * @param searchEngines 搜索引擎列表
+ * @param dimensions 启用的维度
+ * @param rounds 评测轮数
+ * @returns EngineSummary[]
+ */
+function summarizeEngines(
+  results: EvaluationResult[],
+  searchEngines: SearchEngine[],
+  dimensions: Dimension[],
+  rounds: number
+): EngineSummary[] {
+  return searchEngines.map((engine, index) => {
+    const engineResults = results.filter(result =>
+      result.engineId === engine.id && Object.keys(result.scores).length > 0
+    );
+    return {
+      engine,
+      color: ENGINE_COLORS[index % ENGINE_COLORS.length],
+      resultCount: engineResults.length,
+      averageScore: weightedAverage(engineResults, result => result.weightedScore),
+      dimensionScores: Object.fromEntries(dimensions.map(dim => [
+        dim.name,
+        weightedAverage(engineResults, result => result.scores[dim.name])
+      ])),
+      roundScores: Array.from({ length: rounds }, (_, roundIndex) => weightedAverage(
+        engineResults.filter(result => result.round === roundIndex + 1),
+        result => result.weightedScore
+      ))
+    };
+  });
+}
+
+/**
+ * 渲染图例
+ * @param engines 引擎汇总
+ * @returns string
+ */
+function renderLegend(engines: EngineSummary[]): string {
+  return `<div class="legend">${engines.map(item =>
+    `<span><i style="background:${item.color}"></i>${escapeHtml(item.engine.name)}</span>`
+  ).join('')}</div>`;
+}
+
+/**
+ * 渲染引擎总分横向条形图
+ * @param engines 引擎汇总（已按分数排序）
+ * @param scoringSystem 评分制式
+ * @returns string
+ */
+function renderScoreChart(engines: EngineSummary[], scoringSystem: ScoringSystem): string {
+  const barWidth = CHART_WIDTH - CHART_LABEL_WIDTH - 60;
+  const height = engines.length * CHART_ROW_HEIGHT;
+  const rows = engines.map((item, index) => {
+    const y = index * CHART_ROW_HEIGHT;
+    const width = item.averageScore === null ? 0 : Math.min(1, normalizeScore(item.averageScore, scoringSystem)) * barWidth;
+    return [
+      `<text x="${CHART_LABEL_WIDTH - 8}" y="${y + 18}" text-anchor="end" font-size="12" fill="#374151">${escapeHtml(item.engine.name)}</text>`,
+      `<rect x="${CHART_LABEL_WIDTH}" y="${y + 6}" width="${barWidth}" height="16" rx="4" fill="#e5e7eb"/>`,
+      `<rect x="${CHART_LABEL_WIDTH}" y="${y + 6}" width="${width.toFixed(1)}" height="16" rx="4" fill="${item.color}"/>`,
+      `<text x="${CHART_LABEL_WIDTH + barWidth + 8}" y="${y + 18}" font-size="12" fill="#111827">${formatScore(item.averageScore)}</text>`
+    ].join('');
+  });
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${height}" width="100%" role="img" aria-label="引擎总分">${rows.join('')}</svg>`;
+}
+
+/**
+ * 渲染纵轴刻度与网格线（按评分制式的分数范围）
+ * @param scoringSystem 评分制式
+ * @param top 绘图区顶部
+ * @returns string
+ */
+function renderYAxis(scoringSystem: ScoringSystem, top: number): string {
+  const ticks = 4;
+  return Array.from({ length: ticks + 1 }, (_, index) => {
+    const value = scoringSystem.minScore + (scoringSystem.maxScore - scoringSystem.minScore) * index / ticks;
+    const y = top + CHART_PLOT_HEIGHT - CHART_PLOT_HEIGHT * index / ticks;
+    return `<line x1="40" y1="${y}" x2="${CHART_WIDTH}" y2="${y}" stroke="#e5e7eb"/>`
+      + `<text x="34" y="${y + 4}" text-anchor="end" font-size="11" fill="#6b7280">${Number(value.toFixed(2))}</text>`;
+  }).join('');
+}
+
+/**
+ * 将分数换算为绘图区内的纵坐标
+ * @param score 分数
+ * @param scoringSystem 评分制式
+ * @param top 绘图区顶部
+ * @returns number
+ */
+function scoreToY(score: number, scoringSystem: ScoringSystem, top: number): number {
+  const ratio = Math.max(0, Math.min(1, normalizeScore(score, scoringSystem)));
+  return top + CHART_PLOT_HEIGHT * (1 - ratio);
+}
+
+/**
+ * 渲染逐轮加权平均分折线图
+ * @param engines 引擎汇总
+ * @param rounds 评测轮数
+ * @param scoringSystem 评分制式
+ * @returns string
+ */
+function renderTrendChart(engines: EngineSummary[], rounds: number, scoringSystem: ScoringSystem): string {
+  if (rounds < 2) {
+    return '<p class="muted">只有一轮评测，没有趋势数据</p>';
+  }
+
+  const top = 10;
+  const left = 60;
+  const right = CHART_WIDTH - 20;
+  const xOf = (roundIndex: number) => left + (right - left) * roundIndex / (rounds - 1);
+
+  const xLabels = Array.from({ length: rounds }, (_, index) =>
+    `<text x="${xOf(index)}" y="${top + CHART_PLOT_HEIGHT + 18}" text-anchor="middle" font-size="11" fill="#6b7280">第${index + 1}轮</text>`
+  ).join('');
+
+  const series = engines.map(item => {
+    const points = item.roundScores
+      .map((score, index) => score === null ? null : { x: xOf(index), y: scoreToY(score, scoringSystem, top), score, round: index + 1 })
+      .filter((point): point is { x: number; y: number; score: number; round: number } => point !== null);
+    const path = points.map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
+    return `<polyline points="${path}" fill="none" stroke="${item.color}" stroke-width="2"/>`
+      + points.map(point =>
+        `<circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="3" fill="${item.color}"><title>${escapeHtml(item.engine.name)} 第${point.round}轮: ${point.score.toFixed(2)}</title></circle>`
+      ).join('');
+  }).join('');
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_PLOT_HEIGHT + 30}" width="100%" role="img" aria-label="逐轮趋势">`
+    + renderYAxis(scoringSystem, top) + xLabels + series + '</svg>';
+}
+
+/**
+ * 渲染各维度分数分组柱状图
+ * @param engines 引擎汇总
+ * @param dimensions 启用的维度
+ * @param scoringSystem 评分制式
+ * @returns string
+ */
+function renderDimensionChart(engines: EngineSummary[], dimensions: Dimension[], scoringSystem: ScoringSystem): string {
+  const top = 10;
+  const left = 50;
+  const groupWidth = (CHART_WIDTH - left) / Math.max(dimensions.length, 1);
+  const barWidth = Math.min(32, (groupWidth - 16) / Math.max(engines.length, 1));
+
+  const groups = dimensions.map((dim, dimIndex) => {
+    const groupLeft = left + groupWidth * dimIndex + (groupWidth - barWidth * engines.length) / 2;
+    const bars = engines.map((item, engineIndex) => {
+      const score = item.dimensionScores[dim.name];
+      if (score === null) return '';
+      const y = scoreToY(score, scoringSystem, top);
+      return `<rect x="${(groupLeft + barWidth * engineIndex).toFixed(1)}" y="${y.toFixed(1)}" width="${(barWidth - 2).toFixed(1)}" height="${(top + CHART_PLOT_HEIGHT - y).toFixed(1)}" fill="${item.color}"><title>${escapeHtml(item.engine.name)} ${escapeHtml(dim.name)}: ${score.toFixed(2)}</title></rect>`;
+    }).join('');
+    const label = `<text x="${(left + groupWidth * dimIndex + groupWidth / 2).toFixed(1)}" y="${top + CHART_PLOT_HEIGHT + 18}" text-anchor="middle" font-size="12" fill="#374151">${escapeHtml(dim.name)}</text>`;
+    return bars + label;
+  }).join('');
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_PLOT_HEIGHT + 30}" width="100%" role="img" aria-label="维度得分">`
+    + renderYAxis(scoringSystem, top) + groups + '</svg>';
+}
+
+/**
+ * 渲染评测配置
+ * @param params 报告参数
+ * @param rounds 评测轮数
+ * @returns string
+ */
+function renderConfigSection(params: {
+  createdAt: string;
+  config: CheckpointConfig;
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  queryCount: number;
+}, rounds: number): string {
+  const { config } = params;
+  const judges = config.judges && config.judges.length > 0
+    ? config.judges.map(judge => `${judge.name}（${judge.modelKey}）`).join('、')
+    : config.modelKey;
+  // 逐条判定模式下按每条结果的多数等级合并，不使用分数合并方式
+  const ensembleLabel = config.judgmentMode === 'perResult'
+    ? '逐条判定取多数等级'
+    : ENSEMBLE_METHODS.find(method => method.key === config.ensembleMethod)?.label;
+
+  const items: Array<[string, string]> = [
+    ['评测时间', new Date(params.createdAt).toLocaleString()],
+    ['查询数', String(params.queryCount)],
+    ['评测轮数', String(rounds)],
+    ['评分模式', config.judgmentMode === 'perResult' ? '逐条判定 + 阶梯计分' : '整体评分'],
+    ['评分制式', `${config.scoringSystem.label}（${formatScoreRange(config.scoringSystem)}）`],
+    ['评委', judges],
+    ...(config.judges && config.judges.length > 1 && ensembleLabel ? [['评委合并方式', ensembleLabel] as [string, string]] : []),
+    ['评测维度', params.dimensions.map(dim => `${dim.name}（权重 ${dim.weight}）`).join('、')]
+  ];
+
+  const engineRows = params.searchEngines.map(engine => {
+    const searchParams = resolveSearchParams(engine.searchParams);
+    const recency = RECENCY_FILTER_OPTIONS.find(option => option.key === searchParams.recencyFilter)?.label || searchParams.recencyFilter;
+    const contentSize = CONTENT_SIZE_OPTIONS.find(option => option.key === searchParams.contentSize)?.label || searchParams.contentSize;
+    return `<tr><td>${escapeHtml(engine.name)}</td><td>${escapeHtml(engine.code)}</td><td>${searchParams.count}</td>`
+      + `<td>${escapeHtml(recency)}</td><td>${escapeHtml(contentSize)}</td><td>${escapeHtml(searchParams.domainFilter.trim() || '-')}</td>`
+      + `<td>${searchParams.searchIntent ? '是' : '否'}</td></tr>`;
+  }).join('');
+
+  return `<div class="card"><dl>${items.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl></div>`
+    + '<div class="card"><table><thead><tr><th>搜索引擎</th><th>编码</th><th>结果条数</th><th>时间范围</th><th>内容</th><th>域名过滤</th><th>意图识别</th></tr></thead>'
+    + `<tbody>${engineRows}</tbody></table></div>`;
+}
+
+/**
+ * 渲染单条查询的明细：各引擎的搜索结果与每轮各维度的分数、理由
+ * @param query 查询
+ * @param results 该查询的评测结果
+ * @param searchEngines 搜索引擎列表
+ * @param dimensions 启用的维度
+ * @returns string
+ */
+function renderQueryDetail(
+  query: string,
+  results: EvaluationResult[],
+  searchEngines: SearchEngine[],
+  dimensions: Dimension[]
+): string {
+  const meta = results[0].queryMeta;
+  const engineAverages = searchEngines
+    .map(engine => {
+      const scored = results.filter(result => result.engineId === engine.id && Object.keys(result.scores).length > 0);
+      return scored.length > 0
+        ? `${escapeHtml(engine.name)} ${formatScore(scored.reduce((sum, result) => sum + result.weightedScore, 0) / scored.length)}`
+        : '';
+    })
+    .filter(Boolean)
+    .join(' · ');
+
+  const metaHtml = meta
+    ? [
+      meta.category ? `<span class="tag">${escapeHtml(meta.category)}</span>` : '',
+      ...meta.tags.map(tag => `<span class="tag">#${escapeHtml(tag)}</span>`),
+      meta.notes ? `<p class="muted">备注：${escapeHtml(meta.notes)}</p>` : ''
+    ].join('')
+    : '';
+
+  const engineSections = searchEngines.map(engine => {
+    const engineResults = results.filter(result => result.engineId === engine.id).sort((a, b) => a.round - b.round);
+    if (engineResults.length === 0) return '';
+
+    const withSearch = engineResults.find(result => result.searchResults.length > 0);
+    const searchList = withSearch
+      ? `<ol>${[...withSearch.searchResults].sort((a, b) => a.rank - b.rank).map(item => [
+        '<li>',
+        isSafeLink(item.url)
+          ? `<a href="${escapeHtml(item.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(item.title || item.url)}</a>`
+          : `<span>${escapeHtml(item.title || item.url)}</span> <span class="muted">${escapeHtml(item.url)}</span>`,
+        item.media || item.publishDate
+          ? `<div class="muted">${escapeHtml([item.media, item.publishDate].filter(Boolean).join(' · '))}</div>`
+          : '',
+        `<div>${escapeHtml(item.snippet)}</div>`,
+        '</li>'
+      ].join('')).join('')}</ol>`
+      : '<p class="muted">没有搜索结果</p>';
+
+    const scoreRows = engineResults.flatMap(result => dimensions.map(dim => {
+      const failure = result.failures?.[dim.name];
+      const judgments = result.resultJudgments?.[dim.name];
+      const judgeScores = result.judgeScores?.[dim.name];
+      const notes = [
+        result.rationales?.[dim.name] ? escapeHtml(result.rationales[dim.name]) : '',
+        judgments && judgments.length > 0
+          ? `<div class="muted">逐条判定：${judgments.map(item => `#${item.rank} ${GRADE_LABELS[item.grade]}`).join('，')}</div>`
+          : '',
+        judgeScores && Object.keys(judgeScores).length > 1
+          ? `<div class="muted">各评委：${Object.entries(judgeScores).map(([name, score]) => `${escapeHtml(name)} ${score}`).join('，')}</div>`
+          : ''
+      ].join('');
+      return `<tr><td>第${result.round}轮</td><td>${escapeHtml(dim.name)}</td>`
+        + (failure
+          ? `<td class="failure">失败</td><td class="failure">${escapeHtml(failure.message)}</td>`
+          : `<td>${formatScore(result.scores[dim.name])}</td><td>${notes}</td>`)
+        + '</tr>';
+    })).join('');
+
+    return `<h3>${escapeHtml(engine.name)}</h3>`
+      + `<table><thead><tr><th>轮次</th><th>维度</th><th>分数</th><th>评分理由</th></tr></thead><tbody>${scoreRows}</tbody></table>`
+      + searchList;
+  }).join('');
+
+  return `<details><summary><strong>${escapeHtml(query)}</strong> <span class="muted">${engineAverages}</span></summary>`
+    + `<div>${metaHtml}${engineSections}</div></details>`;
+}
+
+/**
+ * 渲染评测方法说明：评分规则、维度权重与提示词、提交给评委的提示词模板
+ * @param config 评测配置
+ * @param dimensions 启用的维度
+ * @param rounds 评测轮数
+ * @returns string
+ */
+function renderMethodologySection(config: CheckpointConfig, dimensions: Dimension[], rounds: number): string {
+  const { scoringSystem } = config;
+  const isPerResult = config.judgmentMode === 'perResult';
+  const totalWeight = dimensions.reduce((sum, dim) => sum + dim.weight, 0);
+
+  const rules = [
+    `每条查询在每个搜索引擎上评测 ${rounds} 轮，每轮对各维度分别请求评委打分`,
+    isPerResult
+      ? '评委逐条判定每条搜索结果（不符合 / 部分符合 / 高度符合），再按阶梯计分表将高度符合的条数换算为维度分数'
+      : `评委对整组搜索结果直接给出 ${formatScoreRange(scoringSystem)} 的维度分数`,
+    '加权总分为各维度分数按维度权重的加权平均；评分失败的维度不计入分数',
+    '引擎得分按查询权重对各轮加权总分加权平均，全部维度失败的轮次不参与统计',
+    ...(config.biasControls?.shuffleResults ? [`提交给评委前按种子打乱搜索结果顺序（基础种子 ${config.biasControls.seed}）`] : []),
+    ...(config.biasControls?.anonymizeEngines ? ['提交给评委前隐藏链接与文本中的搜索引擎身份信息'] : [])
+  ];
+
+  const levels = scoringSystem.levels && scoringSystem.levels.length > 0
+    ? `<h3>评分档位</h3><table><tbody>${scoringSystem.levels.map(level =>
+      `<tr><td>${level.score} 分</td><td>${escapeHtml(level.description)}</td></tr>`
+    ).join('')}</tbody></table>`
+    : '';
+
+  const stepTable = isPerResult && scoringSystem.stepTable && scoringSystem.stepTable.length > 0
+    ? `<h3>阶梯计分表</h3><table><thead><tr><th>高度符合条数（每 10 条结果）</th><th>维度分数</th></tr></thead><tbody>${
+      [...scoringSystem.stepTable].sort((a, b) => b.minCount - a.minCount).map(rule =>
+        `<tr><td>≥ ${rule.minCount}</td><td>${rule.score}</td></tr>`
+      ).join('')
+    }</tbody></table><p class="muted">门槛按 10 条结果设定，实际结果条数不同时按比例换算。</p>`
+    : '';
+
+  const dimensionRows = dimensions.map(dim => `<tr><td>${escapeHtml(dim.name)}</td>`
+    + `<td>${dim.weight}${totalWeight > 0 ? `（${(dim.weight / totalWeight * 100).toFixed(0)}%）` : ''}</td>`
+    + `<td>${escapeHtml(dim.prompt || `请从${dim.name}维度评价搜索结果的质量`)}</td></tr>`).join('');
+
+  const template = isPerResult
+    ? buildPerResultEvaluationPrompt(PLACEHOLDER_QUERY, [PLACEHOLDER_RESULT], '{维度名称}', '{维度提示词}')
+    : buildEvaluationPrompt(PLACEHOLDER_QUERY, [PLACEHOLDER_RESULT], '{维度提示词}', scoringSystem);
+
+  return `<div class="card"><ol>${rules.map(rule => `<li>${escapeHtml(rule)}</li>`).join('')}</ol>${levels}${stepTable}</div>`
+    + `<div class="card"><h3>维度与提示词</h3><table><thead><tr><th>维度</th><th>权重</th><th>维度提示词</th></tr></thead><tbody>${dimensionRows}</tbody></table></div>`
+    + `<div class="card"><h3>评委提示词模板</h3><p class="muted">花括号中的内容在评测时替换为实际的查询、搜索结果与维度提示词</p><pre>${escapeHtml(template)}</pre></div>`;
+}
+
+/**
+ * 生成单文件 HTML 报告（不引用任何外部资源，可离线打开）
+ * 引擎与维度分数按查询权重加权平均，全部维度失败的轮次不参与统计
+ * @param params 评测配置与结果
+ * @returns string
+ */
+export function buildHtmlReport(params: {
+  title?: string;
+  createdAt?: string;
+  config: CheckpointConfig;
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  results: EvaluationResult[];
+}): string {
+  const { config, searchEngines, results } = params;
+  const title = params.title || '搜索引擎评测报告';
+  const dimensions = params.dimensions.filter(dim => dim.enabled);
+  const rounds = Math.max(0, ...results.map(result => result.round));
+  const queries = Array.from(new Set(results.map(result => result.query)));
+  const createdAt = params.createdAt || results.map(result => result.timestamp).sort()[0] || new Date().toISOString();
+
+  const engines = summarizeEngines(results, searchEngines, dimensions, rounds).filter(item => item.resultCount > 0);
+  const ranked = [...engines].sort((a, b) => (b.averageScore ?? -Infinity) - (a.averageScore ?? -Infinity));
+
+  const rankingRows = ranked.map((item, index) => `<tr><td>${index + 1}</td><td>${escapeHtml(item.engine.name)}</td>`
+    + `<td>${formatScore(item.averageScore)}</td><td>${item.resultCount}</td>`
+    + dimensions.map(dim => `<td>${formatScore(item.dimensionScores[dim.name])}</td>`).join('')
+    + '</tr>').join('');
+
+  const body = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="muted">生成于 ${escapeHtml(new Date().toLocaleString())}</p>`,
+    '<h2>评测配置</h2>',
+    renderConfigSection({ createdAt, config, searchEngines, dimensions, queryCount: queries.length }, rounds),
+    '<h2>汇总</h2>',
+    renderLegend(engines),
+    '<div class="card"><h3>引擎总分</h3>',
+    renderScoreChart(ranked, config.scoringSystem),
+    `<table><thead><tr><th>排名</th><th>引擎</th><th>加权总分</th><th>有效轮次</th>${dimensions.map(dim => `<th>${escapeHtml(dim.name)}</th>`).join('')}</tr></thead><tbody>${rankingRows}</tbody></table></div>`,
+    '<div class="card"><h3>逐轮趋势</h3>',
+    renderTrendChart(engines, rounds, config.scoringSystem),
+    '</div>',
+    '<div class="card"><h3>维度得分</h3>',
+    renderDimensionChart(engines, dimensions, config.scoringSystem),
+    '</div>',
+    `<h2>查询明细（${queries.length} 条）</h2>`,
+    ...queries.map(query => renderQueryDetail(
+      query,
+      results.filter(result => result.query === query),
+      searchEngines,
+      dimensions
+    )),
+    '<h2>评测方法</h2>',
+    renderMethodologySection(config, dimensions, rounds)
+  ];
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="zh-CN">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${REPORT_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<main>${body.join('\n')}</main>`,
+    '</body>',
+    '</html>'
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,203 @@
+/**
+ * 评分模型输出解析模块
+ * 提供JSON结构化输出的提取与模式校验功能
+ */
+
+import {
+  formatScoreRange,
+  isScoreInSystem,
+  type ResultGrade,
+  type ResultJudgment,
+  type ScoringSystem
+} from './scoringService';
+
+// 评分模型结构化输出接口
+interface JudgeOutput {
+  score?: number;
+  rationale: string;
+  labels?: ResultJudgment[];
+}
+
+// 输出校验选项接口
+interface JudgeOutputSchema {
+  mode: 'holistic' | 'perResult';
+  scoringSystem: ScoringSystem;
+  resultCount: number;
+}
+
+// 输出解析结果
+type JudgeOutputParseResult =
+  | { ok: true; value: JudgeOutput }
+  | { ok: false; error: string };
+
+// 两两对比胜出方
+type PairwiseWinner = 'A' | 'B' | 'tie';
+
+// 两两对比结构化输出接口
+interface PairwiseOutput {
+  winner: PairwiseWinner;
+  rationale: string;
+}
+
+/**
+ * 从模型输出中提取JSON对象文本
+ * 兼容 ```json 代码块包裹及前后附带说明文字的情况
+ * @param content 模型输出内容
+ * @returns string | null
+ */
+export function extractJsonObject(content: string): string | null {
+  const fencedMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fencedMatch ? fencedMatch[1] : content;
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    return null;
+  }
+
+  return candidate.slice(start, end + 1);
+}
+
+/**
+ * 解析并校验评分模型输出
+ * @param content 模型输出内容
+ * @param schema 校验选项
+ * @returns JudgeOutputParseResult
+ */
+export function parseJudgeOutput(content: string, schema: JudgeOutputSchema): JudgeOutputParseResult {
+  const jsonText = extractJsonObject(content);
+  if (!jsonText) {
+    return { ok: false, error: '未找到JSON对象' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonText);
+  } catch (error) {
+    return { ok: false, error: `JSON格式错误: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, error: '输出必须是JSON对象' };
+  }
+
+  const record = data as Record<string, unknown>;
+
+  if (typeof record.rationale !== 'string' || !record.rationale.trim()) {
+    return { ok: false, error: 'rationale 字段缺失或不是字符串' };
+  }
+
+  const output: JudgeOutput = { rationale: record.rationale.trim() };
+
+  if (record.score !== undefined && record.score !== null) {
+    if (typeof record.score !== 'number' || !Number.isFinite(record.score)) {
+      return { ok: false, error: 'score 字段必须是数字' };
+    }
+    if (!isScoreInSystem(record.score, schema.scoringSystem)) {
+      return {
+        ok: false,
+        error: `score 必须在${formatScoreRange(schema.scoringSystem)}范围内且为 ${schema.scoringSystem.step} 的整数倍`
+      };
+    }
+    output.score = record.score;
+  } else if (schema.mode === 'holistic') {
+    return { ok: false, error: 'score 字段缺失' };
+  }
+
+  if (record.labels !== undefined) {
+    const labelsResult = parseLabels(record.labels, schema.resultCount);
+    if (!labelsResult.ok) {
+      return labelsResult;
+    }
+    output.labels = labelsResult.value;
+  } else if (schema.mode === 'perResult') {
+    return { ok: false, error: 'labels 字段缺失' };
+  }
+
+  return { ok: true, value: output };
+}
+
+/**
+ * 解析并校验两两对比输出
+ * @param content 模型输出内容
+ * @returns { ok: true; value: PairwiseOutput } | { ok: false; error: string }
+ */
+export function parsePairwiseOutput(
+  content: string
+): { ok: true; value: PairwiseOutput } | { ok: false; error: string } {
+  const jsonText = extractJsonObject(content);
+  if (!jsonText) {
+    return { ok: false, error: '未找到JSON对象' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonText);
+  } catch (error) {
+    return { ok: false, error: `JSON格式错误: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, error: '输出必须是JSON对象' };
+  }
+
+  const record = data as Record<string, unknown>;
+  if (typeof record.rationale !== 'string' || !record.rationale.trim()) {
+    return { ok: false, error: 'rationale 字段缺失或不是字符串' };
+  }
+
+  const winner = typeof record.winner === 'string' ? record.winner.trim() : '';
+  const normalizedWinner = winner.toLowerCase() === 'tie' ? 'tie' : winner.toUpperCase();
+  if (normalizedWinner !== 'A' && normalizedWinner !== 'B' && normalizedWinner !== 'tie') {
+    return { ok: false, error: 'winner 字段只能是 "A"、"B" 或 "tie"' };
+  }
+
+  return { ok: true, value: { winner: normalizedWinner, rationale: record.rationale.trim() } };
+}
+
+/**
+ * 校验逐条判定标签
+ * @param labels 原始标签数据
+ * @param resultCount 搜索结果条数
+ * @returns { ok: true; value: ResultJudgment[] } | { ok: false; error: string }
+ */
+function parseLabels(
+  labels: unknown,
+  resultCount: number
+): { ok: true; value: ResultJudgment[] } | { ok: false; error: string } {
+  if (!Array.isArray(labels)) {
+    return { ok: false, error: 'labels 字段必须是数组' };
+  }
+
+  const gradeByRank = new Map<number, ResultGrade>();
+  for (const label of labels) {
+    const item = label as Record<string, unknown> | null;
+    if (!item || typeof item.rank !== 'number' || typeof item.grade !== 'number') {
+      return { ok: false, error: 'labels 中每一项必须包含数字类型的 rank 和 grade' };
+    }
+    if (!Number.isInteger(item.rank) || item.rank < 1 || item.rank > resultCount) {
+      return { ok: false, error: `rank ${item.rank} 超出范围 1-${resultCount}` };
+    }
+    if (item.grade !== 0 && item.grade !== 1 && item.grade !== 2) {
+      return { ok: false, error: `第${item.rank}条的 grade 必须是 0、1、2 之一` };
+    }
+    if (gradeByRank.has(item.rank)) {
+      return { ok: false, error: `第${item.rank}条重复判定` };
+    }
+    gradeByRank.set(item.rank, item.grade);
+  }
+
+  if (gradeByRank.size !== resultCount) {
+    return { ok: false, error: `逐条判定不完整: 仅判定 ${gradeByRank.size}/${resultCount} 条` };
+  }
+
+  return {
+    ok: true,
+    value: Array.from({ length: resultCount }, (_, index) => ({
+      rank: index + 1,
+      grade: gradeByRank.get(index + 1) as ResultGrade
+    }))
+  };
+}
+
+export type { JudgeOutput, JudgeOutputSchema, JudgeOutputParseResult, PairwiseWinner, PairwiseOutput };
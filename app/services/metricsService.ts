@@ -0,0 +1,201 @@
+/**
+ * 排序指标模块
+ * 基于逐条判定的分级相关性标签计算 nDCG@k、P@k、MRR 与 ERR@k 等排序敏感指标
+ */
+
+import type { ResultJudgment } from './scoringService';
+import { getQueryWeight, type QueryMeta } from './querySetService';
+import { weightedMean } from './statisticsService';
+
+// 参与计算的评测记录（只依赖评测结果中的必要字段）
+interface JudgedResultRecord {
+  query: string;
+  engineId: number;
+  engineName: string;
+  round: number;
+  scores: Record<string, number>;
+  weightedScore: number;
+  resultJudgments?: Record<string, ResultJudgment[]>;
+  queryMeta?: QueryMeta;
+}
+
+// 单条结果列表的排序指标
+interface RankMetrics {
+  ndcg: number;
+  precision: number;
+  mrr: number;
+  err: number;
+}
+
+// 引擎的排序指标汇总（先按查询平均各轮，再对查询平均）
+interface EngineRankMetrics extends RankMetrics {
+  engineId: number;
+  engineName: string;
+  weightedScore: number;
+  queryCount: number;
+}
+
+// 最高相关性等级
+const MAX_GRADE = 2;
+
+// 计为相关的最低等级（部分符合及以上）
+const RELEVANT_GRADE = 1;
+
+/**
+ * 按原始排名取出各位置的相关性等级
+ * @param judgments 逐条判定结果
+ * @returns number[]
+ */
+function gradesByRank(judgments: ResultJudgment[]): number[] {
+  return [...judgments].sort((a, b) => a.rank - b.rank).map(judgment => judgment.grade);
+}
+
+/**
+ * 计算前k条的折损累计增益（增益为 2^grade - 1）
+ * @param grades 各位置的相关性等级
+ * @param k 截断位置
+ * @returns number
+ */
+function dcgAtK(grades: number[], k: number): number {
+  return grades
+    .slice(0, k)
+    .reduce((sum, grade, index) => sum + (Math.pow(2, grade) - 1) / Math.log2(index + 2), 0);
+}
+
+/**
+ * 计算 nDCG@k，理想排序由同一列表的等级降序得到；列表中没有相关结果时为0
+ * @param grades 各位置的相关性等级
+ * @param k 截断位置
+ * @returns number
+ */
+export function ndcgAtK(grades: number[], k: number): number {
+  const ideal = dcgAtK([...grades].sort((a, b) => b - a), k);
+  return ideal > 0 ? dcgAtK(grades, k) / ideal : 0;
+}
+
+/**
+ * 计算 P@k：前k条中相关结果的比例（不足k条时按k计算）
+ * @param grades 各位置的相关性等级
+ * @param k 截断位置
+ * @returns number
+ */
+export function precisionAtK(grades: number[], k: number): number {
+  if (k <= 0) return 0;
+  return grades.slice(0, k).filter(grade => grade >= RELEVANT_GRADE).length / k;
+}
+
+/**
+ * 计算倒数排名：第一条相关结果排名的倒数，没有相关结果时为0
+ * @param grades 各位置的相关性等级
+ * @returns number
+ */
+export function reciprocalRank(grades: number[]): number {
+  const index = grades.findIndex(grade => grade >= RELEVANT_GRADE);
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * 计算 ERR@k（级联模型下的期望倒数排名）
+ * @param grades 各位置的相关性等级
+ * @param k 截断位置
+ * @returns number
+ */
+export function expectedReciprocalRank(grades: number[], k: number): number {
+  let notSatisfied = 1;
+  let err = 0;
+  grades.slice(0, k).forEach((grade, index) => {
+    const satisfaction = (Math.pow(2, grade) - 1) / Math.pow(2, MAX_GRADE);
+    err += notSatisfied * satisfaction / (index + 1);
+    notSatisfied *= 1 - satisfaction;
+  });
+  return err;
+}
+
+/**
+ * 计算单条结果列表的全部排序指标
+ * @param judgments 逐条判定结果
+ * @param k 截断位置
+ * @returns RankMetrics
+ */
+export function computeRankMetrics(judgments: ResultJudgment[], k: number): RankMetrics {
+  const grades = gradesByRank(judgments);
+  return {
+    ndcg: ndcgAtK(grades, k),
+    precision: precisionAtK(grades, k),
+    mrr: reciprocalRank(grades),
+    err: expectedReciprocalRank(grades, k)
+  };
+}
+
+/**
+ * 对指标列表求加权平均
+ * @param metricsList 指标列表
+ * @param weights 各项权重，缺省时等权
+ * @returns RankMetrics
+ */
+function averageMetrics(metricsList: RankMetrics[], weights: number[] = metricsList.map(() => 1)): RankMetrics {
+  return {
+    ndcg: weightedMean(metricsList.map(item => item.ndcg), weights),
+    precision: weightedMean(metricsList.map(item => item.precision), weights),
+    mrr: weightedMean(metricsList.map(item => item.mrr), weights),
+    err: weightedMean(metricsList.map(item => item.err), weights)
+  };
+}
+
+/**
+ * 获取评测结果中带有逐条判定的维度名称
+ * @param results 评测结果
+ * @returns string[]
+ */
+export function getJudgedDimensions(results: JudgedResultRecord[]): string[] {
+  return Array.from(new Set(results.flatMap(result => Object.keys(result.resultJudgments || {}))));
+}
+
+/**
+ * 汇总各引擎的排序指标：同一查询多轮先取平均，再按查询权重对查询取平均（即 MRR 为各查询倒数排名的平均）
+ * 加权总分按同样方式汇总，便于对照；没有该维度逐条判定的结果不参与计算
+ * @param results 评测结果
+ * @param engines 搜索引擎列表
+ * @param dimensionName 提供分级标签的维度名称
+ * @param k 截断位置
+ * @returns EngineRankMetrics[]
+ */
+export function summarizeRankMetrics(
+  results: JudgedResultRecord[],
+  engines: Array<{ id: number; name: string }>,
+  dimensionName: string,
+  k: number
+): EngineRankMetrics[] {
+  return engines.map(engine => {
+    const byQuery = new Map<string, Array<RankMetrics & { weightedScore: number; queryWeight: number }>>();
+    for (const result of results) {
+      const judgments = result.resultJudgments?.[dimensionName];
+      if (result.engineId !== engine.id || !judgments || judgments.length === 0) continue;
+      byQuery.set(result.query, [
+        ...(byQuery.get(result.query) || []),
+        {
+          ...computeRankMetrics(judgments, k),
+          weightedScore: result.weightedScore,
+          queryWeight: getQueryWeight(result.queryMeta)
+        }
+      ]);
+    }
+
+    const perQuery = Array.from(byQuery.values()).map(rounds => ({
+      ...averageMetrics(rounds),
+      weightedScore: rounds.reduce((sum, item) => sum + item.weightedScore, 0) / rounds.length,
+      queryWeight: rounds[0].queryWeight
+    }));
+    const queryWeights = perQuery.map(item => item.queryWeight);
+
+    return {
+      engineId: engine.id,
+      engineName: engine.name,
+      ...averageMetrics(perQuery, queryWeights),
+      weightedScore: weightedMean(perQuery.map(item => item.weightedScore), queryWeights),
+      queryCount: perQuery.length
+    };
+  });
+}
+
+export type { JudgedResultRecord, RankMetrics, EngineRankMetrics };
@@ -0,0 +1,215 @@
+/**
+ * 结果重合度分析模块
+ * 比较不同引擎在同一查询下返回的链接：Jaccard 系数、排序偏置重合度（RBO）与域名重合度
+ */
+
+// 参与分析的评测记录（只依赖评测结果中的必要字段）
+interface SearchResultRecord {
+  query: string;
+  engineId: number;
+  engineName: string;
+  searchResults: Array<{ url: string; rank: number }>;
+}
+
+// 单个查询下两个引擎的重合情况
+interface OverlapMetrics {
+  jaccard: number;
+  rbo: number;
+  domainJaccard: number;
+  shared: string[]; // 两个引擎都返回的链接
+  uniqueA: string[]; // 只有引擎A返回的链接
+  uniqueB: string[]; // 只有引擎B返回的链接
+}
+
+// 两个引擎在各查询下的重合情况及平均值
+interface PairOverlap {
+  engineAId: number;
+  engineAName: string;
+  engineBId: number;
+  engineBName: string;
+  perQuery: Array<OverlapMetrics & { query: string }>;
+  meanJaccard: number;
+  meanRbo: number;
+  meanDomainJaccard: number;
+}
+
+// RBO 默认持续参数（0.9 时前10名约占86%的权重）
+const DEFAULT_RBO_PERSISTENCE = 0.9;
+
+/**
+ * 规范化链接用于比较：忽略协议、www 前缀、锚点与末尾斜杠，域名不区分大小写
+ * @param url 原始链接
+ * @returns string
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${path}${parsed.search}`;
+  } catch {
+    return url.trim().replace(/#.*$/, '').replace(/\/+$/, '');
+  }
+}
+
+/**
+ * 提取链接的域名（去掉 www 前缀），无法解析时返回空字符串
+ * @param url 原始链接
+ * @returns string
+ */
+export function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * 计算两个集合的 Jaccard 系数，两者都为空时为0
+ * @param setA 集合A
+ * @param setB 集合B
+ * @returns number
+ */
+export function jaccard<T>(setA: Set<T>, setB: Set<T>): number {
+  const union = new Set([...setA, ...setB]);
+  if (union.size === 0) return 0;
+  const intersection = [...setA].filter(item => setB.has(item)).length;
+  return intersection / union.size;
+}
+
+/**
+ * 计算两个排序列表的外推排序偏置重合度（Webber 等 2010，支持长度不同的列表）
+ * @param listA 排序列表A（不含重复项）
+ * @param listB 排序列表B（不含重复项）
+ * @param persistence 持续参数 p，越大越重视靠后的位置
+ * @returns number 0-1，完全相同为1
+ */
+export function rankBiasedOverlap<T>(listA: T[], listB: T[], persistence: number = DEFAULT_RBO_PERSISTENCE): number {
+  const [short, long] = listA.length <= listB.length ? [listA, listB] : [listB, listA];
+  const s = short.length;
+  const l = long.length;
+  if (s === 0) return 0;
+
+  const p = persistence;
+  const seenShort = new Set<T>();
+  const seenLong = new Set<T>();
+  const overlapAt: number[] = [0];
+  let overlap = 0;
+
+  for (let d = 1; d <= l; d++) {
+    const itemLong = long[d - 1];
+    if (d <= s) {
+      const itemShort = short[d - 1];
+      if (itemShort === itemLong) {
+        overlap += 1;
+      } else {
+        if (seenLong.has(itemShort)) overlap += 1;
+        if (seenShort.has(itemLong)) overlap += 1;
+      }
+      seenShort.add(itemShort);
+    } else if (seenShort.has(itemLong)) {
+      overlap += 1;
+    }
+    seenLong.add(itemLong);
+    overlapAt.push(overlap);
+  }
+
+  let sum = 0;
+  for (let d = 1; d <= l; d++) {
+    sum += (overlapAt[d] / d) * Math.pow(p, d);
+  }
+  for (let d = s + 1; d <= l; d++) {
+    sum += ((overlapAt[s] * (d - s)) / (s * d)) * Math.pow(p, d);
+  }
+
+  const extrapolated = ((overlapAt[l] - overlapAt[s]) / l + overlapAt[s] / s) * Math.pow(p, l);
+  return ((1 - p) / p) * sum + extrapolated;
+}
+
+/**
+ * 按排名整理结果链接，去掉规范化后重复的链接
+ * @param searchResults 搜索结果
+ * @returns Array<{ key: string; url: string }>
+ */
+function rankedUrls(searchResults: Array<{ url: string; rank: number }>): Array<{ key: string; url: string }> {
+  const seen = new Set<string>();
+  return [...searchResults]
+    .sort((a, b) => a.rank - b.rank)
+    .filter(result => result.url)
+    .map(result => ({ key: normalizeUrl(result.url), url: result.url }))
+    .filter(item => !seen.has(item.key) && !!seen.add(item.key));
+}
+
+/**
+ * 计算单个查询下两组搜索结果的重合情况
+ * @param resultsA 引擎A的搜索结果
+ * @param resultsB 引擎B的搜索结果
+ * @returns OverlapMetrics
+ */
+export function computeOverlap(
+  resultsA: Array<{ url: string; rank: number }>,
+  resultsB: Array<{ url: string; rank: number }>
+): OverlapMetrics {
+  const urlsA = rankedUrls(resultsA);
+  const urlsB = rankedUrls(resultsB);
+  const keysA = new Set(urlsA.map(item => item.key));
+  const keysB = new Set(urlsB.map(item => item.key));
+
+  return {
+    jaccard: jaccard(keysA, keysB),
+    rbo: rankBiasedOverlap(urlsA.map(item => item.key), urlsB.map(item => item.key)),
+    domainJaccard: jaccard(
+      new Set(urlsA.map(item => getDomain(item.url)).filter(Boolean)),
+      new Set(urlsB.map(item => getDomain(item.url)).filter(Boolean))
+    ),
+    shared: urlsA.filter(item => keysB.has(item.key)).map(item => item.url),
+    uniqueA: urlsA.filter(item => !keysB.has(item.key)).map(item => item.url),
+    uniqueB: urlsB.filter(item => !keysA.has(item.key)).map(item => item.url)
+  };
+}
+
+/**
+ * 分析各引擎两两之间的结果重合度
+ * 同一（查询, 引擎）的多轮评测共用一次搜索结果，取第一条有搜索结果的记录；任一方搜索失败的查询不参与比较
+ * @param results 评测结果
+ * @param engines 搜索引擎列表
+ * @returns PairOverlap[]
+ */
+export function analyzeOverlap(
+  results: SearchResultRecord[],
+  engines: Array<{ id: number; name: string }>
+): PairOverlap[] {
+  const searchResultsByKey = new Map<string, SearchResultRecord['searchResults']>();
+  const queries: string[] = [];
+  for (const result of results) {
+    if (!queries.includes(result.query)) queries.push(result.query);
+    const key = `${result.query}\u0000${result.engineId}`;
+    if (!searchResultsByKey.has(key) && result.searchResults.length > 0) {
+      searchResultsByKey.set(key, result.searchResults);
+    }
+  }
+
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return engines.flatMap((engineA, index) => engines.slice(index + 1).map(engineB => {
+    const perQuery = queries.flatMap(query => {
+      const resultsA = searchResultsByKey.get(`${query}\u0000${engineA.id}`);
+      const resultsB = searchResultsByKey.get(`${query}\u0000${engineB.id}`);
+      return resultsA && resultsB ? [{ query, ...computeOverlap(resultsA, resultsB) }] : [];
+    });
+
+    return {
+      engineAId: engineA.id,
+      engineAName: engineA.name,
+      engineBId: engineB.id,
+      engineBName: engineB.name,
+      perQuery,
+      meanJaccard: mean(perQuery.map(item => item.jaccard)),
+      meanRbo: mean(perQuery.map(item => item.rbo)),
+      meanDomainJaccard: mean(perQuery.map(item => item.domainJaccard))
+    };
+  }));
+}
+
+export type { SearchResultRecord, OverlapMetrics, PairOverlap };
@@ -0,0 +1,325 @@
+/**
+ * 查询集模块
+ * 提供 CSV / TSV / JSONL 查询集文件的解析，以及查询分类、标签、时效敏感度、权重和备注等元数据
+ */
+
+// 查询的时效敏感度
+type TimeSensitivity = 'high' | 'medium' | 'low';
+
+// 查询元数据接口（weight 为查询在汇总统计中的权重，默认为1）
+interface QueryMeta {
+  category?: string;
+  tags: string[];
+  timeSensitivity?: TimeSensitivity;
+  weight: number;
+  notes?: string;
+}
+
+// 查询集条目接口
+interface QueryItem {
+  query: string;
+  meta: QueryMeta;
+}
+
+// 查询集文件格式
+type QuerySetFormat = 'csv' | 'tsv' | 'jsonl';
+
+// 元数据字段
+type QueryField = 'query' | 'category' | 'tags' | 'timeSensitivity' | 'weight' | 'notes';
+
+/**
+ * 可选的时效敏感度
+ */
+export const TIME_SENSITIVITY_LEVELS: Array<{ key: TimeSensitivity; label: string }> = [
+  { key: 'high', label: '高' },
+  { key: 'medium', label: '中' },
+  { key: 'low', label: '低' }
+];
+
+/**
+ * 默认查询元数据
+ */
+export const DEFAULT_QUERY_META: QueryMeta = {
+  tags: [],
+  weight: 1
+};
+
+// 各字段可识别的列名（不区分大小写，忽略下划线、连字符与空格）
+const FIELD_ALIASES: Record<QueryField, string[]> = {
+  query: ['query', 'q', 'question', '查询', '问题'],
+  category: ['category', '分类', '类别'],
+  tags: ['tags', 'tag', '标签'],
+  timeSensitivity: ['timesensitivity', 'freshness', '时效敏感度', '时效性'],
+  weight: ['weight', '权重'],
+  notes: ['notes', 'note', 'comment', '备注', '说明']
+};
+
+// 标签分隔符
+const TAG_SEPARATOR = /[;；|,，]/;
+
+/**
+ * 获取查询在汇总统计中的权重，没有元数据时为1
+ * @param meta 查询元数据
+ * @returns number
+ */
+export function getQueryWeight(meta?: QueryMeta): number {
+  return meta?.weight ?? 1;
+}
+
+/**
+ * 根据文件名与内容判断查询集格式
+ * @param fileName 文件名
+ * @param text 文件内容
+ * @returns QuerySetFormat
+ */
+export function detectQuerySetFormat(fileName: string, text: string): QuerySetFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+  if (extension === 'tsv') return 'tsv';
+  if (extension === 'csv') return 'csv';
+
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) || '';
+  if (firstLine.trim().startsWith('{')) return 'jsonl';
+  return firstLine.includes('\t') ? 'tsv' : 'csv';
+}
+
+/**
+ * 按分隔符拆分文本为行与列，支持双引号包裹的字段（字段内可含分隔符、换行与 "" 转义的引号）
+ * @param text 文件内容
+ * @param delimiter 分隔符
+ * @returns string[][]
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 去掉空行
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * 识别列名对应的元数据字段
+ * @param header 列名
+ * @returns QueryField | null
+ */
+function matchField(header: string): QueryField | null {
+  const normalized = header.trim().toLowerCase().replace(/[_\-\s]/g, '');
+  const entry = Object.entries(FIELD_ALIASES).find(([, aliases]) => aliases.includes(normalized));
+  return entry ? entry[0] as QueryField : null;
+}
+
+/**
+ * 解析时效敏感度，支持英文取值与中文标签
+ * @param value 原始取值
+ * @returns TimeSensitivity | null | undefined 为空时返回 undefined，无法识别时返回 null
+ */
+function parseTimeSensitivity(value: string): TimeSensitivity | null | undefined {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return undefined;
+  const level = TIME_SENSITIVITY_LEVELS.find(item => item.key === trimmed || item.label === trimmed);
+  return level ? level.key : null;
+}
+
+/**
+ * 由字段取值构建查询集条目
+ * @param values 各字段取值
+ * @param lineLabel 行号描述（用于错误信息）
+ * @returns { ok: true; value: QueryItem } | { ok: false; error: string }
+ */
+function buildQueryItem(
+  values: Partial<Record<QueryField, unknown>>,
+  lineLabel: string
+): { ok: true; value: QueryItem } | { ok: false; error: string } {
+  const query = typeof values.query === 'string' ? values.query.trim() : '';
+  if (!query) {
+    return { ok: false, error: `${lineLabel}缺少查询内容` };
+  }
+
+  const meta: QueryMeta = { ...DEFAULT_QUERY_META, tags: [] };
+
+  if (typeof values.category === 'string' && values.category.trim()) {
+    meta.category = values.category.trim();
+  }
+
+  const rawTags = Array.isArray(values.tags)
+    ? values.tags.map(String)
+    : typeof values.tags === 'string' ? values.tags.split(TAG_SEPARATOR) : [];
+  meta.tags = Array.from(new Set(rawTags.map(tag => tag.trim()).filter(Boolean)));
+
+  if (values.timeSensitivity !== undefined && values.timeSensitivity !== null) {
+    const timeSensitivity = parseTimeSensitivity(String(values.timeSensitivity));
+    if (timeSensitivity === null) {
+      return { ok: false, error: `${lineLabel}的时效敏感度「${values.timeSensitivity}」无法识别，应为 high / medium / low 或 高 / 中 / 低` };
+    }
+    if (timeSensitivity) {
+      meta.timeSensitivity = timeSensitivity;
+    }
+  }
+
+  if (values.weight !== undefined && values.weight !== null && String(values.weight).trim() !== '') {
+    const weight = Number(values.weight);
+    if (!Number.isFinite(weight) || weight <= 0) {
+      return { ok: false, error: `${lineLabel}的权重必须为正数` };
+    }
+    meta.weight = weight;
+  }
+
+  if (typeof values.notes === 'string' && values.notes.trim()) {
+    meta.notes = values.notes.trim();
+  }
+
+  return { ok: true, value: { query, meta } };
+}
+
+/**
+ * 解析 CSV / TSV 查询集：首行为列名时按列名识别字段，否则只取第一列作为查询
+ * @param text 文件内容
+ * @param delimiter 分隔符
+ * @returns { ok: true; value: QueryItem[] } | { ok: false; error: string }
+ */
+function parseDelimitedQuerySet(
+  text: string,
+  delimiter: string
+): { ok: true; value: QueryItem[] } | { ok: false; error: string } {
+  const rows = parseDelimited(text, delimiter);
+  if (rows.length === 0) {
+    return { ok: true, value: [] };
+  }
+
+  const headerFields = rows[0].map(matchField);
+  const hasHeader = headerFields.includes('query');
+  const fields: Array<QueryField | null> = hasHeader ? headerFields : ['query'];
+
+  const items: QueryItem[] = [];
+  for (const [index, row] of rows.entries()) {
+    if (hasHeader && index === 0) continue;
+
+    const values: Partial<Record<QueryField, unknown>> = {};
+    fields.forEach((field, column) => {
+      if (field && row[column] !== undefined) {
+        values[field] = row[column];
+      }
+    });
+
+    const item = buildQueryItem(values, `第${index + 1}行`);
+    if (!item.ok) return item;
+    items.push(item.value);
+  }
+  return { ok: true, value: items };
+}
+
+/**
+ * 解析 JSONL 查询集：每行一个对象（字段名与 CSV 列名相同）或一个查询字符串
+ * @param text 文件内容
+ * @returns { ok: true; value: QueryItem[] } | { ok: false; error: string }
+ */
+function parseJsonlQuerySet(text: string): { ok: true; value: QueryItem[] } | { ok: false; error: string } {
+  const items: QueryItem[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    const lineLabel = `第${index + 1}行`;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      return { ok: false, error: `${lineLabel}不是合法的 JSON` };
+    }
+
+    const values: Partial<Record<QueryField, unknown>> = {};
+    if (typeof data === 'string') {
+      values.query = data;
+    } else if (data && typeof data === 'object' && !Array.isArray(data)) {
+      for (const [key, value] of Object.entries(data)) {
+        const field = matchField(key);
+        if (field) values[field] = value;
+      }
+    } else {
+      return { ok: false, error: `${lineLabel}必须是对象或字符串` };
+    }
+
+    const item = buildQueryItem(values, lineLabel);
+    if (!item.ok) return item;
+    items.push(item.value);
+  }
+  return { ok: true, value: items };
+}
+
+/**
+ * 解析查询集文件，重复的查询只保留第一条
+ * @param text 文件内容
+ * @param format 文件格式
+ * @returns { ok: true; value: QueryItem[]; duplicates: string[] } | { ok: false; error: string }
+ */
+export function parseQuerySet(
+  text: string,
+  format: QuerySetFormat
+): { ok: true; value: QueryItem[]; duplicates: string[] } | { ok: false; error: string } {
+  const parsed = format === 'jsonl'
+    ? parseJsonlQuerySet(text)
+    : parseDelimitedQuerySet(text, format === 'tsv' ? '\t' : ',');
+  if (!parsed.ok) return parsed;
+
+  const seen = new Set<string>();
+  const duplicates: string[] = [];
+  const items = parsed.value.filter(item => {
+    if (seen.has(item.query)) {
+      duplicates.push(item.query);
+      return false;
+    }
+    seen.add(item.query);
+    return true;
+  });
+
+  if (items.length === 0) {
+    return { ok: false, error: '文件中没有查询' };
+  }
+  return { ok: true, value: items, duplicates };
+}
+
+/**
+ * 生成查询到元数据的映射
+ * @param items 查询集条目
+ * @returns Record<string, QueryMeta>
+ */
+export function buildQueryMetaMap(items: QueryItem[]): Record<string, QueryMeta> {
+  return Object.fromEntries(items.map(item => [item.query, item.meta]));
+}
+
+export type { TimeSensitivity, QueryMeta, QueryItem, QuerySetFormat };
@@ -0,0 +1,65 @@
+/**
+ * 随机数模块
+ * 提供可复现的带种子伪随机数生成功能
+ */
+
+// 伪随机数生成函数，返回 [0, 1) 区间的数
+type RandomGenerator = () => number;
+
+/**
+ * 创建带种子的伪随机数生成器（mulberry32 算法）
+ * 相同种子生成相同序列，保证统计结果可复现
+ * @param seed 随机种子
+ * @returns RandomGenerator
+ */
+export function createSeededRandom(seed: number): RandomGenerator {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 生成随机种子（32位无符号整数）
+ * @returns number
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * 由基础种子与若干标识派生子种子（FNV-1a 哈希），同一组标识始终得到相同的子种子
+ * @param seed 基础种子
+ * @param parts 标识列表
+ * @returns number
+ */
+export function deriveSeed(seed: number, ...parts: Array<string | number>): number {
+  let hash = (0x811C9DC5 ^ seed) >>> 0;
+  for (const char of parts.join('\u0000')) {
+    hash ^= char.codePointAt(0) as number;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * 按种子打乱列表顺序（Fisher–Yates），不修改原列表
+ * @param items 原列表
+ * @param seed 随机种子
+ * @returns T[]
+ */
+export function shuffleWithSeed<T>(items: T[], seed: number): T[] {
+  const random = createSeededRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export type { RandomGenerator };
@@ -0,0 +1,220 @@
+/**
+ * 评级模块
+ * 将两两对比判定拟合为 Bradley–Terry 强度，换算为 Elo 分制评级，并以自助法估计置信区间
+ */
+
+import { createSeededRandom } from './randomService';
+import { quantile } from './statisticsService';
+
+// 参与评级的对比记录（只依赖判定记录中的必要字段）
+interface PairwiseRecord {
+  query: string;
+  dimensionName: string;
+  engineAId: number;
+  engineAName: string;
+  engineBId: number;
+  engineBName: string;
+  winner: 'A' | 'B' | 'tie' | null;
+}
+
+// 引擎评级结果
+interface EngineRating {
+  engineId: number;
+  engineName: string;
+  rating: number;
+  ciLower: number;
+  ciUpper: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// 两个引擎之间的交锋战绩（从行引擎角度统计）
+interface HeadToHead {
+  engineAId: number;
+  engineBId: number;
+  wins: number;
+  ties: number;
+  losses: number;
+}
+
+// 默认重采样次数与随机种子
+const DEFAULT_BOOTSTRAP_ITERATIONS = 500;
+const DEFAULT_SEED = 20240601;
+
+// Elo 分制的基准分与缩放系数
+const BASE_RATING = 1000;
+const RATING_SCALE = 400;
+
+// 每对引擎之间的先验平局数，避免全胜或全负时强度发散
+const PRIOR_TIES = 0.5;
+
+// 迭代拟合的最大次数与收敛阈值
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-8;
+
+/**
+ * 筛选有效判定：排除失败记录，并按维度过滤（为 null 时合并全部维度）
+ * @param records 对比记录
+ * @param dimensionName 维度名称
+ * @returns PairwiseRecord[]
+ */
+function selectRecords(records: PairwiseRecord[], dimensionName: string | null): PairwiseRecord[] {
+  return records.filter(record =>
+    record.winner !== null && (dimensionName === null || record.dimensionName === dimensionName)
+  );
+}
+
+/**
+ * 使用 MM 算法拟合 Bradley–Terry 模型，平局计为双方各半场胜利
+ * @param engineIds 引擎ID列表
+ * @param records 有效对比记录
+ * @returns Map<number, number> 引擎ID → Elo 分制评级
+ */
+function fitBradleyTerry(engineIds: number[], records: PairwiseRecord[]): Map<number, number> {
+  const index = new Map(engineIds.map((id, i) => [id, i]));
+  const size = engineIds.length;
+  const wins = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      if (i !== j) wins[i][j] = PRIOR_TIES / 2;
+    }
+  }
+  for (const record of records) {
+    const a = index.get(record.engineAId);
+    const b = index.get(record.engineBId);
+    if (a === undefined || b === undefined) continue;
+    if (record.winner === 'A') wins[a][b] += 1;
+    else if (record.winner === 'B') wins[b][a] += 1;
+    else {
+      wins[a][b] += 0.5;
+      wins[b][a] += 0.5;
+    }
+  }
+
+  let strengths = new Array<number>(size).fill(1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = strengths.map((strength, i) => {
+      let totalWins = 0;
+      let denominator = 0;
+      for (let j = 0; j < size; j++) {
+        if (i === j) continue;
+        totalWins += wins[i][j];
+        denominator += (wins[i][j] + wins[j][i]) / (strength + strengths[j]);
+      }
+      return denominator > 0 ? totalWins / denominator : strength;
+    });
+
+    // 以几何平均归一，使平均评级固定为基准分
+    const logMean = next.reduce((sum, value) => sum + Math.log(value), 0) / size;
+    const normalized = next.map(value => value / Math.exp(logMean));
+    const change = Math.max(...normalized.map((value, i) => Math.abs(value - strengths[i])));
+    strengths = normalized;
+    if (change < TOLERANCE) break;
+  }
+
+  return new Map(engineIds.map((id, i) => [id, BASE_RATING + RATING_SCALE * Math.log10(strengths[i])]));
+}
+
+/**
+ * 计算各引擎的 Bradley–Terry 评级及置信区间
+ * 置信区间通过对查询有放回重采样获得，同一查询下的判定作为整体参与重采样
+ * @param records 对比记录
+ * @param engines 参与评级的引擎
+ * @param dimensionName 维度名称，为 null 时合并全部维度
+ * @param options 重采样次数、置信水平与随机种子
+ * @returns EngineRating[] 按评级从高到低排列
+ */
+export function computeRatings(
+  records: PairwiseRecord[],
+  engines: Array<{ id: number; name: string }>,
+  dimensionName: string | null,
+  options: { iterations?: number; confidence?: number; seed?: number } = {}
+): EngineRating[] {
+  const iterations = options.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS;
+  const confidence = options.confidence ?? 0.95;
+  const selected = selectRecords(records, dimensionName);
+  const engineIds = engines.map(engine => engine.id);
+  const ratings = fitBradleyTerry(engineIds, selected);
+
+  // 按查询分组，重采样时保持查询内部的相关性
+  const recordsByQuery = new Map<string, PairwiseRecord[]>();
+  for (const record of selected) {
+    recordsByQuery.set(record.query, [...(recordsByQuery.get(record.query) || []), record]);
+  }
+  const groups = Array.from(recordsByQuery.values());
+
+  const samples = new Map<number, number[]>(engineIds.map(id => [id, []]));
+  if (groups.length > 0) {
+    const random = createSeededRandom(options.seed ?? DEFAULT_SEED);
+    for (let i = 0; i < iterations; i++) {
+      const resampled: PairwiseRecord[] = [];
+      for (let j = 0; j < groups.length; j++) {
+        resampled.push(...groups[Math.floor(random() * groups.length)]);
+      }
+      const sampleRatings = fitBradleyTerry(engineIds, resampled);
+      for (const id of engineIds) {
+        samples.get(id)?.push(sampleRatings.get(id) ?? BASE_RATING);
+      }
+    }
+  }
+
+  return engines
+    .map(engine => {
+      const rating = ratings.get(engine.id) ?? BASE_RATING;
+      const sorted = (samples.get(engine.id) || []).sort((a, b) => a - b);
+      const record = getEngineRecord(selected, engine.id);
+      return {
+        engineId: engine.id,
+        engineName: engine.name,
+        rating,
+        ciLower: sorted.length > 0 ? quantile(sorted, (1 - confidence) / 2) : rating,
+        ciUpper: sorted.length > 0 ? quantile(sorted, 1 - (1 - confidence) / 2) : rating,
+        ...record
+      };
+    })
+    .sort((a, b) => b.rating - a.rating);
+}
+
+/**
+ * 统计单个引擎的胜、负、平场次
+ * @param records 有效对比记录
+ * @param engineId 引擎ID
+ * @returns { wins: number; losses: number; ties: number }
+ */
+function getEngineRecord(records: PairwiseRecord[], engineId: number): { wins: number; losses: number; ties: number } {
+  const result = { wins: 0, losses: 0, ties: 0 };
+  for (const record of records) {
+    const side = record.engineAId === engineId ? 'A' : record.engineBId === engineId ? 'B' : null;
+    if (!side) continue;
+    if (record.winner === 'tie') result.ties++;
+    else if (record.winner === side) result.wins++;
+    else result.losses++;
+  }
+  return result;
+}
+
+/**
+ * 统计两个引擎之间的交锋战绩
+ * @param records 对比记录
+ * @param engineAId 行引擎ID
+ * @param engineBId 列引擎ID
+ * @param dimensionName 维度名称，为 null 时合并全部维度
+ * @returns HeadToHead
+ */
+export function getHeadToHead(
+  records: PairwiseRecord[],
+  engineAId: number,
+  engineBId: number,
+  dimensionName: string | null
+): HeadToHead {
+  const matches = selectRecords(records, dimensionName).filter(record =>
+    (record.engineAId === engineAId && record.engineBId === engineBId)
+    || (record.engineAId === engineBId && record.engineBId === engineAId)
+  );
+  const { wins, losses, ties } = getEngineRecord(matches, engineAId);
+  return { engineAId, engineBId, wins, ties, losses };
+}
+
+export type { PairwiseRecord, EngineRating, HeadToHead };
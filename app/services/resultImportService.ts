@@ -0,0 +1,246 @@
+/**
+ * 结果导入模块
+ * 读取导出的 JSONL / JSON 结果文件，按（查询 × 引擎 × 轮次）还原评测结果，并合并多个文件用于对比查看
+ */
+
+import { EXPORT_SCHEMA_VERSION, type ExportRow } from './exportService';
+import { DEFAULT_SCORING_SYSTEMS, isScoreInSystem, type ScoringSystem } from './scoringService';
+import type { Dimension, EvaluationResult, SearchEngine } from './evaluationService';
+
+// 单个导入文件的解析结果
+interface ImportedFile {
+  fileName: string;
+  results: EvaluationResult[];
+}
+
+// 合并后的导入结果（引擎ID按合并后的顺序重新编号）
+interface ImportedResults {
+  sources: string[];
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  results: EvaluationResult[];
+  queries: string[];
+  rounds: number;
+  scoringSystem: ScoringSystem;
+}
+
+/**
+ * 检查导出行的必填字段，返回错误信息，合法时返回 null
+ * @param value 解析出的行
+ * @param lineNumber 行号（从 1 开始）
+ * @returns string | null
+ */
+function validateExportRow(value: unknown, lineNumber: number): string | null {
+  const row = value as Partial<ExportRow> | null;
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    return `第${lineNumber}行不是对象`;
+  }
+  if (typeof row.schemaVersion !== 'number') {
+    return `第${lineNumber}行缺少 schemaVersion，不是本工具导出的结果文件`;
+  }
+  if (row.schemaVersion !== EXPORT_SCHEMA_VERSION) {
+    return row.schemaVersion > EXPORT_SCHEMA_VERSION
+      ? `文件格式版本 ${row.schemaVersion} 高于当前支持的版本 ${EXPORT_SCHEMA_VERSION}，请升级后再导入`
+      : `不支持的文件格式版本 ${row.schemaVersion}`;
+  }
+  if (
+    typeof row.query !== 'string' ||
+    typeof row.engineId !== 'number' ||
+    typeof row.engineName !== 'string' ||
+    typeof row.round !== 'number' ||
+    typeof row.weightedScore !== 'number' ||
+    typeof row.timestamp !== 'string' ||
+    !Array.isArray(row.searchResults)
+  ) {
+    return `第${lineNumber}行缺少 query、engineId、engineName、round、weightedScore、timestamp 或 searchResults`;
+  }
+  if (row.dimension !== null && typeof row.dimension !== 'string') {
+    return `第${lineNumber}行的 dimension 必须是字符串或 null`;
+  }
+  if (row.score !== null && typeof row.score !== 'number') {
+    return `第${lineNumber}行的 score 必须是数字或 null`;
+  }
+  return null;
+}
+
+/**
+ * 将导出行按（查询, 引擎, 轮次）还原为评测结果
+ * @param rows 导出行
+ * @returns EvaluationResult[]
+ */
+function rowsToResults(rows: ExportRow[]): EvaluationResult[] {
+  const grouped = new Map<string, EvaluationResult>();
+
+  for (const row of rows) {
+    const key = JSON.stringify([row.query, row.engineId, row.round]);
+    const result: EvaluationResult = grouped.get(key) || {
+      engineId: row.engineId,
+      engineName: row.engineName,
+      query: row.query,
+      round: row.round,
+      searchResults: row.searchResults,
+      scores: {},
+      ...(row.searchAttempts !== undefined ? { searchAttempts: row.searchAttempts } : {}),
+      ...(row.shuffleSeed !== undefined ? { shuffleSeed: row.shuffleSeed } : {}),
+      ...(row.queryMeta ? { queryMeta: row.queryMeta } : {}),
+      weightedScore: row.weightedScore,
+      timestamp: row.timestamp
+    };
+    grouped.set(key, result);
+
+    const dimension = row.dimension;
+    if (dimension === null) continue;
+
+    if (row.score !== null) {
+      result.scores[dimension] = row.score;
+    }
+    if (row.rationale !== undefined) {
+      result.rationales = { ...result.rationales, [dimension]: row.rationale };
+    }
+    if (row.resultJudgments !== undefined) {
+      result.resultJudgments = { ...result.resultJudgments, [dimension]: row.resultJudgments };
+    }
+    if (row.judgeScores !== undefined) {
+      result.judgeScores = { ...result.judgeScores, [dimension]: row.judgeScores };
+    }
+    if (row.failure !== undefined) {
+      result.failures = { ...result.failures, [dimension]: row.failure };
+    }
+    if (row.attempts !== undefined) {
+      result.attempts = { ...result.attempts, [dimension]: row.attempts };
+    }
+  }
+
+  return Array.from(grouped.values());
+}
+
+/**
+ * 解析导出的结果文件，支持 JSONL（每行一个导出行）或导出行组成的 JSON 数组
+ * @param text 文件内容
+ * @returns { ok: true; value: EvaluationResult[] } | { ok: false; error: string }
+ */
+export function parseExportedResults(text: string): { ok: true; value: EvaluationResult[] } | { ok: false; error: string } {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (!trimmed) {
+    return { ok: false, error: '文件为空' };
+  }
+
+  let rawRows: Array<{ value: unknown; lineNumber: number }>;
+  if (trimmed.startsWith('[')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      return { ok: false, error: '文件不是合法的 JSON' };
+    }
+    rawRows = (data as unknown[]).map((value, index) => ({ value, lineNumber: index + 1 }));
+  } else {
+    rawRows = [];
+    for (const [index, line] of trimmed.split(/\r?\n/).entries()) {
+      if (!line.trim()) continue;
+      try {
+        rawRows.push({ value: JSON.parse(line), lineNumber: index + 1 });
+      } catch {
+        return { ok: false, error: `第${index + 1}行不是合法的 JSON` };
+      }
+    }
+  }
+
+  for (const { value, lineNumber } of rawRows) {
+    const error = validateExportRow(value, lineNumber);
+    if (error) {
+      return { ok: false, error };
+    }
+  }
+
+  const results = rowsToResults(rawRows.map(item => item.value as ExportRow));
+  if (results.length === 0) {
+    return { ok: false, error: '文件中没有评测结果' };
+  }
+  return { ok: true, value: results };
+}
+
+/**
+ * 推断导入结果使用的评分制式：优先使用能容纳全部分数的首选制式，其次按内置制式顺序
+ * 没有任何制式能容纳时返回首选制式
+ * @param results 评测结果
+ * @param preferred 首选评分制式（通常为当前选择的制式）
+ * @returns ScoringSystem
+ */
+export function inferScoringSystem(results: EvaluationResult[], preferred: ScoringSystem): ScoringSystem {
+  const scores = results.flatMap(result => Object.values(result.scores));
+  const candidates = [preferred, ...DEFAULT_SCORING_SYSTEMS.filter(system => system.key !== preferred.key)];
+  return candidates.find(system => scores.every(score => isScoreInSystem(score, system))) || preferred;
+}
+
+/**
+ * 合并多个导入文件
+ * 同名引擎视为同一引擎并重新编号；同一引擎的同一查询出现在多个文件中时无法区分，视为冲突
+ * 文件中不含维度权重，各维度按等权显示（加权总分沿用文件中的值）
+ * @param files 导入文件
+ * @param preferredScoringSystem 首选评分制式
+ * @returns { ok: true; value: ImportedResults; warnings: string[] } | { ok: false; error: string }
+ */
+export function mergeImportedResults(
+  files: ImportedFile[],
+  preferredScoringSystem: ScoringSystem
+): { ok: true; value: ImportedResults; warnings: string[] } | { ok: false; error: string } {
+  const engineIds = new Map<string, number>();
+  const owners = new Map<string, number>(); // (引擎名称, 查询) → 文件序号
+  const results: EvaluationResult[] = [];
+
+  for (const [fileIndex, file] of files.entries()) {
+    for (const result of file.results) {
+      const ownerKey = JSON.stringify([result.engineName, result.query]);
+      const owner = owners.get(ownerKey);
+      if (owner !== undefined && owner !== fileIndex) {
+        return {
+          ok: false,
+          error: `引擎「${result.engineName}」在 ${files[owner].fileName} 和 ${file.fileName} 中都有查询「${result.query}」的结果，无法合并`
+        };
+      }
+      owners.set(ownerKey, fileIndex);
+
+      if (!engineIds.has(result.engineName)) {
+        engineIds.set(result.engineName, engineIds.size + 1);
+      }
+      results.push({ ...result, engineId: engineIds.get(result.engineName) as number });
+    }
+  }
+
+  const dimensionNames = Array.from(new Set(results.flatMap(result => [
+    ...Object.keys(result.scores),
+    ...Object.keys(result.failures || {})
+  ])));
+
+  // 查询集不同的文件只有共同查询可以直接比较
+  const querySets = files.map(file => new Set(file.results.map(result => result.query)));
+  const warnings = files.slice(1).flatMap((file, index) => {
+    const base = querySets[0];
+    const current = querySets[index + 1];
+    const sameQueries = base.size === current.size && Array.from(base).every(query => current.has(query));
+    return sameQueries ? [] : [`${file.fileName} 与 ${files[0].fileName} 的查询集不同，只有共同查询的分数可以直接比较`];
+  });
+
+  return {
+    ok: true,
+    value: {
+      sources: files.map(file => file.fileName),
+      // 导出文件不含引擎编码，以名称代替
+      searchEngines: Array.from(engineIds.entries()).map(([name, id]) => ({ id, code: name, name })),
+      dimensions: dimensionNames.map((name, index) => ({
+        id: index + 1,
+        name,
+        weight: 1 / dimensionNames.length,
+        enabled: true
+      })),
+      results,
+      queries: Array.from(new Set(results.map(result => result.query))),
+      rounds: Math.max(0, ...results.map(result => result.round)),
+      scoringSystem: inferScoringSystem(results, preferredScoringSystem)
+    },
+    warnings
+  };
+}
+
+export type { ImportedFile, ImportedResults };
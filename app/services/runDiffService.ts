@@ -0,0 +1,327 @@
+/**
+ * 评测对比模块
+ * 对比两次历史评测（基线与新评测），按引擎、查询与分类汇总加权总分和各维度分数的变化，并列出结果链接的变化
+ */
+
+import { normalizeUrl } from './overlapService';
+import { getQueryWeight, type QueryMeta } from './querySetService';
+import { UNGROUPED_LABEL } from './breakdownService';
+import { weightedMean } from './statisticsService';
+import { normalizeScore } from './scoringService';
+import type { SavedRun } from './runHistoryService';
+
+// 单个分数的变化（任一侧没有分数时差值为 null）
+interface ScoreDiff {
+  baseline: number | null;
+  candidate: number | null;
+  delta: number | null;
+}
+
+// 前k条结果链接的变化
+interface UrlChanges {
+  added: string[];
+  removed: string[];
+  moved: Array<{ url: string; baselineRank: number; candidateRank: number }>;
+  unchangedCount: number;
+}
+
+// 单条查询在单个引擎上的变化
+interface QueryDiff {
+  query: string;
+  engineCode: string;
+  engineName: string;
+  category: string;
+  weightedScore: ScoreDiff;
+  dimensions: Record<string, ScoreDiff>;
+  urlChanges: UrlChanges;
+}
+
+// 单个引擎的整体变化（只统计两次评测都有分数的查询）
+interface EngineDiff {
+  engineCode: string;
+  engineName: string;
+  queryCount: number;
+  weightedScore: ScoreDiff;
+  dimensions: Record<string, ScoreDiff>;
+}
+
+// 单个引擎在单个分类内的变化
+interface CategoryDiff {
+  category: string;
+  engineCode: string;
+  engineName: string;
+  queryCount: number;
+  weightedScore: ScoreDiff;
+}
+
+// 两次评测的对比结果（评分制式不同时分数已归一化到 0-1）
+interface RunDiff {
+  dimensionNames: string[];
+  normalized: boolean;
+  engines: EngineDiff[];
+  queries: QueryDiff[];
+  categories: CategoryDiff[];
+  baselineOnlyQueries: string[];
+  candidateOnlyQueries: string[];
+}
+
+// 单次评测中（引擎, 查询）的多轮汇总
+interface QueryAggregate {
+  weightedScore: number | null;
+  dimensions: Record<string, number | null>;
+  urls: string[];
+  meta?: QueryMeta;
+}
+
+/**
+ * 默认比较的结果条数
+ */
+export const DEFAULT_DIFF_TOP_K = 10;
+
+/**
+ * 计算分数变化
+ * @param baseline 基线分数
+ * @param candidate 新评测分数
+ * @returns ScoreDiff
+ */
+function diffScore(baseline: number | null, candidate: number | null): ScoreDiff {
+  return {
+    baseline,
+    candidate,
+    delta: baseline !== null && candidate !== null ? candidate - baseline : null
+  };
+}
+
+/**
+ * 求平均值，列表为空时返回 null
+ * @param values 数值列表
+ * @returns number | null
+ */
+function meanOrNull(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * 按（引擎编码, 查询）汇总单次评测：多轮取平均，结果链接取第一条有搜索结果的记录
+ * 不同评测中同一引擎的ID可能不同，以引擎编码对应
+ * @param run 历史评测
+ * @param dimensionNames 维度名称列表
+ * @param k 比较的结果条数
+ * @param normalize 是否按该次评测的评分制式将分数归一化到 0-1
+ * @returns Map<string, Map<string, QueryAggregate>> 引擎编码 → 查询 → 汇总
+ */
+function aggregateRun(
+  run: SavedRun,
+  dimensionNames: string[],
+  k: number,
+  normalize: boolean
+): Map<string, Map<string, QueryAggregate>> {
+  const scale = (score: number) => (normalize ? normalizeScore(score, run.config.scoringSystem) : score);
+  const engineCodes = new Map(run.searchEngines.map(engine => [engine.id, engine.code]));
+  const grouped = new Map<string, Map<string, SavedRun['results']>>();
+
+  for (const result of run.results) {
+    const code = engineCodes.get(result.engineId);
+    if (code === undefined) continue;
+    const byQuery = grouped.get(code) || new Map<string, SavedRun['results']>();
+    byQuery.set(result.query, [...(byQuery.get(result.query) || []), result]);
+    grouped.set(code, byQuery);
+  }
+
+  return new Map(Array.from(grouped.entries()).map(([code, byQuery]) => [
+    code,
+    new Map(Array.from(byQuery.entries()).map(([query, results]) => {
+      // 全部维度失败的轮次没有有效分数，不参与平均
+      const scored = results.filter(result => Object.keys(result.scores).length > 0);
+      const withSearch = results.find(result => result.searchResults.length > 0);
+      return [query, {
+        weightedScore: meanOrNull(scored.map(result => scale(result.weightedScore))),
+        dimensions: Object.fromEntries(dimensionNames.map(name => [
+          name,
+          meanOrNull(scored
+            .map(result => result.scores[name])
+            .filter((score): score is number => score !== undefined)
+            .map(scale))
+        ])),
+        urls: withSearch
+          ? [...withSearch.searchResults].sort((a, b) => a.rank - b.rank).slice(0, k).map(item => normalizeUrl(item.url))
+          : [],
+        meta: results[0].queryMeta
+      }];
+    }))
+  ]));
+}
+
+/**
+ * 比较前k条结果链接的变化
+ * @param baselineUrls 基线结果链接（按排名）
+ * @param candidateUrls 新评测结果链接（按排名）
+ * @returns UrlChanges
+ */
+export function diffUrls(baselineUrls: string[], candidateUrls: string[]): UrlChanges {
+  const baselineRanks = new Map(baselineUrls.map((url, index) => [url, index + 1]));
+  const candidateRanks = new Map(candidateUrls.map((url, index) => [url, index + 1]));
+
+  const moved: UrlChanges['moved'] = [];
+  let unchangedCount = 0;
+  for (const [url, candidateRank] of candidateRanks) {
+    const baselineRank = baselineRanks.get(url);
+    if (baselineRank === undefined) continue;
+    if (baselineRank === candidateRank) {
+      unchangedCount++;
+    } else {
+      moved.push({ url, baselineRank, candidateRank });
+    }
+  }
+
+  return {
+    added: candidateUrls.filter(url => !baselineRanks.has(url)),
+    removed: baselineUrls.filter(url => !candidateRanks.has(url)),
+    moved,
+    unchangedCount
+  };
+}
+
+/**
+ * 判断两次评测的评分制式是否一致（标识与分数范围都相同）
+ * @param baseline 基线评测
+ * @param candidate 新评测
+ * @returns boolean
+ */
+export function isSameScoringSystem(baseline: SavedRun, candidate: SavedRun): boolean {
+  const a = baseline.config.scoringSystem;
+  const b = candidate.config.scoringSystem;
+  return a.key === b.key && a.minScore === b.minScore && a.maxScore === b.maxScore;
+}
+
+/**
+ * 对比两次评测
+ * 引擎以编码对应、查询以内容对应；汇总时只统计两次都有分数的查询，按查询权重（优先取新评测中的元数据）加权平均
+ * 两次评测的评分制式不同时，先将分数按各自的制式归一化到 0-1 再比较
+ * @param baseline 基线评测
+ * @param candidate 新评测
+ * @param k 比较的结果条数
+ * @returns RunDiff
+ */
+export function diffRuns(baseline: SavedRun, candidate: SavedRun, k: number = DEFAULT_DIFF_TOP_K): RunDiff {
+  const dimensionNames = Array.from(new Set([
+    ...baseline.dimensions.filter(dim => dim.enabled).map(dim => dim.name),
+    ...candidate.dimensions.filter(dim => dim.enabled).map(dim => dim.name)
+  ]));
+  const normalized = !isSameScoringSystem(baseline, candidate);
+  const baselineAggregates = aggregateRun(baseline, dimensionNames, k, normalized);
+  const candidateAggregates = aggregateRun(candidate, dimensionNames, k, normalized);
+
+  // 两次评测都包含的引擎，按新评测中的顺序与名称
+  const baselineCodes = new Set(baseline.searchEngines.map(engine => engine.code));
+  const engines = candidate.searchEngines.filter(engine => baselineCodes.has(engine.code));
+
+  const queries: QueryDiff[] = [];
+  const engineDiffs: EngineDiff[] = [];
+  const categoryDiffs: CategoryDiff[] = [];
+
+  for (const engine of engines) {
+    const baselineQueries = baselineAggregates.get(engine.code) || new Map<string, QueryAggregate>();
+    const candidateQueries = candidateAggregates.get(engine.code) || new Map<string, QueryAggregate>();
+
+    const engineQueries: Array<{ diff: QueryDiff; weight: number }> = [];
+    for (const [query, candidateAggregate] of candidateQueries) {
+      const baselineAggregate = baselineQueries.get(query);
+      if (!baselineAggregate) continue;
+
+      const meta = candidateAggregate.meta || baselineAggregate.meta;
+      engineQueries.push({
+        diff: {
+          query,
+          engineCode: engine.code,
+          engineName: engine.name,
+          category: meta?.category || UNGROUPED_LABEL,
+          weightedScore: diffScore(baselineAggregate.weightedScore, candidateAggregate.weightedScore),
+          dimensions: Object.fromEntries(dimensionNames.map(name => [
+            name,
+            diffScore(baselineAggregate.dimensions[name], candidateAggregate.dimensions[name])
+          ])),
+          urlChanges: diffUrls(baselineAggregate.urls, candidateAggregate.urls)
+        },
+        weight: getQueryWeight(meta)
+      });
+    }
+
+    /**
+     * 按查询权重汇总一组查询的分数变化
+     */
+    const summarize = (items: typeof engineQueries, pick: (item: QueryDiff) => ScoreDiff) => {
+      const paired = items.filter(item => pick(item.diff).delta !== null);
+      const weights = paired.map(item => item.weight);
+      return paired.length > 0
+        ? diffScore(
+          weightedMean(paired.map(item => pick(item.diff).baseline as number), weights),
+          weightedMean(paired.map(item => pick(item.diff).candidate as number), weights)
+        )
+        : diffScore(null, null);
+    };
+
+    const scoredQueries = engineQueries.filter(item => item.diff.weightedScore.delta !== null);
+    engineDiffs.push({
+      engineCode: engine.code,
+      engineName: engine.name,
+      queryCount: scoredQueries.length,
+      weightedScore: summarize(engineQueries, item => item.weightedScore),
+      dimensions: Object.fromEntries(dimensionNames.map(name => [
+        name,
+        summarize(engineQueries, item => item.dimensions[name])
+      ]))
+    });
+
+    const categories = Array.from(new Set(scoredQueries.map(item => item.diff.category)));
+    for (const category of categories) {
+      const categoryQueries = scoredQueries.filter(item => item.diff.category === category);
+      categoryDiffs.push({
+        category,
+        engineCode: engine.code,
+        engineName: engine.name,
+        queryCount: categoryQueries.length,
+        weightedScore: summarize(categoryQueries, item => item.weightedScore)
+      });
+    }
+
+    queries.push(...engineQueries.map(item => item.diff));
+  }
+
+  const baselineQuerySet = new Set(baseline.queries);
+  const candidateQuerySet = new Set(candidate.queries);
+
+  return {
+    dimensionNames,
+    normalized,
+    engines: engineDiffs,
+    queries,
+    categories: categoryDiffs.sort((a, b) => {
+      if (a.category === UNGROUPED_LABEL) return 1;
+      if (b.category === UNGROUPED_LABEL) return -1;
+      return a.category.localeCompare(b.category);
+    }),
+    baselineOnlyQueries: baseline.queries.filter(query => !candidateQuerySet.has(query)),
+    candidateOnlyQueries: candidate.queries.filter(query => !baselineQuerySet.has(query))
+  };
+}
+
+/**
+ * 获取加权总分变化最大的查询
+ * @param queries 查询变化列表
+ * @param direction 'improved' 取提升最多的，'regressed' 取下降最多的
+ * @param limit 条数
+ * @returns QueryDiff[]
+ */
+export function getTopMovers(queries: QueryDiff[], direction: 'improved' | 'regressed', limit: number): QueryDiff[] {
+  return queries
+    .filter(item => item.weightedScore.delta !== null && (
+      direction === 'improved' ? item.weightedScore.delta > 0 : item.weightedScore.delta < 0
+    ))
+    .sort((a, b) => direction === 'improved'
+      ? (b.weightedScore.delta as number) - (a.weightedScore.delta as number)
+      : (a.weightedScore.delta as number) - (b.weightedScore.delta as number))
+    .slice(0, limit);
+}
+
+export type { ScoreDiff, UrlChanges, QueryDiff, EngineDiff, CategoryDiff, RunDiff };
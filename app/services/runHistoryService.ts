@@ -0,0 +1,193 @@
+/**
+ * 评测历史模块
+ * 将每次评测的完整配置快照与结果保存到IndexedDB，支持浏览、重新打开与删除历史评测
+ */
+
+import {
+  STORES,
+  putRecord,
+  getRecord,
+  getAllRecords,
+  deleteRecord
+} from './dbService';
+import { stripApiKeys, type CheckpointConfig } from './checkpointService';
+import { getQueryWeight } from './querySetService';
+import { weightedMean } from './statisticsService';
+import type {
+  Dimension,
+  EvaluationConfig,
+  EvaluationResult,
+  PairwiseVerdict,
+  SearchEngine
+} from './evaluationService';
+
+// 评测方式：绝对评分或两两对比
+type RunMode = 'absolute' | 'pairwise';
+
+// 评测状态：正常完成或中途取消（取消时只保存已完成的结果）
+type RunStatus = 'completed' | 'cancelled';
+
+// 引擎的主要分数（绝对评分为加权总分均值，两两对比为胜率，平局各计半场）
+interface RunHeadline {
+  engineId: number;
+  engineName: string;
+  score: number | null;
+}
+
+// 历史评测记录接口（列表只读取该记录，评测结果单独保存）
+interface RunRecord {
+  runId: string;
+  createdAt: string;
+  mode: RunMode;
+  status: RunStatus;
+  queries: string[];
+  searchEngines: SearchEngine[]; // 含各引擎的搜索参数
+  dimensions: Dimension[]; // 含评测时的权重与提示词模板
+  config: CheckpointConfig; // 含评分制式、评分模型与评委配置，不含API密钥
+  rounds: number;
+  resultCount: number;
+  headline: RunHeadline[];
+}
+
+// 历史评测结果记录
+interface RunResultsRecord {
+  runId: string;
+  results: EvaluationResult[];
+  pairwiseVerdicts: PairwiseVerdict[];
+}
+
+// 完整的历史评测
+interface SavedRun extends RunRecord {
+  results: EvaluationResult[];
+  pairwiseVerdicts: PairwiseVerdict[];
+}
+
+/**
+ * 计算各引擎的主要分数
+ * @param mode 评测方式
+ * @param searchEngines 搜索引擎列表
+ * @param results 评测结果
+ * @param pairwiseVerdicts 两两对比判定
+ * @returns RunHeadline[]
+ */
+function computeHeadline(
+  mode: RunMode,
+  searchEngines: SearchEngine[],
+  results: EvaluationResult[],
+  pairwiseVerdicts: PairwiseVerdict[]
+): RunHeadline[] {
+  return searchEngines.map(engine => {
+    if (mode === 'pairwise') {
+      let points = 0;
+      let count = 0;
+      for (const verdict of pairwiseVerdicts) {
+        if (verdict.winner === null) continue;
+        const side = verdict.engineAId === engine.id ? 'A' : verdict.engineBId === engine.id ? 'B' : null;
+        if (!side) continue;
+        count++;
+        points += verdict.winner === side ? 1 : verdict.winner === 'tie' ? 0.5 : 0;
+      }
+      return { engineId: engine.id, engineName: engine.name, score: count > 0 ? points / count : null };
+    }
+
+    // 全部维度失败的轮次没有有效分数，不参与统计
+    const engineResults = results.filter(result =>
+      result.engineId === engine.id && Object.keys(result.scores).length > 0
+    );
+    return {
+      engineId: engine.id,
+      engineName: engine.name,
+      score: engineResults.length > 0
+        ? weightedMean(
+          engineResults.map(result => result.weightedScore),
+          engineResults.map(result => getQueryWeight(result.queryMeta))
+        )
+        : null
+    };
+  });
+}
+
+/**
+ * 保存一次评测
+ * 指定 runId 时覆盖同ID的记录并保留其创建时间（断点续评沿用检查点ID，取消后继续评测不会产生重复记录）
+ * @param params 评测配置快照与结果
+ * @returns Promise<RunRecord>
+ */
+export async function saveRun(params: {
+  runId?: string;
+  mode: RunMode;
+  status: RunStatus;
+  queries: string[];
+  searchEngines: SearchEngine[];
+  dimensions: Dimension[];
+  config: EvaluationConfig;
+  rounds: number;
+  results: EvaluationResult[];
+  pairwiseVerdicts: PairwiseVerdict[];
+}): Promise<RunRecord> {
+  const runId = params.runId || `history_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const previous = params.runId ? await getRecord<RunRecord>(STORES.runs, params.runId) : null;
+  const record: RunRecord = {
+    runId,
+    createdAt: previous?.createdAt || new Date().toISOString(),
+    mode: params.mode,
+    status: params.status,
+    queries: params.queries,
+    searchEngines: params.searchEngines,
+    dimensions: params.dimensions,
+    config: stripApiKeys(params.config),
+    rounds: params.rounds,
+    resultCount: params.mode === 'pairwise' ? params.pairwiseVerdicts.length : params.results.length,
+    headline: computeHeadline(params.mode, params.searchEngines, params.results, params.pairwiseVerdicts)
+  };
+  const resultsRecord: RunResultsRecord = {
+    runId,
+    results: params.results,
+    pairwiseVerdicts: params.pairwiseVerdicts
+  };
+
+  // 先写结果再写记录，列表中出现的评测一定能打开
+  await putRecord(STORES.runResults, resultsRecord);
+  await putRecord(STORES.runs, record);
+  return record;
+}
+
+/**
+ * 读取全部历史评测记录（不含结果），按时间从新到旧排列
+ * @returns Promise<RunRecord[]>
+ */
+export async function listRuns(): Promise<RunRecord[]> {
+  const runs = await getAllRecords<RunRecord>(STORES.runs);
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * 读取完整的历史评测
+ * @param runId 评测ID
+ * @returns Promise<SavedRun | null> 不存在时返回 null
+ */
+export async function getRun(runId: string): Promise<SavedRun | null> {
+  const [record, resultsRecord] = await Promise.all([
+    getRecord<RunRecord>(STORES.runs, runId),
+    getRecord<RunResultsRecord>(STORES.runResults, runId)
+  ]);
+  if (!record) return null;
+
+  return {
+    ...record,
+    results: resultsRecord?.results || [],
+    pairwiseVerdicts: resultsRecord?.pairwiseVerdicts || []
+  };
+}
+
+/**
+ * 删除历史评测
+ * @param runId 评测ID
+ * @returns Promise<void>
+ */
+export async function deleteRun(runId: string): Promise<void> {
+  await deleteRecord(STORES.runs, runId);
+  await deleteRecord(STORES.runResults, runId);
+}
+
+export type { RunMode, RunStatus, RunHeadline, RunRecord, SavedRun };
@@ -0,0 +1,208 @@
+/**
+ * 任务调度模块
+ * 提供按并发数和每分钟请求数限流的任务调度功能
+ */
+
+// 限流配置接口（数值为0表示不限制）
+interface RateLimitConfig {
+  concurrency: number;
+  requestsPerMinute: number;
+}
+
+// 搜索接口与评分接口的限流配置
+interface RateLimits {
+  search: RateLimitConfig;
+  judge: RateLimitConfig;
+}
+
+// 任务调度器接口
+interface TaskScheduler {
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  reacquire(delayMs: number, signal?: AbortSignal): Promise<void>;
+}
+
+// 排队中的任务
+interface QueuedTask {
+  run: () => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+// 每分钟请求数的统计窗口
+const RATE_WINDOW_MS = 60 * 1000;
+
+/**
+ * 默认限流配置
+ */
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  search: { concurrency: 3, requestsPerMinute: 60 },
+  judge: { concurrency: 2, requestsPerMinute: 30 }
+};
+
+/**
+ * 创建取消错误（与 fetch 被取消时的错误名称保持一致）
+ * @returns Error
+ */
+function createAbortError(): Error {
+  const error = new Error('任务已取消');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * 创建任务调度器
+ * 任务按提交顺序执行，同时受并发数与每分钟请求数限制
+ * @param limits 限流配置
+ * @returns TaskScheduler
+ */
+export function createTaskScheduler(limits: RateLimitConfig): TaskScheduler {
+  const queue: QueuedTask[] = [];
+  const startTimes: number[] = [];
+  let running = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * 在限流允许的范围内启动排队任务
+   */
+  const pump = () => {
+    while (queue.length > 0) {
+      if (limits.concurrency > 0 && running >= limits.concurrency) {
+        return;
+      }
+
+      if (limits.requestsPerMinute > 0) {
+        const now = Date.now();
+        while (startTimes.length > 0 && now - startTimes[0] >= RATE_WINDOW_MS) {
+          startTimes.shift();
+        }
+        if (startTimes.length >= limits.requestsPerMinute) {
+          // 等待窗口内最早的请求过期后再继续
+          if (!timer) {
+            timer = setTimeout(() => {
+              timer = null;
+              pump();
+            }, startTimes[0] + RATE_WINDOW_MS - now);
+          }
+          return;
+        }
+        startTimes.push(now);
+      }
+
+      const entry = queue.shift() as QueuedTask;
+      if (entry.signal && entry.onAbort) {
+        entry.signal.removeEventListener('abort', entry.onAbort);
+      }
+      running++;
+      entry.run();
+    }
+  };
+
+  return {
+    schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(createAbortError());
+          return;
+        }
+
+        const entry: QueuedTask = {
+          run: () => {
+            task()
+              .then(resolve, reject)
+              .finally(() => {
+                running--;
+                pump();
+              });
+          },
+          signal
+        };
+
+        // 排队期间被取消时直接移出队列
+        if (signal) {
+          entry.onAbort = () => {
+            const index = queue.indexOf(entry);
+            if (index >= 0) {
+              queue.splice(index, 1);
+              reject(createAbortError());
+            }
+          };
+          signal.addEventListener('abort', entry.onAbort, { once: true });
+        }
+
+        queue.push(entry);
+        pump();
+      });
+    },
+
+    /**
+     * 供运行中的任务在重试前调用：释放并发名额，等待 delayMs 后优先排队，
+     * 重新获得并发名额并计入每分钟请求数后返回；取消时补回名额，由任务结束时统一释放
+     * @param delayMs 重试前的等待时间
+     * @param signal 取消信号
+     * @returns Promise<void>
+     */
+    reacquire(delayMs: number, signal?: AbortSignal): Promise<void> {
+      running--;
+      pump();
+
+      return new Promise<void>((resolve, reject) => {
+        const abort = () => {
+          running++;
+          reject(createAbortError());
+        };
+        if (signal?.aborted) {
+          abort();
+          return;
+        }
+
+        const entry: QueuedTask = { run: () => resolve(), signal };
+        const delayTimer = setTimeout(() => {
+          queue.unshift(entry);
+          pump();
+        }, delayMs);
+
+        if (signal) {
+          entry.onAbort = () => {
+            clearTimeout(delayTimer);
+            const index = queue.indexOf(entry);
+            if (index >= 0) {
+              queue.splice(index, 1);
+            }
+            abort();
+          };
+          signal.addEventListener('abort', entry.onAbort, { once: true });
+        }
+      });
+    }
+  };
+}
+
+/**
+ * 验证限流配置
+ * @param limits 限流配置
+ * @returns { isValid: boolean; errors: string[] }
+ */
+export function validateRateLimits(limits: RateLimits): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const labels: Record<keyof RateLimits, string> = { search: '搜索接口', judge: '评分接口' };
+
+  for (const key of Object.keys(labels) as Array<keyof RateLimits>) {
+    const { concurrency, requestsPerMinute } = limits[key];
+    if (!Number.isInteger(concurrency) || concurrency < 0) {
+      errors.push(`${labels[key]}并发数必须为非负整数`);
+    }
+    if (!Number.isInteger(requestsPerMinute) || requestsPerMinute < 0) {
+      errors.push(`${labels[key]}每分钟请求数必须为非负整数`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+export type { RateLimitConfig, RateLimits, TaskScheduler };
@@ -0,0 +1,227 @@
+/**
+ * 计分服务模块
+ * 提供评分制式定义、逐条判定模式下的阶梯计分规则与计算功能
+ */
+
+// 逐条判定等级：0 不符合，1 部分符合，2 高度符合
+type ResultGrade = 0 | 1 | 2;
+
+// 单条搜索结果判定接口
+interface ResultJudgment {
+  rank: number;
+  grade: ResultGrade;
+}
+
+// 阶梯计分规则接口：高度符合条数 ≥ minCount 时得 score 分（minCount 按 10 条结果设定，实际条数不同时按比例换算）
+interface StepScoringRule {
+  minCount: number;
+  score: number;
+}
+
+// 评分档位说明接口
+interface ScoringLevel {
+  score: number;
+  description: string;
+}
+
+// 评分制式接口
+interface ScoringSystem {
+  key: string;
+  label: string;
+  minScore: number;
+  maxScore: number;
+  step: number; // 分数粒度，如 1 表示只允许整数分
+  levels?: ScoringLevel[];
+  stepTable?: StepScoringRule[]; // 逐条判定模式下使用的阶梯计分表
+}
+
+/**
+ * 内置评分制式（阶梯计分表对齐 docs/搜索评测.md 中的评分标准）
+ */
+export const DEFAULT_SCORING_SYSTEMS: ScoringSystem[] = [
+  {
+    key: 'binary',
+    label: '二分制 (0-2分)',
+    minScore: 0,
+    maxScore: 2,
+    step: 1,
+    stepTable: [
+      { minCount: 8, score: 2 },
+      { minCount: 5, score: 1 },
+      { minCount: 0, score: 0 }
+    ]
+  },
+  {
+    key: 'fivePoint',
+    label: '五分制 (1-5分)',
+    minScore: 1,
+    maxScore: 5,
+    step: 1,
+    stepTable: [
+      { minCount: 10, score: 5 },
+      { minCount: 9, score: 4 },
+      { minCount: 7, score: 3 },
+      { minCount: 5, score: 2 },
+      { minCount: 0, score: 1 }
+    ]
+  }
+];
+
+/**
+ * 格式化评分制式的分数范围文本
+ * @param scoringSystem 评分制式
+ * @returns string
+ */
+export function formatScoreRange(scoringSystem: ScoringSystem): string {
+  return `${scoringSystem.minScore}-${scoringSystem.maxScore}分`;
+}
+
+/**
+ * 判断分数是否符合评分制式的范围与粒度
+ * @param score 分数
+ * @param scoringSystem 评分制式
+ * @returns boolean
+ */
+export function isScoreInSystem(score: number, scoringSystem: ScoringSystem): boolean {
+  if (score < scoringSystem.minScore || score > scoringSystem.maxScore) {
+    return false;
+  }
+  const steps = (score - scoringSystem.minScore) / scoringSystem.step;
+  return Math.abs(steps - Math.round(steps)) < 1e-6;
+}
+
+/**
+ * 将分数按评分制式归一化到 0-1 区间（用于图表缩放）
+ * @param score 分数
+ * @param scoringSystem 评分制式
+ * @returns number
+ */
+export function normalizeScore(score: number, scoringSystem: ScoringSystem): number {
+  const range = scoringSystem.maxScore - scoringSystem.minScore;
+  if (range <= 0) return 0;
+  return Math.min(Math.max((score - scoringSystem.minScore) / range, 0), 1);
+}
+
+/**
+ * 验证评分制式
+ * @param scoringSystem 评分制式
+ * @returns { isValid: boolean; errors: string[] }
+ */
+export function validateScoringSystem(scoringSystem: ScoringSystem): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!scoringSystem.key.trim()) {
+    errors.push('评分制式标识不能为空');
+  }
+
+  if (!scoringSystem.label.trim()) {
+    errors.push('评分制式名称不能为空');
+  }
+
+  if (!Number.isFinite(scoringSystem.minScore) || !Number.isFinite(scoringSystem.maxScore)
+    || scoringSystem.minScore >= scoringSystem.maxScore) {
+    errors.push('最小分数必须小于最大分数');
+  }
+
+  if (!Number.isFinite(scoringSystem.step) || scoringSystem.step <= 0) {
+    errors.push('分数粒度必须大于0');
+  } else if (!isScoreInSystem(scoringSystem.maxScore, scoringSystem)) {
+    errors.push('分数范围必须是分数粒度的整数倍');
+  }
+
+  for (const level of scoringSystem.levels || []) {
+    if (!isScoreInSystem(level.score, scoringSystem)) {
+      errors.push(`档位说明中的 ${level.score} 分不在评分范围内`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+// 阶梯计分表门槛对应的结果条数
+const STEP_TABLE_BASE_COUNT = 10;
+
+/**
+ * 统计高度符合的结果条数
+ * @param judgments 逐条判定结果
+ * @returns number
+ */
+export function countHighlyMatched(judgments: ResultJudgment[]): number {
+  return judgments.filter(judgment => judgment.grade === 2).length;
+}
+
+/**
+ * 按阶梯计分表将逐条判定结果换算为维度得分
+ * 门槛按 10 条结果设定，按实际判定条数等比例缩放，避免结果条数不是 10 时分数整体偏高或偏低
+ * @param judgments 逐条判定结果
+ * @param stepTable 阶梯计分表
+ * @returns number
+ */
+export function applyStepTable(
+  judgments: ResultJudgment[],
+  stepTable: StepScoringRule[]
+): number {
+  if (stepTable.length === 0) {
+    throw new Error('阶梯计分表为空，无法换算得分');
+  }
+
+  const count = countHighlyMatched(judgments);
+  const scale = judgments.length / STEP_TABLE_BASE_COUNT;
+  const sortedRules = [...stepTable].sort((a, b) => b.minCount - a.minCount);
+  // 没有判定结果时缩放后的门槛全为 0，直接取最低档
+  const matchedRule = judgments.length > 0
+    ? sortedRules.find(rule => count >= rule.minCount * scale)
+    : undefined;
+
+  // 未命中任何规则时取最低档分数
+  return matchedRule
+    ? matchedRule.score
+    : Math.min(...stepTable.map(rule => rule.score));
+}
+
+/**
+ * 验证阶梯计分表
+ * @param stepTable 阶梯计分表
+ * @param scoringSystem 评分制式，提供时校验阶梯得分是否在评分范围内
+ * @returns { isValid: boolean; errors: string[] }
+ */
+export function validateStepTable(stepTable: StepScoringRule[], scoringSystem?: ScoringSystem): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (stepTable.length === 0) {
+    errors.push('阶梯计分表至少需要一条规则');
+  }
+
+  if (stepTable.some(rule => !Number.isFinite(rule.minCount) || rule.minCount < 0)) {
+    errors.push('高度符合条数必须为非负数');
+  }
+
+  if (stepTable.some(rule => !Number.isFinite(rule.score))) {
+    errors.push('阶梯得分必须为数字');
+  }
+
+  if (scoringSystem && stepTable.some(rule => Number.isFinite(rule.score) && !isScoreInSystem(rule.score, scoringSystem))) {
+    errors.push(`阶梯得分必须在${formatScoreRange(scoringSystem)}范围内`);
+  }
+
+  const counts = stepTable.map(rule => rule.minCount);
+  if (new Set(counts).size !== counts.length) {
+    errors.push('阶梯计分表中存在重复的条数门槛');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+export type { ResultGrade, ResultJudgment, StepScoringRule, ScoringLevel, ScoringSystem };
@@ -0,0 +1,117 @@
+/**
+ * 搜索参数配置模块
+ * 提供每个搜索引擎的搜索参数配置、校验及WebSearch请求构建功能
+ */
+
+import type { WebSearchRequest } from './apiService';
+
+// 搜索参数配置接口（对应 WebSearchRequest 中可调的请求参数）
+interface SearchParams {
+  searchIntent: boolean;
+  count: number;
+  domainFilter: string;
+  recencyFilter: string;
+  contentSize: string;
+}
+
+/**
+ * 默认搜索参数（与接口默认值一致）
+ */
+export const DEFAULT_SEARCH_PARAMS: SearchParams = {
+  searchIntent: false,
+  count: 10,
+  domainFilter: '',
+  recencyFilter: 'noLimit',
+  contentSize: 'medium'
+};
+
+/**
+ * 可选的时间范围
+ */
+export const RECENCY_FILTER_OPTIONS: Array<{ key: string; label: string }> = [
+  { key: 'noLimit', label: '不限' },
+  { key: 'oneDay', label: '一天内' },
+  { key: 'oneWeek', label: '一周内' },
+  { key: 'oneMonth', label: '一个月内' },
+  { key: 'oneYear', label: '一年内' }
+];
+
+/**
+ * 可选的网页摘要长度
+ */
+export const CONTENT_SIZE_OPTIONS: Array<{ key: string; label: string }> = [
+  { key: 'medium', label: '摘要' },
+  { key: 'high', label: '详细' }
+];
+
+// 单次返回结果条数上限
+const MAX_RESULT_COUNT = 50;
+
+/**
+ * 合并搜索参数与默认值，兼容未配置参数的旧引擎配置
+ * @param params 搜索参数
+ * @returns SearchParams
+ */
+export function resolveSearchParams(params?: Partial<SearchParams>): SearchParams {
+  return { ...DEFAULT_SEARCH_PARAMS, ...params };
+}
+
+/**
+ * 构建WebSearch请求
+ * @param query 查询内容
+ * @param engineCode 搜索引擎编码
+ * @param params 搜索参数
+ * @returns WebSearchRequest
+ */
+export function buildWebSearchRequest(
+  query: string,
+  engineCode: string,
+  params?: Partial<SearchParams>
+): WebSearchRequest {
+  const resolved = resolveSearchParams(params);
+  return {
+    search_query: query,
+    search_engine: engineCode,
+    search_intent: resolved.searchIntent,
+    count: resolved.count,
+    search_domain_filter: resolved.domainFilter.trim(),
+    search_recency_filter: resolved.recencyFilter,
+    content_size: resolved.contentSize
+  };
+}
+
+/**
+ * 验证搜索参数
+ * @param params 搜索参数
+ * @param engineName 搜索引擎名称（用于错误信息）
+ * @returns { isValid: boolean; errors: string[] }
+ */
+export function validateSearchParams(params: SearchParams, engineName: string): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(params.count) || params.count < 1 || params.count > MAX_RESULT_COUNT) {
+    errors.push(`搜索引擎「${engineName}」的返回条数必须为 1-${MAX_RESULT_COUNT} 的整数`);
+  }
+
+  if (!RECENCY_FILTER_OPTIONS.some(option => option.key === params.recencyFilter)) {
+    errors.push(`搜索引擎「${engineName}」的时间范围无效`);
+  }
+
+  if (!CONTENT_SIZE_OPTIONS.some(option => option.key === params.contentSize)) {
+    errors.push(`搜索引擎「${engineName}」的摘要长度无效`);
+  }
+
+  if (/\s/.test(params.domainFilter.trim())) {
+    errors.push(`搜索引擎「${engineName}」的域名过滤只能填写一个域名`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+export type { SearchParams };
@@ -0,0 +1,449 @@
+/**
+ * 统计分析模块
+ * 提供多轮评测的离散程度统计、评分一致性（Krippendorff's alpha）与引擎间配对显著性检验功能
+ */
+
+import { createSeededRandom } from './randomService';
+
+// 参与统计的单轮评分记录（只依赖评测结果中的必要字段）
+interface RoundScoreRecord {
+  query: string;
+  engineId: number;
+  engineName: string;
+  round: number;
+  scores: Record<string, number>;
+}
+
+// 参与显著性检验的评分记录（含加权总分）
+interface WeightedScoreRecord extends RoundScoreRecord {
+  weightedScore: number;
+}
+
+// 多轮分数的描述统计
+interface RoundStatistics {
+  count: number;
+  mean: number;
+  variance: number; // 样本方差（n-1）
+  std: number;
+  min: number;
+  max: number;
+  range: number;
+}
+
+// 单个（查询, 引擎, 维度）的多轮稳定性
+interface StabilityRow {
+  query: string;
+  engineId: number;
+  engineName: string;
+  dimensionName: string;
+  roundScores: Array<{ round: number; score: number }>;
+  statistics: RoundStatistics;
+  flagged: boolean; // 轮次间分差超过阈值，需要人工复核
+}
+
+// 单个维度的一致性汇总
+interface DimensionAgreement {
+  dimensionName: string;
+  alpha: number | null;
+  meanStd: number;
+  flaggedCount: number;
+  unitCount: number;
+}
+
+// 稳定性分析报告
+interface StabilityReport {
+  rows: StabilityRow[];
+  dimensions: DimensionAgreement[];
+  overallAlpha: number | null;
+}
+
+// 配对自助法检验结果
+interface BootstrapResult {
+  meanDifference: number;
+  ciLower: number;
+  ciUpper: number;
+  pValue: number;
+}
+
+// Wilcoxon 符号秩检验结果
+interface WilcoxonResult {
+  statistic: number; // 正差值的秩和 W+
+  n: number; // 去除零差值后的样本数
+  pValue: number;
+  method: 'exact' | 'normal';
+}
+
+// 两个引擎的配对比较结果（差值为 A - B）
+interface PairwiseComparison {
+  engineAId: number;
+  engineBId: number;
+  queryCount: number;
+  bootstrap: BootstrapResult;
+  wilcoxon: WilcoxonResult;
+}
+
+// 自助法默认重采样次数与随机种子（固定种子保证结果可复现）
+const DEFAULT_BOOTSTRAP_ITERATIONS = 2000;
+const DEFAULT_SEED = 20240601;
+
+// Wilcoxon 检验使用精确分布的最大样本数
+const WILCOXON_EXACT_LIMIT = 25;
+
+/**
+ * 计算平均值
+ * @param values 数值列表
+ * @returns number
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * 计算加权平均值（权重之和为0时返回0）
+ * @param values 数值列表
+ * @param weights 与数值一一对应的权重
+ * @returns number
+ */
+export function weightedMean(values: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight === 0) return 0;
+  return values.reduce((sum, value, index) => sum + value * weights[index], 0) / totalWeight;
+}
+
+/**
+ * 计算样本方差（不足两个数值时为0）
+ * @param values 数值列表
+ * @returns number
+ */
+export function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * 计算多轮分数的描述统计
+ * @param values 各轮分数
+ * @returns RoundStatistics
+ */
+export function describeRounds(values: number[]): RoundStatistics {
+  const sampleVariance = variance(values);
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 0;
+
+  return {
+    count: values.length,
+    mean: mean(values),
+    variance: sampleVariance,
+    std: Math.sqrt(sampleVariance),
+    min,
+    max,
+    range: max - min
+  };
+}
+
+/**
+ * 计算 Krippendorff's alpha（区间尺度）
+ * 每个单元为同一评分对象在各轮的分数，轮次视为评分者；只有两个及以上分数的单元参与计算
+ * @param units 各单元的分数列表
+ * @returns number | null 分数完全没有差异或数据不足时无法计算，返回 null
+ */
+export function krippendorffAlpha(units: number[][]): number | null {
+  const pairableUnits = units.filter(values => values.length >= 2);
+
+  // Σ_{i≠j}(v_i - v_j)² = 2nΣv² - 2(Σv)²，避免逐对计算
+  const pairwiseSquaredSum = (values: number[]) => {
+    const sum = values.reduce((acc, value) => acc + value, 0);
+    const sumOfSquares = values.reduce((acc, value) => acc + value * value, 0);
+    return 2 * values.length * sumOfSquares - 2 * sum * sum;
+  };
+
+  const allValues = pairableUnits.flat();
+  const n = allValues.length;
+  if (n < 2) return null;
+
+  const observed = pairableUnits.reduce(
+    (acc, values) => acc + pairwiseSquaredSum(values) / (values.length - 1),
+    0
+  ) / n;
+  const expected = pairwiseSquaredSum(allValues) / (n * (n - 1));
+
+  if (expected === 0) return null;
+  return 1 - observed / expected;
+}
+
+/**
+ * 分析多轮评测的稳定性
+ * @param results 评测结果
+ * @param dimensionNames 参与统计的维度名称
+ * @param threshold 轮次间分差阈值，极差超过该值的单元标记为需复核
+ * @returns StabilityReport
+ */
+export function analyzeStability(
+  results: RoundScoreRecord[],
+  dimensionNames: string[],
+  threshold: number
+): StabilityReport {
+  const groups = new Map<string, StabilityRow>();
+
+  for (const result of results) {
+    for (const dimensionName of dimensionNames) {
+      const score = result.scores[dimensionName];
+      if (score === undefined) continue;
+
+      const key = JSON.stringify([result.query, result.engineId, dimensionName]);
+      let row = groups.get(key);
+      if (!row) {
+        row = {
+          query: result.query,
+          engineId: result.engineId,
+          engineName: result.engineName,
+          dimensionName,
+          roundScores: [],
+          statistics: describeRounds([]),
+          flagged: false
+        };
+        groups.set(key, row);
+      }
+      row.roundScores.push({ round: result.round, score });
+    }
+  }
+
+  const rows = Array.from(groups.values()).map(row => {
+    const roundScores = [...row.roundScores].sort((a, b) => a.round - b.round);
+    const statistics = describeRounds(roundScores.map(item => item.score));
+    return {
+      ...row,
+      roundScores,
+      statistics,
+      flagged: statistics.count >= 2 && statistics.range > threshold
+    };
+  });
+
+  const dimensions = dimensionNames.map(dimensionName => {
+    const dimensionRows = rows.filter(row => row.dimensionName === dimensionName && row.statistics.count >= 2);
+    return {
+      dimensionName,
+      alpha: krippendorffAlpha(dimensionRows.map(row => row.roundScores.map(item => item.score))),
+      meanStd: mean(dimensionRows.map(row => row.statistics.std)),
+      flaggedCount: dimensionRows.filter(row => row.flagged).length,
+      unitCount: dimensionRows.length
+    };
+  });
+
+  return {
+    rows,
+    dimensions,
+    overallAlpha: krippendorffAlpha(rows.map(row => row.roundScores.map(item => item.score)))
+  };
+}
+
+/**
+ * 标准正态分布的累积分布函数（Abramowitz-Stegun 7.1.26 近似）
+ * @param z 标准分数
+ * @returns number
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * 计算样本分位数（线性插值）
+ * @param sortedValues 已升序排列的数值
+ * @param q 分位点（0-1）
+ * @returns number
+ */
+export function quantile(sortedValues: number[], q: number): number {
+  if (sortedValues.length === 0) return 0;
+  const position = (sortedValues.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower);
+}
+
+/**
+ * 配对自助法（bootstrap）检验：对查询有放回重采样，估计平均差值的置信区间与双侧p值
+ * @param differences 各查询的配对差值
+ * @param options 重采样次数、置信水平与随机种子
+ * @returns BootstrapResult
+ */
+export function pairedBootstrap(
+  differences: number[],
+  options: { iterations?: number; confidence?: number; seed?: number } = {}
+): BootstrapResult {
+  const iterations = options.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS;
+  const confidence = options.confidence ?? 0.95;
+  const meanDifference = mean(differences);
+
+  if (differences.length === 0) {
+    return { meanDifference: 0, ciLower: 0, ciUpper: 0, pValue: 1 };
+  }
+
+  const random = createSeededRandom(options.seed ?? DEFAULT_SEED);
+  const resampledMeans: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    for (let j = 0; j < differences.length; j++) {
+      sum += differences[Math.floor(random() * differences.length)];
+    }
+    resampledMeans.push(sum / differences.length);
+  }
+  resampledMeans.sort((a, b) => a - b);
+
+  // 双侧p值：重采样均值落在0另一侧的比例的两倍
+  const atOrBelowZero = resampledMeans.filter(value => value <= 0).length / iterations;
+  const atOrAboveZero = resampledMeans.filter(value => value >= 0).length / iterations;
+
+  return {
+    meanDifference,
+    ciLower: quantile(resampledMeans, (1 - confidence) / 2),
+    ciUpper: quantile(resampledMeans, 1 - (1 - confidence) / 2),
+    pValue: Math.min(1, 2 * Math.min(atOrBelowZero, atOrAboveZero))
+  };
+}
+
+/**
+ * Wilcoxon 符号秩检验（双侧）
+ * 差值为0的样本不参与检验；样本数不超过阈值时计算精确分布，否则使用带连续性与结值校正的正态近似
+ * @param differences 各查询的配对差值
+ * @returns WilcoxonResult
+ */
+export function wilcoxonSignedRank(differences: number[]): WilcoxonResult {
+  const nonZero = differences.filter(value => value !== 0);
+  const n = nonZero.length;
+  if (n === 0) {
+    return { statistic: 0, n: 0, pValue: 1, method: 'exact' };
+  }
+
+  // 按绝对值排秩，结值取平均秩
+  const sorted = nonZero
+    .map(value => ({ value, absolute: Math.abs(value) }))
+    .sort((a, b) => a.absolute - b.absolute);
+  const ranks: number[] = new Array(n);
+  const tieSizes: number[] = [];
+  for (let i = 0; i < n;) {
+    let j = i;
+    while (j + 1 < n && sorted[j + 1].absolute === sorted[i].absolute) j++;
+    const averageRank = (i + j + 2) / 2;
+    for (let k = i; k <= j; k++) ranks[k] = averageRank;
+    tieSizes.push(j - i + 1);
+    i = j + 1;
+  }
+
+  const statistic = sorted.reduce((sum, item, index) => sum + (item.value > 0 ? ranks[index] : 0), 0);
+
+  if (n <= WILCOXON_EXACT_LIMIT) {
+    // 平均秩为0.5的整数倍，乘2后按整数做子集和计数，得到W+的精确分布
+    const doubledRanks = ranks.map(rank => Math.round(rank * 2));
+    const total = doubledRanks.reduce((sum, rank) => sum + rank, 0);
+    const counts = new Array(total + 1).fill(0);
+    counts[0] = 1;
+    for (const rank of doubledRanks) {
+      for (let sum = total; sum >= rank; sum--) {
+        counts[sum] += counts[sum - rank];
+      }
+    }
+    const observed = Math.round(statistic * 2);
+    const totalCount = 2 ** n;
+    const lowerTail = counts.slice(0, observed + 1).reduce((sum, count) => sum + count, 0) / totalCount;
+    const upperTail = counts.slice(observed).reduce((sum, count) => sum + count, 0) / totalCount;
+    return { statistic, n, pValue: Math.min(1, 2 * Math.min(lowerTail, upperTail)), method: 'exact' };
+  }
+
+  const expected = n * (n + 1) / 4;
+  const tieCorrection = tieSizes.reduce((sum, size) => sum + (size ** 3 - size), 0) / 48;
+  const sd = Math.sqrt(n * (n + 1) * (2 * n + 1) / 24 - tieCorrection);
+  if (sd === 0) {
+    return { statistic, n, pValue: 1, method: 'normal' };
+  }
+  const z = (Math.abs(statistic - expected) - 0.5) / sd;
+  return { statistic, n, pValue: Math.min(1, 2 * (1 - normalCdf(Math.max(z, 0)))), method: 'normal' };
+}
+
+/**
+ * 按查询汇总各引擎的平均分（多轮取平均）
+ * @param results 评测结果
+ * @param dimensionName 维度名称，为 null 时使用加权总分
+ * @returns Map<number, Map<string, number>> 引擎ID → 查询 → 平均分
+ */
+function averageByQuery(
+  results: WeightedScoreRecord[],
+  dimensionName: string | null
+): Map<number, Map<string, number>> {
+  const sums = new Map<number, Map<string, { sum: number; count: number }>>();
+
+  for (const result of results) {
+    // 全部维度失败的轮次没有有效分数
+    if (Object.keys(result.scores).length === 0) continue;
+    const score = dimensionName === null ? result.weightedScore : result.scores[dimensionName];
+    if (score === undefined) continue;
+
+    const engineSums = sums.get(result.engineId) || new Map<string, { sum: number; count: number }>();
+    const entry = engineSums.get(result.query) || { sum: 0, count: 0 };
+    entry.sum += score;
+    entry.count += 1;
+    engineSums.set(result.query, entry);
+    sums.set(result.engineId, engineSums);
+  }
+
+  return new Map(Array.from(sums.entries()).map(([engineId, engineSums]) => [
+    engineId,
+    new Map(Array.from(engineSums.entries()).map(([query, entry]) => [query, entry.sum / entry.count]))
+  ]));
+}
+
+/**
+ * 对引擎两两进行配对显著性检验（以查询为配对单位）
+ * @param results 评测结果
+ * @param engines 参与比较的引擎
+ * @param dimensionName 维度名称，为 null 时比较加权总分
+ * @param options 自助法参数
+ * @returns PairwiseComparison[] 每对引擎（A在前、B在后）一条，差值为 A - B
+ */
+export function comparePairedEngines(
+  results: WeightedScoreRecord[],
+  engines: Array<{ id: number; name: string }>,
+  dimensionName: string | null,
+  options: { iterations?: number; confidence?: number; seed?: number } = {}
+): PairwiseComparison[] {
+  const averages = averageByQuery(results, dimensionName);
+  const comparisons: PairwiseComparison[] = [];
+
+  for (let i = 0; i < engines.length; i++) {
+    for (let j = i + 1; j < engines.length; j++) {
+      const scoresA = averages.get(engines[i].id) || new Map<string, number>();
+      const scoresB = averages.get(engines[j].id) || new Map<string, number>();
+
+      // 只比较两个引擎都有分数的查询
+      const differences = Array.from(scoresA.entries())
+        .filter(([query]) => scoresB.has(query))
+        .map(([query, scoreA]) => scoreA - (scoresB.get(query) as number));
+
+      comparisons.push({
+        engineAId: engines[i].id,
+        engineBId: engines[j].id,
+        queryCount: differences.length,
+        bootstrap: pairedBootstrap(differences, options),
+        wilcoxon: wilcoxonSignedRank(differences)
+      });
+    }
+  }
+
+  return comparisons;
+}
+
+export type {
+  RoundScoreRecord,
+  WeightedScoreRecord,
+  RoundStatistics,
+  StabilityRow,
+  DimensionAgreement,
+  StabilityReport,
+  BootstrapResult,
+  WilcoxonResult,
+  PairwiseComparison
+};